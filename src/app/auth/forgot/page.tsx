@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Página para solicitar el restablecimiento de la contraseña
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { AuthLayout } from '@/components/templates';
+import { ForgotPasswordForm } from '@/components/organisms';
+import { LOGIN_ROUTE } from '@/lib/routes';
+
+export default function ForgotPasswordPage() {
+  return (
+    <AuthLayout
+      title="Forgot your password?"
+      subtitle="Enter your email and we will send you a reset link"
+    >
+      <ForgotPasswordForm />
+
+      <div className="mt-6 text-center">
+        <Link href={LOGIN_ROUTE} className="text-sm font-medium text-blue-600 hover:text-blue-500 transition-colors">
+          Back to sign in
+        </Link>
+      </div>
+    </AuthLayout>
+  );
+}
@@ -8,8 +8,9 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
-import { AuthLayout } from '@/components/templates';
+import { AuthLayout, LoadingShell } from '@/components/templates';
 import { LoginForm, RegisterForm } from '@/components/organisms';
+import { getNextPathFromLocation } from '@/lib/routes';
 import { useEffect } from 'react';
 
 /**
@@ -23,10 +24,11 @@ export default function AuthPage() {
 
   /**
    * Redireccionar si ya está autenticado
+   * Vuelve a la página solicitada antes del login (?next=...)
    */
   useEffect(() => {
     if (!isLoading && isAuthenticated) {
-      router.push('/dashboard');
+      router.replace(getNextPathFromLocation());
     }
   }, [isAuthenticated, isLoading, router]);
 
@@ -34,7 +36,7 @@ export default function AuthPage() {
    * Handler para auth exitosa
    */
   const handleAuthSuccess = () => {
-    router.push('/dashboard');
+    router.replace(getNextPathFromLocation());
   };
 
   /**
@@ -52,18 +54,9 @@ export default function AuthPage() {
     setIsLogin(!isLogin);
   };
 
-  // Mostrar loading mientras se verifica el estado de auth
-  if (isLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-      </div>
-    );
-  }
-
-  // No renderizar si ya está autenticado
-  if (isAuthenticated) {
-    return null;
+  // Mostrar loading mientras se verifica el estado de auth o se redirige
+  if (isLoading || isAuthenticated) {
+    return <LoadingShell />;
   }
 
   return (
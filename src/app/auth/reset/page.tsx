@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Página para elegir una nueva contraseña desde el enlace del email (?token=...)
+ */
+
+'use client';
+
+import { Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { AuthLayout, LoadingShell } from '@/components/templates';
+import { ResetPasswordForm } from '@/components/organisms';
+import { FORGOT_PASSWORD_ROUTE, LOGIN_ROUTE } from '@/lib/routes';
+
+/**
+ * Contenido de la página; lee el token de la URL
+ */
+function ResetPasswordContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const [isDone, setIsDone] = useState(false);
+
+  return (
+    <AuthLayout
+      title="Choose a new password"
+      subtitle={isDone ? 'Your password has been changed' : 'Enter your new password twice'}
+    >
+      {isDone ? (
+        <div
+          className="p-4 text-sm text-green-700 bg-green-50 border border-green-200 rounded-lg"
+          role="status"
+        >
+          Your password has been changed. You can now sign in with it.
+        </div>
+      ) : (
+        <ResetPasswordForm token={token} onSuccess={() => setIsDone(true)} />
+      )}
+
+      <div className="mt-6 flex justify-between text-sm">
+        <Link href={LOGIN_ROUTE} className="font-medium text-blue-600 hover:text-blue-500 transition-colors">
+          {isDone ? 'Sign in' : 'Back to sign in'}
+        </Link>
+        {!isDone && (
+          <Link href={FORGOT_PASSWORD_ROUTE} className="font-medium text-blue-600 hover:text-blue-500 transition-colors">
+            Request a new link
+          </Link>
+        )}
+      </div>
+    </AuthLayout>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense fallback={<LoadingShell />}>
+      <ResetPasswordContent />
+    </Suspense>
+  );
+}
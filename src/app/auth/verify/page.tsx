@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Página de verificación del email desde el enlace recibido (?token=...)
+ */
+
+'use client';
+
+import { Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import { AuthLayout, LoadingShell } from '@/components/templates';
+import { EmailVerification } from '@/components/organisms';
+import { DEFAULT_AUTHENTICATED_ROUTE, LOGIN_ROUTE } from '@/lib/routes';
+
+/**
+ * Contenido de la página; lee el token de la URL
+ */
+function VerifyEmailContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { isAuthenticated } = useAuth();
+
+  return (
+    <AuthLayout title="Email verification" subtitle="Confirming your email address">
+      <EmailVerification
+        token={searchParams.get('token')}
+        onContinue={() => router.push(isAuthenticated ? DEFAULT_AUTHENTICATED_ROUTE : LOGIN_ROUTE)}
+      />
+    </AuthLayout>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense fallback={<LoadingShell />}>
+      <VerifyEmailContent />
+    </Suspense>
+  );
+}
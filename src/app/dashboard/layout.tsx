@@ -0,0 +1,26 @@
+/**
+ * @fileoverview Layout de /dashboard/* - Protege todas las rutas del dashboard
+ */
+
+'use client';
+
+import { LoadingShell } from '@/components/templates';
+import { useRequireAuth } from '@/hooks/useRequireAuth';
+
+/**
+ * Guard de rutas: muestra la pantalla de carga mientras se resuelve la sesión
+ * y redirige al login si no hay usuario autenticado
+ */
+export default function DashboardRouteLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const { isReady } = useRequireAuth();
+
+  if (!isReady) {
+    return <LoadingShell />;
+  }
+
+  return <>{children}</>;
+}
@@ -5,22 +5,33 @@
 "use client";
 
 import React from 'react';
-import { useAuth } from '@/context/AuthContext';
 import { DashboardLayout } from '@/components/templates';
-import { MapViewer } from '@/components/organisms';
-import { Button } from '@/components/atoms';
+import {
+  MapViewer,
+  AreaStatisticsPanel,
+  SavedMapsPanel,
+  LayerManagerPanel,
+  ExportMenu,
+  DataImportPanel,
+  MapSearchBox,
+  type LayerManagerItem,
+} from '@/components/organisms';
+import { Button, Can } from '@/components/atoms';
 import { cn } from '@/lib/utils';
-import { createMapConfig } from '@/lib/mapUtils';
+import { createMapConfig, generateLayerColor, getSpeciesColor } from '@/lib/mapUtils';
+import { MAPS_IMPORT_PARAM } from '@/lib/routes';
 import useMapsPage from '@/hooks/useMapsPage';
-import type { ForestLayer } from '@/types/map';
-import { useEffect } from 'react';
+import { useCan } from '@/hooks/useCan';
+import { useAuth } from '@/context/AuthContext';
+import { useEffect, useMemo, useState } from 'react';
 
 /**
  * Main map page with hierarchical navigation
  * Following composition and single responsibility principles
  */
 export default function MapsPage() {
-  const { isAuthenticated, isLoading, user } = useAuth();
+  const { user } = useAuth();
+  const canViewCadastre = useCan('cadastre:view');
 
   const {
     viewState,
@@ -38,55 +49,126 @@ export default function MapsPage() {
     treeSpeciesError,
     forestLayers,
     cadastreLayers,
+    userLayers,
+    isLoadingUserLayers,
+    userLayersError,
+    importReports,
+    isImporting,
+    importFiles,
+    removeUserLayer,
+    clearImportReports,
+    boundary,
+    isLoadingBoundary,
+    areaStatistics,
+    isStatisticsVisiblePortion,
+    analysisAreaLabel,
     isLoadingForest,
+    isForestTruncated,
     isLoadingCadastre,
     handleViewStateChange,
     handleMapClick,
     handleMapLoad,
-    toggleLayer,
+    layerOrder,
+    layerState,
+    toggleLayerMute,
+    toggleLayerSolo,
+    setLayerOpacity,
+    moveLayer,
+    zoomToLayer,
+    exportData,
+    exportClipAreas,
+    exportLayerCount,
+    exportFeatureCount,
+    exportError,
+    exportWarning,
     handleRegionFilter,
     handleDepartmentFilter,
+    handleCommuneFilter,
+    handleAoiChange,
     clearFilters,
+    searchQuery,
+    setSearchQuery,
+    clearSearch,
+    searchResults,
+    isSearching,
+    searchError,
+    handleSearchSelect,
+    savedMaps,
+    isLoadingSavedMaps,
+    savedMapsError,
+    savedMapsActionError,
+    isSavingMap,
+    handleSaveMap,
+    handleRestoreMap,
+    handleRenameMap,
+    handleDeleteMap,
     selectedRegion,
     selectedDepartment,
     selectedCommune,
-    setSelectedCommune,
+    basemap,
+    setBasemap,
   } = useMapsPage();
+
+  // The "Cargar Datos" quick action opens the page with the import expanded
+  const [openImportOnLoad] = useState(
+    () => typeof window !== 'undefined' && new URLSearchParams(window.location.search).has(MAPS_IMPORT_PARAM)
+  );
+
+  // Forest, cadastre and imported layers of the layer manager, top-most first
+  const managedLayerItems = useMemo<LayerManagerItem[]>(() => {
+    const items: LayerManagerItem[] = [
+      ...userLayers.map(layer => ({
+        id: layer.id,
+        name: layer.name,
+        color: layer.color,
+        visible: layer.visible,
+        opacity: layer.opacity,
+        hasExtent: layer.geoData.features.length > 0,
+      })),
+      ...forestLayers.map(layer => ({
+        id: layer.id,
+        name: layer.name,
+        color: getSpeciesColor(layer.species, treeSpecies),
+        visible: layer.visible,
+        opacity: layer.opacity,
+        hasExtent: layer.geoData.features.length > 0,
+      })),
+      ...(canViewCadastre ? cadastreLayers : []).map((layer, index) => ({
+        id: layer.id,
+        name: layer.name,
+        color: generateLayerColor('parcel', index),
+        visible: layer.visible,
+        opacity: layer.opacity,
+        hasExtent: layer.geoData.features.length > 0,
+      })),
+    ];
+    const rank = (id: string) => {
+      const index = layerOrder.indexOf(id);
+      return index === -1 ? layerOrder.length : index;
+    };
+    return items.sort((a, b) => rank(a.id) - rank(b.id));
+  }, [forestLayers, cadastreLayers, userLayers, canViewCadastre, treeSpecies, layerOrder]);
   useEffect(() => {
     let cfg: any = null;
     try {
-      cfg = createMapConfig({});
+      cfg = createMapConfig({}, user?.preferences);
       setMapError(null);
     } catch (error) {
       // eslint-disable-next-line no-console
       console.error('Error creating map config:', error);
       setMapError(error instanceof Error ? error.message : 'Configuration error');
     }
-  }, [setMapError]);
+  }, [setMapError, user?.preferences]);
 
   let mapConfig: any = null;
   if (!mapError) {
     try {
-      mapConfig = createMapConfig({});
+      mapConfig = createMapConfig({}, user?.preferences);
     } catch (error) {
       mapConfig = null;
     }
   }
 
-  // Show loading while auth is being checked
-  if (isLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-      </div>
-    );
-  }
-
-  // Do not render if not authenticated
-  if (!isAuthenticated || !user) {
-    return null;
-  }
-
   const breadcrumbs = [
     { label: 'Dashboard', href: '/dashboard' },
     { label: 'Maps' },
@@ -116,7 +198,7 @@ export default function MapsPage() {
           </div>
 
           {controlsPanelOpen && (
-            <div className="p-4 space-y-6">
+            <div className="p-4 space-y-6 overflow-y-auto max-h-[calc(100%-4.5rem)]">
               {/* Hierarchical navigation */}
               <div className="space-y-3">
                 <h3 className="text-sm font-medium text-gray-700">Location</h3>
@@ -170,7 +252,7 @@ export default function MapsPage() {
                     <label className="block text-xs font-medium text-gray-600">Commune</label>
                     <select 
                       value={selectedCommune}
-                      onChange={(e) => setSelectedCommune(e.target.value)}
+                      onChange={(e) => handleCommuneFilter(e.target.value)}
                       disabled={geoHierarchy.communes.isLoading}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50 text-black"
                     >
@@ -194,32 +276,40 @@ export default function MapsPage() {
 
               {/* Control de capas */}
               <div className="space-y-3">
-                <h3 className="text-sm font-medium text-gray-700">Forest Layers</h3>
-                
-                {isLoadingForest ? (
-                  <div className="text-xs text-gray-500">Loading layers...</div>
-                ) : forestLayers.length > 0 ? (
-                  forestLayers.map((layer: ForestLayer) => (
-                    <div key={layer.id} className="flex items-center justify-between">
-                      <label className="flex items-center space-x-2 text-sm">
-                        <input
-                          type="checkbox"
-                          checked={layer.visible}
-                          onChange={() => toggleLayer(layer.id)}
-                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                        />
-                        <span className="text-black">{layer.name}</span>
-                      </label>
-                      <div
-                        className="w-4 h-4 rounded border"
-                        style={{ backgroundColor: layer.type === 'forest' ? '#228B22' : '#4169E1' }}
-                      />
-                    </div>
-                  ))
-                ) : (
-                  <div className="text-xs text-gray-500">No layers available</div>
+                <h3 className="text-sm font-medium text-gray-700">Layers</h3>
+
+                <LayerManagerPanel
+                  layers={managedLayerItems}
+                  layerState={layerState}
+                  isLoading={isLoadingForest}
+                  onToggleMute={toggleLayerMute}
+                  onToggleSolo={toggleLayerSolo}
+                  onOpacityChange={setLayerOpacity}
+                  onMove={moveLayer}
+                  onZoomTo={zoomToLayer}
+                />
+
+                {isForestTruncated && (
+                  <div className="text-xs text-amber-700 bg-amber-50 rounded p-2">
+                    Too many forest parcels in this view: some are not shown. Zoom in to load them all.
+                  </div>
                 )}
 
+                {canViewCadastre && cadastreLayers.map(layer => (
+                  <React.Fragment key={layer.id}>
+                    {layer.isFixture && (
+                      <div className="text-xs text-amber-700 bg-amber-50 rounded p-2">
+                        The cadastre service is unreachable: the parcels shown are sample data.
+                      </div>
+                    )}
+                    {!!layer.failedCommunes?.length && (
+                      <div className="text-xs text-amber-700 bg-amber-50 rounded p-2">
+                        Parcels could not be loaded for {layer.failedCommunes.length} commune(s): {layer.failedCommunes.join(', ')}.
+                      </div>
+                    )}
+                  </React.Fragment>
+                ))}
+
                 {/* Control de especies de árboles */}
                 <div className="space-y-2">
                     <label className="block text-xs font-medium text-gray-600">Tree species</label>
@@ -242,7 +332,7 @@ export default function MapsPage() {
                             }}
                             className="rounded border-gray-300 text-green-600 focus:ring-green-500"
                           />
-                          <div className="w-3 h-3 rounded" style={{ backgroundColor: species.color }} />
+                          <div className="w-3 h-3 rounded" style={{ backgroundColor: getSpeciesColor(species.id, treeSpecies) }} />
                           <span className='text-black'>{species.name}</span>
                         </label>
                       ))}
@@ -251,25 +341,85 @@ export default function MapsPage() {
                 </div>
 
                 {/* Control para mostrar catastro */}
-                <div className="flex items-center justify-between">
-                  <label className="flex items-center space-x-2 text-sm">
-                    <input
-                      type="checkbox"
-                      checked={filters.showCadastre}
-                      onChange={(e) => setFilters((prev) => ({ ...prev, showCadastre: e.target.checked }))}
-                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                    />
-                    <span>Cadastre parcels</span>
-                  </label>
-                  <div className="w-4 h-4 rounded border bg-blue-400" />
+                <Can permission="cadastre:view">
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={filters.showCadastre}
+                        onChange={(e) => setFilters((prev) => ({ ...prev, showCadastre: e.target.checked }))}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span>Cadastre parcels</span>
+                    </label>
+                    <div className="w-4 h-4 rounded border bg-blue-400" />
+                  </div>
+                </Can>
+              </div>
+
+              {/* Datos importados por el usuario */}
+              <Can permission="data:import">
+                <div className="border-t border-gray-200 pt-4">
+                  <DataImportPanel
+                    layers={userLayers}
+                    reports={importReports}
+                    isImporting={isImporting}
+                    isLoading={isLoadingUserLayers}
+                    error={userLayersError}
+                    defaultOpen={openImportOnLoad}
+                    onImport={importFiles}
+                    onRemove={removeUserLayer}
+                    onClearReports={clearImportReports}
+                  />
+                </div>
+              </Can>
+
+              {/* Exportación de las capas visibles */}
+              <Can permission="data:export">
+                <div className="border-t border-gray-200 pt-4">
+                  <ExportMenu
+                    clipAreas={exportClipAreas}
+                    boundaryLabel={boundary?.features[0]?.properties?.nom}
+                    layerCount={exportLayerCount}
+                    featureCount={exportFeatureCount}
+                    error={exportError}
+                    warning={exportWarning}
+                    onExport={exportData}
+                  />
                 </div>
+              </Can>
+
+              {/* Mapas guardados */}
+              <div className="border-t border-gray-200 pt-4">
+                <SavedMapsPanel
+                  savedMaps={savedMaps}
+                  isLoading={isLoadingSavedMaps}
+                  error={savedMapsError}
+                  actionError={savedMapsActionError}
+                  isSaving={isSavingMap}
+                  onSave={handleSaveMap}
+                  onRestore={handleRestoreMap}
+                  onRename={handleRenameMap}
+                  onDelete={handleDeleteMap}
+                />
+              </div>
+
+              {/* Estadísticas del área analizada */}
+              <div className="border-t border-gray-200 pt-4">
+                <AreaStatisticsPanel
+                  statistics={areaStatistics}
+                  areaLabel={analysisAreaLabel}
+                  isVisiblePortion={isStatisticsVisiblePortion}
+                  treeSpecies={treeSpecies}
+                  isLoading={isLoadingForest}
+                />
               </div>
 
               {/* Información actual */}
                 <div className="space-y-2 text-xs text-gray-600 border-t border-gray-200 pt-4">
                   <div>🌍 View: {viewState ? `${viewState.latitude.toFixed(3)}, ${viewState.longitude.toFixed(3)}` : 'Loading...'}</div>
                   <div>🔍 Zoom: {viewState ? viewState.zoom.toFixed(1) : '-'}</div>
-                  <div>📊 Active layers: {forestLayers.filter((l: ForestLayer) => l.visible).length}</div>
+                  <div>📊 Active layers: {managedLayerItems.filter(layer => layer.visible).length}</div>
                   <div>🌲 Species: {filters.treeSpecies?.length || 0} selected</div>
                   {geoHierarchy.isLoadingAny && (
                     <div className="flex items-center space-x-1 text-blue-600">
@@ -311,10 +461,21 @@ export default function MapsPage() {
               filters={filters}
               layers={forestLayers}
               cadastreLayers={cadastreLayers}
-              isLoading={isMapLoading || isLoadingForest || isLoadingCadastre}
+              userLayers={userLayers}
+              treeSpecies={treeSpecies}
+              layerOrder={layerOrder}
+              boundary={boundary}
+              isLoading={isMapLoading || isLoadingBoundary || isLoadingForest || isLoadingCadastre}
               onViewStateChange={handleViewStateChange}
               onClick={handleMapClick}
               onLoad={handleMapLoad}
+              onAoiChange={handleAoiChange}
+              basemap={basemap}
+              onBasemapChange={setBasemap}
+              enablePrint
+              printTitle={boundary?.features[0]?.properties?.nom
+                ? `Forest map – ${boundary.features[0].properties.nom}`
+                : 'Forest map'}
               onError={(error) => {
                 // eslint-disable-next-line no-console
                 console.error('Map error:', error);
@@ -327,6 +488,21 @@ export default function MapsPage() {
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
             </div>
           )}
+
+          {/* Búsqueda de lugares sobre el mapa */}
+          {mapConfig && !mapError && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50">
+              <MapSearchBox
+                query={searchQuery}
+                results={searchResults}
+                isSearching={isSearching}
+                error={searchError}
+                onQueryChange={setSearchQuery}
+                onSelect={handleSearchSelect}
+                onClear={clearSearch}
+              />
+            </div>
+          )}
         </div>
       </div>
     </DashboardLayout>
@@ -6,39 +6,15 @@
 
 import { useAuth } from '@/context/AuthContext';
 import { DashboardLayout } from '@/components/templates';
-import { useRouter } from 'next/navigation';
-import { useEffect } from 'react';
+import { DashboardStats } from '@/components/organisms';
 
 /**
  * Main dashboard page combining multiple organisms
  * Following composition principle
  */
 export default function DashboardPage() {
-  const { isAuthenticated, isLoading, user } = useAuth();
-  const router = useRouter();
-
-  /**
-   * Redirect to login if not authenticated
-   */
-  useEffect(() => {
-    if (!isLoading && !isAuthenticated) {
-      router.push('/auth');
-    }
-  }, [isAuthenticated, isLoading, router]);
-
-  // Show loading while auth state is being verified
-  if (isLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-      </div>
-    );
-  }
-
-  // Do not render if not authenticated
-  if (!isAuthenticated || !user) {
-    return null;
-  }
+  // The dashboard layout only renders this page once the session is resolved
+  const { user } = useAuth();
 
   const breadcrumbs = [
     { label: 'Home', href: '/dashboard' },
@@ -56,7 +32,7 @@ export default function DashboardPage() {
           <div className="flex items-start justify-between">
             <div>
               <h1 className="text-2xl font-bold text-gray-900 mb-2">
-                Hello, {user.name || user.email.split('@')[0]}! 👋
+                Hello, {user?.name || user?.email.split('@')[0]}! 👋
               </h1>
               <p className="text-gray-600">
                 Welcome back to your geospatial analysis control panel.
@@ -80,6 +56,8 @@ export default function DashboardPage() {
           </div>
         </div>
 
+        {/* Activity metrics */}
+        <DashboardStats />
       </div>
     </DashboardLayout>
   );
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Página de ajustes de la cuenta: perfil, contraseña y preferencias
+ */
+
+'use client';
+
+import { useAuth } from '@/context/AuthContext';
+import { DashboardLayout } from '@/components/templates';
+import { ChangePasswordForm, PreferencesForm, ProfileSettingsForm } from '@/components/organisms';
+
+/**
+ * Account settings page
+ * The dashboard layout only renders it once the session is resolved
+ */
+export default function SettingsPage() {
+  const { user } = useAuth();
+
+  const breadcrumbs = [
+    { label: 'Dashboard', href: '/dashboard' },
+    { label: 'Settings' }
+  ];
+
+  if (!user) return null;
+
+  return (
+    <DashboardLayout pageTitle="Settings" breadcrumbs={breadcrumbs}>
+      <div className="max-w-3xl space-y-8">
+        <SettingsSection title="Profile" description="Your name and profile picture">
+          <ProfileSettingsForm user={user} />
+        </SettingsSection>
+
+        <SettingsSection title="Password" description="Change the password you sign in with">
+          <ChangePasswordForm />
+        </SettingsSection>
+
+        <SettingsSection title="Preferences" description="Default map style and view, units and language">
+          <PreferencesForm user={user} />
+        </SettingsSection>
+      </div>
+    </DashboardLayout>
+  );
+}
+
+/**
+ * Tarjeta de una sección de ajustes
+ */
+interface SettingsSectionProps {
+  title: string;
+  description: string;
+  children: React.ReactNode;
+}
+
+function SettingsSection({ title, description, children }: SettingsSectionProps) {
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+      <p className="text-sm text-gray-600 mb-6">{description}</p>
+      {children}
+    </section>
+  );
+}
@@ -8,6 +8,8 @@
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
+import { LoadingShell } from '@/components/templates';
+import { DEFAULT_AUTHENTICATED_ROUTE, LOGIN_ROUTE } from '@/lib/routes';
 
 export default function HomePage() {
   const router = useRouter();
@@ -16,20 +18,13 @@ export default function HomePage() {
   useEffect(() => {
     if (!isLoading) {
       if (isAuthenticated) {
-        router.push('/dashboard');
+        router.push(DEFAULT_AUTHENTICATED_ROUTE);
       } else {
-        router.push('/auth');
+        router.push(LOGIN_ROUTE);
       }
     }
   }, [isAuthenticated, isLoading, router]);
 
   // Mostrar loading mientras se determina la redirección
-  return (
-    <div className="min-h-screen flex items-center justify-center bg-gray-50">
-      <div className="text-center">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
-        <p className="mt-4 text-gray-600">Cargando...</p>
-      </div>
-    </div>
-  );
+  return <LoadingShell message="Cargando..." />;
 }
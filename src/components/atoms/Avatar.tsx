@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Avatar Component - Atom for the user picture
+ * Falls back to locally generated initials when there is no image or it fails to load
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { cn, getAvatarFallback } from '@/lib/utils';
+
+export interface AvatarProps {
+  /** Image URL */
+  src?: string | null;
+  /** User name, used for the initials */
+  name?: string | null;
+  /** User email, used for the initials when there is no name */
+  email?: string;
+  /** Avatar size */
+  size?: 'sm' | 'md' | 'lg';
+  className?: string;
+}
+
+/**
+ * Round user picture with initials fallback
+ */
+export function Avatar({ src, name, email, size = 'sm', className }: AvatarProps) {
+  // URL that failed to load, so a new avatar is tried again
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
+
+  const sizes = {
+    sm: 'w-8 h-8',
+    md: 'w-12 h-12',
+    lg: 'w-20 h-20'
+  };
+
+  const imageSrc = src && src !== failedSrc ? src : getAvatarFallback(name, email);
+
+  return (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={imageSrc}
+      alt={`Avatar of ${name || email || 'user'}`}
+      className={cn('rounded-full object-cover', sizes[size], className)}
+      onError={() => src && setFailedSrc(src)}
+    />
+  );
+}
+
+export default Avatar;
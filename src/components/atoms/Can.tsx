@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Can - Renderiza su contenido solo si el usuario tiene un permiso
+ */
+
+'use client';
+
+import React from 'react';
+import { useCan } from '@/hooks/useCan';
+import type { Permission } from '@/types/auth';
+
+export interface CanProps {
+  /** Permiso necesario para ver el contenido */
+  permission: Permission;
+  children: React.ReactNode;
+  /** Contenido alternativo sin el permiso */
+  fallback?: React.ReactNode;
+}
+
+/**
+ * Componente para ocultar datos y acciones según los permisos del usuario
+ */
+export function Can({ permission, children, fallback = null }: CanProps) {
+  const allowed = useCan(permission);
+  return <>{allowed ? children : fallback}</>;
+}
+
+export default Can;
@@ -5,4 +5,6 @@
 
 export { Button, type ButtonProps } from './Button';
 export { Input, type InputProps } from './Input'; 
-export { Label, type LabelProps } from './Label';
\ No newline at end of file
+export { Label, type LabelProps } from './Label';
+export { Can, type CanProps } from './Can';
+export { Avatar, type AvatarProps } from './Avatar';
\ No newline at end of file
@@ -0,0 +1,123 @@
+/**
+ * @fileoverview AreaStatisticsPanel - Forest statistics of the analysed area
+ * Collapsible summary with totals and a bar chart of hectares per species
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import type { AreaStatistics, TreeSpecies } from '@/types/map';
+import { getSpeciesColor } from '@/lib/mapUtils';
+
+export interface AreaStatisticsPanelProps {
+  /** Statistics of the analysed area, null when there is no area */
+  statistics: AreaStatistics | null;
+  /** Label of the analysed area (drawn AOI or administrative unit) */
+  areaLabel?: string;
+  /** Species catalogue used for the bar colours */
+  treeSpecies: TreeSpecies[];
+  /** Whether the statistics only cover the part of the area inside the view */
+  isVisiblePortion?: boolean;
+  /** Whether forest data is still loading */
+  isLoading?: boolean;
+}
+
+const numberFormat = new Intl.NumberFormat(undefined, { maximumFractionDigits: 1 });
+
+/**
+ * Panel with the species breakdown, biomass and carbon totals of an area
+ */
+export function AreaStatisticsPanel({
+  statistics,
+  areaLabel,
+  treeSpecies,
+  isVisiblePortion = false,
+  isLoading = false,
+}: AreaStatisticsPanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const maxSpeciesArea = Math.max(0, ...(statistics?.species.map(item => item.area) ?? []));
+
+  return (
+    <div className="space-y-3">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className="w-full flex items-center justify-between text-sm font-medium text-gray-700"
+      >
+        <span>Area statistics</span>
+        <span className="text-gray-400">{isOpen ? '▾' : '▸'}</span>
+      </button>
+
+      {isOpen && (
+        !statistics ? (
+          <div className="text-xs text-gray-500">
+            Draw an area of interest or select a region, department or commune.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {areaLabel && <div className="text-xs text-gray-500">{areaLabel}</div>}
+            {isVisiblePortion && (
+              <div className="text-xs text-amber-700 bg-amber-50 rounded p-2">
+                Visible portion only. Zoom out to include the whole area.
+              </div>
+            )}
+
+            {/* Totals */}
+            <dl className="grid grid-cols-2 gap-2 text-xs">
+              <div className="bg-gray-50 rounded p-2">
+                <dt className="text-gray-500">Forest area</dt>
+                <dd className="font-medium text-gray-900">{numberFormat.format(statistics.totalArea)} ha</dd>
+              </div>
+              <div className="bg-gray-50 rounded p-2">
+                <dt className="text-gray-500">Mean density</dt>
+                <dd className="font-medium text-gray-900">{(statistics.meanDensity * 100).toFixed(0)} %</dd>
+              </div>
+              <div className="bg-gray-50 rounded p-2">
+                <dt className="text-gray-500">Biomass</dt>
+                <dd className="font-medium text-gray-900">{numberFormat.format(statistics.totalBiomass)} t</dd>
+              </div>
+              <div className="bg-gray-50 rounded p-2">
+                <dt className="text-gray-500">Carbon stock</dt>
+                <dd className="font-medium text-gray-900">{numberFormat.format(statistics.totalCarbonStock)} tC</dd>
+              </div>
+            </dl>
+
+            {/* Hectares per species */}
+            {statistics.species.length > 0 ? (
+              <div className="space-y-2">
+                {statistics.species.map(item => (
+                  <div key={item.speciesId} className="space-y-1">
+                    <div className="flex justify-between text-xs">
+                      <span className="text-black truncate">{item.name}</span>
+                      <span className="text-gray-600 shrink-0 ml-2">{numberFormat.format(item.area)} ha</span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded">
+                      <div
+                        className="h-2 rounded"
+                        style={{
+                          width: `${maxSpeciesArea > 0 ? (item.area / maxSpeciesArea) * 100 : 0}%`,
+                          backgroundColor: getSpeciesColor(item.speciesId, treeSpecies),
+                        }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-xs text-gray-500">
+                {isLoading ? 'Loading forest data...' : 'No forest parcels in this area'}
+              </div>
+            )}
+
+            <div className="text-xs text-gray-400">
+              {statistics.featureCount} parcels, partially overlapping ones clipped to the area
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+export default AreaStatisticsPanel;
@@ -0,0 +1,103 @@
+/**
+ * @fileoverview BasemapSwitcher - Map control to change the basemap style
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { BASEMAP_OPTIONS, getBasemapThumbnailUrl } from '@/lib/mapUtils';
+import type { BasemapStyle } from '@/types/map';
+
+interface BasemapSwitcherProps {
+  /** Current basemap */
+  value: BasemapStyle;
+  /** Mapbox token used for the thumbnails */
+  accessToken: string;
+  onChange: (style: BasemapStyle) => void;
+}
+
+/**
+ * Collapsed thumbnail of the current basemap that expands into every option
+ */
+export function BasemapSwitcher({ value, accessToken, onChange }: BasemapSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const current = BASEMAP_OPTIONS.find(option => option.value === value) ?? BASEMAP_OPTIONS[0];
+
+  const handleSelect = (style: BasemapStyle) => {
+    onChange(style);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="flex items-end space-x-2">
+      <BasemapThumbnail
+        label={current.label}
+        src={getBasemapThumbnailUrl(current.value, accessToken)}
+        isActive={isOpen}
+        onClick={() => setIsOpen(open => !open)}
+        ariaLabel={`Basemap: ${current.label}. Change basemap`}
+        ariaExpanded={isOpen}
+      />
+
+      {isOpen && (
+        <div className="flex space-x-2 bg-white rounded-lg shadow-sm border border-gray-200 p-2" role="listbox" aria-label="Basemaps">
+          {BASEMAP_OPTIONS.map(option => (
+            <BasemapThumbnail
+              key={option.value}
+              label={option.label}
+              src={getBasemapThumbnailUrl(option.value, accessToken)}
+              isActive={option.value === value}
+              onClick={() => handleSelect(option.value)}
+              role="option"
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Thumbnail button of a basemap
+ */
+interface BasemapThumbnailProps {
+  label: string;
+  src: string;
+  isActive: boolean;
+  onClick: () => void;
+  ariaLabel?: string;
+  ariaExpanded?: boolean;
+  role?: string;
+}
+
+function BasemapThumbnail({ label, src, isActive, onClick, ariaLabel, ariaExpanded, role }: BasemapThumbnailProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="flex flex-col items-center space-y-1 group"
+      aria-label={ariaLabel}
+      aria-expanded={ariaExpanded}
+      aria-selected={role === 'option' ? isActive : undefined}
+      role={role}
+      title={label}
+    >
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img
+        src={src}
+        alt=""
+        width={64}
+        height={64}
+        loading="lazy"
+        className={cn(
+          'w-14 h-14 rounded-md border-2 shadow-sm bg-gray-100 object-cover',
+          isActive ? 'border-blue-600' : 'border-white group-hover:border-blue-300'
+        )}
+      />
+      <span className="text-[10px] font-medium text-gray-700 bg-white/90 rounded px-1">{label}</span>
+    </button>
+  );
+}
+
+export default BasemapSwitcher;
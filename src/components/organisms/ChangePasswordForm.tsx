@@ -0,0 +1,106 @@
+/**
+ * @fileoverview ChangePasswordForm Component - Organism to change the password of the current user
+ */
+
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/atoms';
+import { InputField } from '@/components/molecules';
+import { useFormWithValidation } from '@/hooks/useFormValidation';
+import { useUserSettings } from '@/hooks/useUserSettings';
+import { changePasswordSchema, type ChangePasswordFormData } from '@/lib/schemas';
+
+/**
+ * ChangePasswordForm component that asks for the current password before setting a new one
+ */
+export function ChangePasswordForm() {
+  const { changePasswordMutation } = useUserSettings();
+
+  const {
+    register,
+    handleSubmit,
+    getFieldError,
+    reset,
+    formState: { isSubmitting, errors }
+  } = useFormWithValidation<ChangePasswordFormData>({
+    schema: changePasswordSchema,
+    defaultValues: {
+      currentPassword: '',
+      newPassword: '',
+      confirmPassword: ''
+    }
+  });
+
+  /**
+   * Handler para el envío del formulario
+   */
+  const onSubmit = async (data: ChangePasswordFormData) => {
+    try {
+      await changePasswordMutation.mutateAsync({
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword
+      });
+      reset();
+    } catch {
+      // The error is shown from the mutation state
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4" noValidate>
+      <InputField
+        label="Current password"
+        type="password"
+        placeholder="••••••••"
+        required
+        autoComplete="current-password"
+        error={getFieldError('currentPassword')}
+        className='text-black'
+        {...register('currentPassword')}
+      />
+
+      <InputField
+        label="New password"
+        type="password"
+        placeholder="••••••••"
+        required
+        autoComplete="new-password"
+        error={getFieldError('newPassword')}
+        helperText="Minimum 6 characters, include uppercase, lowercase, and number"
+        className='text-black'
+        {...register('newPassword')}
+      />
+
+      <InputField
+        label="Confirm new password"
+        type="password"
+        placeholder="••••••••"
+        required
+        autoComplete="new-password"
+        error={getFieldError('confirmPassword')}
+        className='text-black'
+        {...register('confirmPassword')}
+      />
+
+      {changePasswordMutation.error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg" role="alert">
+          {changePasswordMutation.error.message}
+        </div>
+      )}
+      {changePasswordMutation.isSuccess && (
+        <p className="text-sm text-green-700" role="status">Password changed</p>
+      )}
+
+      <Button
+        type="submit"
+        isLoading={isSubmitting || changePasswordMutation.isPending}
+        disabled={Object.keys(errors).length > 0}
+      >
+        Change password
+      </Button>
+    </form>
+  );
+}
+
+export default ChangePasswordForm;
@@ -7,19 +7,59 @@
 
 import React from 'react';
 import { cn } from '@/lib/utils';
+import { useDashboardStats } from '@/hooks/useDashboardStats';
+import type { StatDelta, StatsPeriod } from '@/types/stats';
 
 interface StatCardProps {
   title: string;
-  value: string | number;
-  change: string;
-  changeType: 'positive' | 'negative' | 'neutral';
+  value?: string | number;
+  /** Variación respecto al periodo anterior */
+  delta?: StatDelta;
+  /** Formato de la variación absoluta */
+  formatDelta?: (value: number) => string;
+  /** Texto del periodo de comparación */
+  comparisonLabel?: string;
   icon: React.ReactNode;
+  isLoading?: boolean;
+  error?: string | null;
+  onRetry?: () => void;
+  /** Sin datos todavía */
+  isEmpty?: boolean;
+  /** Valor mostrado sin datos ('0' para los contadores) */
+  emptyValue?: string;
+  emptyLabel?: string;
 }
 
+/**
+ * Texto de la variación: porcentaje si hay base de comparación, absoluta si no
+ */
+function formatChange(delta: StatDelta, formatDelta: (value: number) => string): string {
+  const sign = delta.value > 0 ? '+' : delta.value < 0 ? '-' : '';
+  if (delta.percent !== null) {
+    return `${sign}${Math.abs(delta.percent).toFixed(1)}%`;
+  }
+  return `${sign}${formatDelta(Math.abs(delta.value))}`;
+}
+
+const numberFormat = new Intl.NumberFormat(undefined, { maximumFractionDigits: 1 });
+
 /**
  * Componente para mostrar una métrica individual
  */
-function StatCard({ title, value, change, changeType, icon }: StatCardProps) {
+function StatCard({
+  title,
+  value,
+  delta,
+  formatDelta = (v) => numberFormat.format(v),
+  comparisonLabel,
+  icon,
+  isLoading = false,
+  error,
+  onRetry,
+  isEmpty = false,
+  emptyValue = '0',
+  emptyLabel = 'No activity yet',
+}: StatCardProps) {
   const changeColors = {
     positive: 'text-green-600 bg-green-50',
     negative: 'text-red-600 bg-red-50',
@@ -31,46 +71,93 @@ function StatCard({ title, value, change, changeType, icon }: StatCardProps) {
       <div className="flex items-center justify-between">
         <div>
           <p className="text-sm font-medium text-gray-600">{title}</p>
-          <p className="text-2xl font-bold text-gray-900 mt-1">{value}</p>
+          {isLoading ? (
+            <div className="h-8 w-20 mt-1 bg-gray-100 rounded animate-pulse" />
+          ) : error ? (
+            <p className="text-2xl font-bold text-gray-300 mt-1">—</p>
+          ) : (
+            <p className="text-2xl font-bold text-gray-900 mt-1">{isEmpty ? emptyValue : value}</p>
+          )}
         </div>
         <div className="p-3 bg-blue-50 rounded-lg">
           <div className="text-blue-600">{icon}</div>
         </div>
       </div>
       
-      <div className="mt-4">
-        <span className={cn(
-          "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium",
-          changeColors[changeType]
-        )}>
-          {changeType === 'positive' && (
-            <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
-              <path fillRule="evenodd" d="M5.293 7.707a1 1 0 010-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 01-1.414 1.414L11 5.414V17a1 1 0 11-2 0V5.414L6.707 7.707a1 1 0 01-1.414 0z" clipRule="evenodd" />
-            </svg>
-          )}
-          {changeType === 'negative' && (
-            <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
-              <path fillRule="evenodd" d="M14.707 12.293a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 111.414-1.414L9 14.586V3a1 1 0 012 0v11.586l2.293-2.293a1 1 0 011.414 0z" clipRule="evenodd" />
-            </svg>
-          )}
-          {change}
-        </span>
-        <span className="ml-1 text-xs text-gray-500">vs mes anterior</span>
+      <div className="mt-4 min-h-[1.25rem]">
+        {isLoading ? (
+          <div className="h-4 w-32 bg-gray-100 rounded animate-pulse" />
+        ) : error ? (
+          <div className="flex items-center text-xs text-red-600">
+            <span className="truncate">{error}</span>
+            {onRetry && (
+              <button type="button" onClick={onRetry} className="ml-2 underline hover:text-red-700">
+                Retry
+              </button>
+            )}
+          </div>
+        ) : isEmpty ? (
+          <span className="text-xs text-gray-500">{emptyLabel}</span>
+        ) : delta ? (
+          <>
+            <span className={cn(
+              "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium",
+              changeColors[delta.trend]
+            )}>
+              {delta.trend === 'positive' && (
+                <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M5.293 7.707a1 1 0 010-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 01-1.414 1.414L11 5.414V17a1 1 0 11-2 0V5.414L6.707 7.707a1 1 0 01-1.414 0z" clipRule="evenodd" />
+                </svg>
+              )}
+              {delta.trend === 'negative' && (
+                <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M14.707 12.293a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 111.414-1.414L9 14.586V3a1 1 0 012 0v11.586l2.293-2.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                </svg>
+              )}
+              {formatChange(delta, formatDelta)}
+            </span>
+            {comparisonLabel && <span className="ml-1 text-xs text-gray-500">{comparisonLabel}</span>}
+          </>
+        ) : null}
       </div>
     </div>
   );
 }
 
+/**
+ * Texto del periodo de comparación
+ */
+const COMPARISON_LABELS: Record<StatsPeriod, string> = {
+  '7d': 'vs previous 7 days',
+  '30d': 'vs previous 30 days',
+  '90d': 'vs previous 90 days',
+};
+
+interface DashboardStatsProps {
+  /** Periodo de las métricas */
+  period?: StatsPeriod;
+}
+
 /**
  * Componente que muestra las estadísticas principales del dashboard
  */
-export function DashboardStats() {
-  const stats = [
+export function DashboardStats({ period = '30d' }: DashboardStatsProps) {
+  const { stats, deltas, isLoading, error, refetch } = useDashboardStats(period);
+
+  const cardState = {
+    isLoading,
+    error: error?.message ?? null,
+    onRetry: () => refetch(),
+    comparisonLabel: COMPARISON_LABELS[period],
+  };
+
+  const cards: StatCardProps[] = [
     {
-      title: 'Total de Puntos',
-      value: '2,543',
-      change: '+12%',
-      changeType: 'positive' as const,
+      title: 'Saved maps',
+      value: stats?.current.savedMaps,
+      delta: deltas?.savedMaps,
+      isEmpty: !stats?.current.savedMaps && !stats?.previous.savedMaps,
+      emptyLabel: 'No saved maps yet',
       icon: (
         <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
@@ -79,10 +166,11 @@ export function DashboardStats() {
       )
     },
     {
-      title: 'Análisis Activos',
-      value: '18',
-      change: '+3',
-      changeType: 'positive' as const,
+      title: 'AOIs analysed',
+      value: stats?.current.analysedAois,
+      delta: deltas?.analysedAois,
+      isEmpty: !stats?.current.analysedAois && !stats?.previous.analysedAois,
+      emptyLabel: 'No areas analysed yet',
       icon: (
         <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
@@ -90,10 +178,13 @@ export function DashboardStats() {
       )
     },
     {
-      title: 'Precisión',
-      value: '94.2%',
-      change: '+2.1%',
-      changeType: 'positive' as const,
+      title: 'Hectares inspected',
+      value: stats ? `${numberFormat.format(stats.current.inspectedHectares)} ha` : undefined,
+      delta: deltas?.inspectedHectares,
+      formatDelta: (v) => `${numberFormat.format(v)} ha`,
+      isEmpty: !stats?.current.inspectedHectares && !stats?.previous.inspectedHectares,
+      emptyValue: '0 ha',
+      emptyLabel: 'No hectares inspected yet',
       icon: (
         <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -101,10 +192,11 @@ export function DashboardStats() {
       )
     },
     {
-      title: 'Tiempo de Proceso',
-      value: '1.2s',
-      change: '-0.3s',
-      changeType: 'positive' as const,
+      title: 'Last activity',
+      value: stats?.lastActivityAt ? new Date(stats.lastActivityAt).toLocaleDateString() : undefined,
+      isEmpty: !stats?.lastActivityAt,
+      emptyValue: 'Never',
+      emptyLabel: 'No activity yet',
       icon: (
         <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -115,8 +207,8 @@ export function DashboardStats() {
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-      {stats.map((stat, index) => (
-        <StatCard key={index} {...stat} />
+      {cards.map((card) => (
+        <StatCard key={card.title} {...cardState} {...card} />
       ))}
     </div>
   );
@@ -0,0 +1,217 @@
+/**
+ * @fileoverview DataImportPanel - Drop GeoJSON, KML, GPX or zipped Shapefile files to add them as map layers
+ */
+
+'use client';
+
+import React, { useRef, useState } from 'react';
+import type { ImportReport, UserLayer } from '@/types/map';
+import { Button } from '@/components/atoms';
+import { IMPORT_FILE_ACCEPT } from '@/lib/featureImport';
+import { cn } from '@/lib/utils';
+
+/**
+ * Per-feature errors listed for each file before collapsing the rest
+ */
+const MAX_LISTED_ERRORS = 20;
+
+export interface DataImportPanelProps {
+  /** Layers imported so far */
+  layers: UserLayer[];
+  /** Result of the last import */
+  reports: ImportReport[];
+  isImporting?: boolean;
+  isLoading?: boolean;
+  error?: Error | null;
+  /** Open the drop zone when the panel mounts (e.g. coming from a quick action) */
+  defaultOpen?: boolean;
+  onImport: (files: File[], options: { persist: boolean }) => void;
+  onRemove: (id: string) => void;
+  onClearReports: () => void;
+}
+
+/**
+ * Summary of the import of a file, with the features that were dropped
+ */
+function ImportReportItem({ report }: { report: ImportReport }) {
+  const hasProblems = !!report.error || report.errors.length > 0;
+
+  return (
+    <li className={cn('rounded-md p-2 text-xs', hasProblems ? 'bg-amber-50' : 'bg-green-50')}>
+      <p className="font-medium text-gray-800 truncate" title={report.fileName}>
+        {report.layerName && report.layerName !== report.fileName ? `${report.fileName} → ${report.layerName}` : report.fileName}
+      </p>
+      {report.layerName !== undefined && (
+        <p className="text-gray-600">
+          {report.featureCount} {report.featureCount === 1 ? 'feature' : 'features'} imported
+          {report.errors.length > 0 && `, ${report.errors.length} skipped`}
+        </p>
+      )}
+      {report.error && <p className="text-red-600">{report.error}</p>}
+      {report.errors.length > 0 && (
+        <details className="mt-1">
+          <summary className="cursor-pointer text-amber-700">Skipped features</summary>
+          <ul className="mt-1 space-y-0.5 text-gray-600">
+            {report.errors.slice(0, MAX_LISTED_ERRORS).map(error => (
+              <li key={error.index}>#{error.index}: {error.message}</li>
+            ))}
+            {report.errors.length > MAX_LISTED_ERRORS && (
+              <li>…and {report.errors.length - MAX_LISTED_ERRORS} more</li>
+            )}
+          </ul>
+        </details>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Drop zone, import results and list of the imported layers
+ */
+export function DataImportPanel({
+  layers,
+  reports,
+  isImporting = false,
+  isLoading = false,
+  error,
+  defaultOpen = false,
+  onImport,
+  onRemove,
+  onClearReports,
+}: DataImportPanelProps) {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [persist, setPersist] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length && !isImporting) onImport(files, { persist });
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragOver(false);
+    handleFiles(event.dataTransfer.files);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-700">Imported data</h3>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => setIsOpen(open => !open)}
+          aria-expanded={isOpen}
+        >
+          {isOpen ? 'Close' : '⬆️ Import'}
+        </Button>
+      </div>
+
+      {isOpen && (
+        <div className="space-y-2">
+          <div
+            role="button"
+            tabIndex={0}
+            onClick={() => inputRef.current?.click()}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                inputRef.current?.click();
+              }
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragOver(true);
+            }}
+            onDragLeave={() => setIsDragOver(false)}
+            onDrop={handleDrop}
+            className={cn(
+              'rounded-lg border-2 border-dashed p-4 text-center text-xs cursor-pointer transition-colors',
+              isDragOver ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-gray-400',
+              isImporting && 'opacity-60 cursor-wait'
+            )}
+          >
+            {isImporting ? (
+              <span className="text-gray-600">Reading files...</span>
+            ) : (
+              <>
+                <p className="text-gray-700">Drop files here or click to browse</p>
+                <p className="text-gray-500 mt-1">GeoJSON, KML/KMZ, GPX or Shapefile (.zip)</p>
+              </>
+            )}
+            <input
+              ref={inputRef}
+              type="file"
+              multiple
+              accept={IMPORT_FILE_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                handleFiles(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          <label className="flex items-center space-x-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={persist}
+              onChange={(e) => setPersist(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Save to my account</span>
+          </label>
+
+          {reports.length > 0 && (
+            <div className="space-y-1">
+              <ul className="space-y-1">
+                {reports.map((report, index) => (
+                  <ImportReportItem key={`${report.fileName}-${index}`} report={report} />
+                ))}
+              </ul>
+              <button
+                type="button"
+                onClick={onClearReports}
+                className="text-xs text-gray-500 hover:text-gray-700"
+              >
+                Dismiss
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error.message}</p>}
+
+      {isLoading ? (
+        <p className="text-xs text-gray-500">Loading imported layers...</p>
+      ) : layers.length > 0 && (
+        <ul className="space-y-1">
+          {layers.map(layer => (
+            <li key={layer.id} className="flex items-center justify-between text-sm">
+              <div className="flex items-center space-x-2 min-w-0">
+                <div className="w-3 h-3 rounded shrink-0" style={{ backgroundColor: layer.color }} />
+                <span className="text-black truncate" title={layer.name}>{layer.name}</span>
+                <span className="text-xs text-gray-500 shrink-0">
+                  {layer.persisted ? 'saved' : 'this session'}
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => onRemove(layer.id)}
+                className="text-xs text-gray-400 hover:text-red-600 shrink-0"
+                aria-label={`Remove ${layer.name}`}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default DataImportPanel;
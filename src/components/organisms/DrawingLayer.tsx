@@ -0,0 +1,117 @@
+/**
+ * @fileoverview DrawingLayer - Renders the area of interest and the shape being drawn
+ * Vertex markers are draggable while the AOI is being edited
+ */
+
+'use client';
+
+import React from 'react';
+import { Layer, Marker, Source } from 'react-map-gl/mapbox';
+import type { LayerProps } from '@/types/map';
+
+interface DrawingLayerProps {
+  /** Current area of interest */
+  aoi?: GeoJSON.Polygon;
+  /** Shape being drawn */
+  draftGeometry: GeoJSON.Geometry | null;
+  /** Vertices placed while drawing */
+  draftVertices: GeoJSON.Position[];
+  /** Whether the AOI vertices can be dragged */
+  isEditing: boolean;
+  /** Callback when an AOI vertex is dragged */
+  onVertexMove: (index: number, position: GeoJSON.Position) => void;
+}
+
+const AOI_COLOR = '#7C3AED';
+
+/**
+ * Component that renders the AOI, the drawing preview and the vertex handles
+ */
+export function DrawingLayer({
+  aoi,
+  draftGeometry,
+  draftVertices,
+  isEditing,
+  onVertexMove,
+}: DrawingLayerProps) {
+  const aoiFillLayer: LayerProps = {
+    id: 'aoi-fill',
+    type: 'fill',
+    paint: {
+      'fill-color': AOI_COLOR,
+      'fill-opacity': 0.08
+    }
+  };
+
+  const aoiLineLayer: LayerProps = {
+    id: 'aoi-line',
+    type: 'line',
+    paint: {
+      'line-color': AOI_COLOR,
+      'line-width': 2
+    }
+  };
+
+  const draftLineLayer: LayerProps = {
+    id: 'aoi-draft-line',
+    type: 'line',
+    paint: {
+      'line-color': AOI_COLOR,
+      'line-width': 2,
+      'line-dasharray': [2, 2]
+    }
+  };
+
+  const draftFillLayer: LayerProps = {
+    id: 'aoi-draft-fill',
+    type: 'fill',
+    paint: {
+      'fill-color': AOI_COLOR,
+      'fill-opacity': 0.15
+    },
+    filter: ['==', ['geometry-type'], 'Polygon']
+  };
+
+  // The closing vertex duplicates the first one, so it gets no handle
+  const aoiVertices = aoi ? aoi.coordinates[0].slice(0, -1) : [];
+
+  return (
+    <>
+      {aoi && (
+        <Source id="aoi-source" type="geojson" data={aoi}>
+          <Layer {...aoiFillLayer} />
+          <Layer {...aoiLineLayer} />
+        </Source>
+      )}
+
+      {draftGeometry && (
+        <Source id="aoi-draft-source" type="geojson" data={draftGeometry}>
+          <Layer {...draftFillLayer} />
+          <Layer {...draftLineLayer} />
+        </Source>
+      )}
+
+      {/* Vertices placed while drawing */}
+      {draftVertices.map(([lng, lat], index) => (
+        <Marker key={`draft-${index}`} longitude={lng} latitude={lat}>
+          <div className="w-2.5 h-2.5 rounded-full bg-white border-2 border-violet-600" />
+        </Marker>
+      ))}
+
+      {/* Draggable AOI vertices */}
+      {isEditing && aoiVertices.map(([lng, lat], index) => (
+        <Marker
+          key={`vertex-${index}`}
+          longitude={lng}
+          latitude={lat}
+          draggable
+          onDragEnd={(event) => onVertexMove(index, [event.lngLat.lng, event.lngLat.lat])}
+        >
+          <div className="w-3 h-3 rounded-full bg-violet-600 border-2 border-white shadow cursor-move" />
+        </Marker>
+      ))}
+    </>
+  );
+}
+
+export default DrawingLayer;
@@ -0,0 +1,108 @@
+/**
+ * @fileoverview DrawingToolbar - Tools to draw, edit and delete the area of interest
+ */
+
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/atoms';
+import { cn } from '@/lib/utils';
+import type { DrawMode } from '@/types/map';
+
+interface DrawingToolbarProps {
+  /** Active drawing tool */
+  drawMode: DrawMode | null;
+  /** Whether an AOI exists */
+  hasAoi: boolean;
+  /** Whether the AOI vertices are being edited */
+  isEditing: boolean;
+  /** Number of vertices placed in the current drawing */
+  vertexCount: number;
+  onStartDrawing: (mode: DrawMode) => void;
+  onCancelDrawing: () => void;
+  onFinishPolygon: () => void;
+  onToggleEditing: () => void;
+  onDelete: () => void;
+}
+
+const TOOLS: Array<{ mode: DrawMode; label: string; icon: string }> = [
+  { mode: 'polygon', label: 'Polygon', icon: '⬠' },
+  { mode: 'rectangle', label: 'Rectangle', icon: '▭' },
+  { mode: 'circle', label: 'Circle', icon: '◯' },
+];
+
+const HINTS: Record<DrawMode, string> = {
+  polygon: 'Click to add vertices, double-click or Enter to finish',
+  rectangle: 'Click two opposite corners',
+  circle: 'Click the centre, then a point on the edge',
+};
+
+/**
+ * Toolbar for the area of interest drawing tools
+ */
+export function DrawingToolbar({
+  drawMode,
+  hasAoi,
+  isEditing,
+  vertexCount,
+  onStartDrawing,
+  onCancelDrawing,
+  onFinishPolygon,
+  onToggleEditing,
+  onDelete,
+}: DrawingToolbarProps) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-2 space-y-2">
+      <div className="text-xs font-medium text-gray-700">Area of interest</div>
+
+      <div className="flex space-x-1">
+        {TOOLS.map(tool => (
+          <button
+            key={tool.mode}
+            type="button"
+            title={tool.label}
+            aria-pressed={drawMode === tool.mode}
+            onClick={() => (drawMode === tool.mode ? onCancelDrawing() : onStartDrawing(tool.mode))}
+            className={cn(
+              'w-8 h-8 rounded border text-sm transition-colors',
+              drawMode === tool.mode
+                ? 'bg-violet-600 text-white border-violet-600'
+                : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+            )}
+          >
+            {tool.icon}
+          </button>
+        ))}
+      </div>
+
+      {drawMode && (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500 max-w-[10rem]">{HINTS[drawMode]}</p>
+          <div className="flex space-x-1">
+            {drawMode === 'polygon' && (
+              <Button size="sm" variant="primary" onClick={onFinishPolygon} disabled={vertexCount < 3}>
+                Finish
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={onCancelDrawing}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {hasAoi && !drawMode && (
+        <div className="flex space-x-1">
+          <Button size="sm" variant={isEditing ? 'primary' : 'outline'} onClick={onToggleEditing}>
+            {isEditing ? 'Done' : 'Edit'}
+          </Button>
+          <Button size="sm" variant="outline" onClick={onDelete}>
+            Delete
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DrawingToolbar;
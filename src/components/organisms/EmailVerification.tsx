@@ -0,0 +1,167 @@
+/**
+ * @fileoverview EmailVerification Component - Organism that confirms an email from its verification link
+ */
+
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { Button } from '@/components/atoms';
+import { InputField } from '@/components/molecules';
+import { useFormWithValidation } from '@/hooks/useFormValidation';
+import { useResendVerificationMutation, useVerifyEmailMutation } from '@/hooks/useAuthMutations';
+import { useAuth } from '@/context/AuthContext';
+import {
+  forgotPasswordSchema,
+  verifyEmailSchema,
+  type ForgotPasswordFormData,
+} from '@/lib/schemas';
+
+export interface EmailVerificationProps {
+  /** Token from the verification link */
+  token: string | null;
+  /** Callback to continue once the email is verified */
+  onContinue?: () => void;
+}
+
+/**
+ * EmailVerification component that verifies the token once and reports the result
+ * Offers to send a new link when the token is invalid or expired
+ */
+export function EmailVerification({ token, onContinue }: EmailVerificationProps) {
+  const verifyEmailMutation = useVerifyEmailMutation();
+  const { updateUser } = useAuth();
+  const tokenValidation = verifyEmailSchema.safeParse({ token: token ?? '' });
+
+  // Single-use token: verify only once, even if the effect runs twice in development
+  const hasRequestedRef = useRef(false);
+  const { mutate: verify } = verifyEmailMutation;
+  const validToken = tokenValidation.success ? tokenValidation.data.token : null;
+  useEffect(() => {
+    if (!validToken || hasRequestedRef.current) return;
+    hasRequestedRef.current = true;
+    verify({ token: validToken }, {
+      onSuccess: ({ user }) => {
+        if (user) updateUser(user);
+      },
+    });
+  }, [validToken, verify, updateUser]);
+
+  if (!tokenValidation.success) {
+    return (
+      <div className="space-y-6">
+        <StatusMessage type="error" message={tokenValidation.error.issues[0]?.message ?? 'Invalid link'} />
+        <ResendVerificationForm />
+      </div>
+    );
+  }
+
+  if (verifyEmailMutation.isSuccess) {
+    return (
+      <div className="space-y-6">
+        <StatusMessage type="success" message="Your email has been verified." />
+        <Button variant="primary" size="lg" className="w-full" onClick={onContinue}>
+          Continue
+        </Button>
+      </div>
+    );
+  }
+
+  if (verifyEmailMutation.isError) {
+    return (
+      <div className="space-y-6">
+        <StatusMessage type="error" message={verifyEmailMutation.error.message} />
+        <ResendVerificationForm />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center py-6" role="status" aria-live="polite">
+      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      <p className="mt-4 text-sm text-gray-600">Verifying your email...</p>
+    </div>
+  );
+}
+
+/**
+ * Mensaje de resultado de la verificación
+ */
+interface StatusMessageProps {
+  type: 'success' | 'error';
+  message: string;
+}
+
+function StatusMessage({ type, message }: StatusMessageProps) {
+  return (
+    <div
+      className={
+        type === 'success'
+          ? 'p-4 text-sm text-green-700 bg-green-50 border border-green-200 rounded-lg'
+          : 'p-4 text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg'
+      }
+      role={type === 'success' ? 'status' : 'alert'}
+      aria-live="polite"
+    >
+      {message}
+    </div>
+  );
+}
+
+/**
+ * Formulario para pedir un nuevo enlace de verificación
+ */
+function ResendVerificationForm() {
+  const resendMutation = useResendVerificationMutation();
+
+  const {
+    register,
+    handleSubmit,
+    getFieldError,
+    formState: { isSubmitting, errors }
+  } = useFormWithValidation<ForgotPasswordFormData>({
+    schema: forgotPasswordSchema,
+    defaultValues: {
+      email: ''
+    }
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      await resendMutation.mutateAsync(data);
+    } catch {
+      // The error is shown from the mutation state
+    }
+  };
+
+  if (resendMutation.isSuccess) {
+    return <StatusMessage type="success" message="We have sent you a new verification link." />;
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4" noValidate>
+      <InputField
+        label="Email"
+        type="email"
+        placeholder="your@email.com"
+        required
+        error={getFieldError('email') || resendMutation.error?.message}
+        helperText="We will send you a new verification link"
+        className='text-black'
+        {...register('email')}
+      />
+
+      <Button
+        type="submit"
+        variant="outline"
+        size="lg"
+        className="w-full"
+        isLoading={isSubmitting || resendMutation.isPending}
+        disabled={Object.keys(errors).length > 0}
+      >
+        Send a new link
+      </Button>
+    </form>
+  );
+}
+
+export default EmailVerification;
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview ExportMenu - Download the visible layers as GeoJSON, KML, Shapefile, GeoPackage or CSV
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/atoms';
+import { EXPORT_FORMATS } from '@/lib/featureExport';
+import type { ExportClipArea, ExportFormat } from '@/types/map';
+
+export interface ExportMenuProps {
+  /** Areas the export can be limited to */
+  clipAreas: ExportClipArea[];
+  /** Name of the selected administrative unit */
+  boundaryLabel?: string;
+  layerCount: number;
+  featureCount: number;
+  error?: string | null;
+  /** Notice about the last export, e.g. features written without their geometry */
+  warning?: string | null;
+  onExport: (format: ExportFormat, clipArea: ExportClipArea) => void;
+}
+
+const CLIP_AREA_LABELS: Record<ExportClipArea, string> = {
+  none: 'All loaded features',
+  aoi: 'Inside the area of interest',
+  boundary: 'Inside the administrative unit',
+};
+
+/**
+ * Format and area picker for exporting the visible layers
+ */
+export function ExportMenu({
+  clipAreas,
+  boundaryLabel,
+  layerCount,
+  featureCount,
+  error,
+  warning,
+  onExport,
+}: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('geojson');
+  const [clipArea, setClipArea] = useState<ExportClipArea>('none');
+
+  // The chosen area may disappear (AOI deleted, unit cleared)
+  const activeClipArea = clipAreas.includes(clipArea) ? clipArea : 'none';
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onExport(format, activeClipArea);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button
+        variant="secondary"
+        size="sm"
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className="w-full"
+      >
+        ⬇️ Export data
+      </Button>
+
+      {isOpen && (
+        <form onSubmit={handleSubmit} className="space-y-2 rounded-lg border border-gray-200 p-3">
+          <div>
+            <label htmlFor="export-format" className="block text-xs font-medium text-gray-600 mb-1">
+              Format
+            </label>
+            <select
+              id="export-format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="w-full p-2 border border-gray-300 rounded-md text-sm text-black"
+            >
+              {EXPORT_FORMATS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="export-clip-area" className="block text-xs font-medium text-gray-600 mb-1">
+              Features
+            </label>
+            <select
+              id="export-clip-area"
+              value={activeClipArea}
+              onChange={(e) => setClipArea(e.target.value as ExportClipArea)}
+              className="w-full p-2 border border-gray-300 rounded-md text-sm text-black"
+            >
+              {clipAreas.map(area => (
+                <option key={area} value={area}>
+                  {area === 'boundary' && boundaryLabel ? `Inside ${boundaryLabel}` : CLIP_AREA_LABELS[area]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {layerCount} visible {layerCount === 1 ? 'layer' : 'layers'}, {featureCount} features
+          </p>
+
+          {error && (
+            <p className="text-xs text-red-600" role="alert">{error}</p>
+          )}
+
+          {warning && (
+            <p className="text-xs text-amber-700" role="status">{warning}</p>
+          )}
+
+          <Button type="submit" size="sm" disabled={featureCount === 0} className="w-full">
+            Download
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default ExportMenu;
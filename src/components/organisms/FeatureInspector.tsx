@@ -0,0 +1,143 @@
+/**
+ * @fileoverview FeatureInspector - Side panel with the attributes of a pinned feature
+ * Shows BD Forêt® and cadastre attributes and steps through overlapping features
+ */
+
+'use client';
+
+import React from 'react';
+import type { GeoJSONFeature } from 'mapbox-gl';
+import { Button } from '@/components/atoms';
+import { useCan } from '@/hooks/useCan';
+import { CADASTRE_OWNER_PROPERTIES } from '@/lib/mapUtils';
+
+export interface FeatureInspectorProps {
+  /** Feature being inspected */
+  feature: GeoJSONFeature;
+  /** Position of the feature among the overlapping ones */
+  index: number;
+  /** Number of overlapping features under the click */
+  total: number;
+  /** Show the previous overlapping feature */
+  onPrevious: () => void;
+  /** Show the next overlapping feature */
+  onNext: () => void;
+  /** Close the inspector */
+  onClose: () => void;
+}
+
+type PropertyValue = string | number | boolean | null | undefined;
+
+/**
+ * Labels and formatters for known attributes, in display order
+ * Any other property is listed afterwards with its raw value
+ */
+const PROPERTY_FORMATS: Array<{
+  key: string;
+  label: string;
+  format?: (value: PropertyValue) => string;
+}> = [
+  { key: 'commonName', label: 'Common name' },
+  { key: 'species', label: 'Species' },
+  { key: 'density', label: 'Density', format: value => `${(Number(value) * 100).toFixed(0)} %` },
+  { key: 'age', label: 'Age class', format: value => `${value} years` },
+  { key: 'biomass', label: 'Biomass', format: value => `${value} t/ha` },
+  { key: 'carbonStock', label: 'Carbon stock', format: value => `${value} tC/ha` },
+  { key: 'parcelNumber', label: 'Parcel' },
+  { key: 'section', label: 'Section' },
+  { key: 'number', label: 'Number' },
+  { key: 'communeCode', label: 'Commune (INSEE)' },
+  { key: 'contenance', label: 'Contenance', format: value => `${Number(value).toLocaleString()} m²` },
+  { key: 'landUse', label: 'Land use' },
+  { key: 'owner', label: 'Owner' },
+  { key: 'area', label: 'Area', format: value => `${value} ha` },
+];
+
+/**
+ * Build the list of rows to display for a feature
+ * @param hiddenKeys - Attributes the current user is not allowed to see
+ */
+function getPropertyRows(
+  properties: Record<string, PropertyValue>,
+  hiddenKeys: string[] = []
+): Array<{ label: string; value: string }> {
+  const knownKeys = new Set(PROPERTY_FORMATS.map(({ key }) => key));
+  const isHidden = (key: string) => hiddenKeys.includes(key);
+
+  const knownRows = PROPERTY_FORMATS
+    .filter(({ key }) => !isHidden(key))
+    .filter(({ key }) => properties[key] !== undefined && properties[key] !== null && properties[key] !== '')
+    .map(({ key, label, format }) => ({
+      label,
+      value: format ? format(properties[key]) : String(properties[key]),
+    }));
+
+  const otherRows = Object.entries(properties)
+    .filter(([key, value]) => !knownKeys.has(key) && !isHidden(key) && value !== undefined && value !== null)
+    .map(([key, value]) => ({ label: key, value: String(value) }));
+
+  return [...knownRows, ...otherRows];
+}
+
+/**
+ * Panel that pins a clicked feature and lists all its attributes
+ */
+export function FeatureInspector({
+  feature,
+  index,
+  total,
+  onPrevious,
+  onNext,
+  onClose,
+}: FeatureInspectorProps) {
+  const canViewOwner = useCan('cadastre:owner:view');
+  const properties = (feature.properties ?? {}) as Record<string, PropertyValue>;
+  const isCadastre = properties.type === 'cadastre';
+  const title = isCadastre
+    ? `Parcel ${properties.parcelNumber ?? ''}`
+    : String(properties.commonName ?? properties.species ?? 'Forest parcel');
+
+  return (
+    <aside className="absolute top-4 right-4 bottom-16 z-40 w-72 flex flex-col bg-white rounded-lg shadow-lg border border-gray-200">
+      {/* Header */}
+      <div className="flex items-start justify-between p-3 border-b border-gray-200">
+        <div className="min-w-0">
+          <p className="text-xs uppercase tracking-wide text-gray-500">
+            {isCadastre ? 'Cadastre' : 'BD Forêt®'}
+          </p>
+          <h3 className="font-medium text-sm text-gray-900 truncate">{title}</h3>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close inspector">
+          ✕
+        </Button>
+      </div>
+
+      {/* Attributes */}
+      <dl className="flex-1 overflow-y-auto p-3 space-y-2 text-xs">
+        {getPropertyRows(properties, canViewOwner ? [] : CADASTRE_OWNER_PROPERTIES).map(row => (
+          <div key={row.label} className="flex justify-between gap-3">
+            <dt className="text-gray-500">{row.label}</dt>
+            <dd className="text-gray-900 text-right break-all">{row.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {/* Overlapping features */}
+      {total > 1 && (
+        <div className="flex items-center justify-between p-2 border-t border-gray-200">
+          <Button variant="ghost" size="sm" onClick={onPrevious} aria-label="Previous feature">
+            ‹
+          </Button>
+          <span className="text-xs text-gray-600">
+            {index + 1} / {total} features here
+          </span>
+          <Button variant="ghost" size="sm" onClick={onNext} aria-label="Next feature">
+            ›
+          </Button>
+        </div>
+      )}
+    </aside>
+  );
+}
+
+export default FeatureInspector;
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview ForgotPasswordForm Component - Organism to request a password reset link
+ */
+
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/atoms';
+import { InputField } from '@/components/molecules';
+import { useFormWithValidation } from '@/hooks/useFormValidation';
+import { useForgotPasswordMutation } from '@/hooks/useAuthMutations';
+import { forgotPasswordSchema, type ForgotPasswordFormData } from '@/lib/schemas';
+
+export interface ForgotPasswordFormProps {
+  /** Callback once the reset link has been requested */
+  onSuccess?: (email: string) => void;
+}
+
+/**
+ * ForgotPasswordForm component that sends a reset link to the user's email
+ */
+export function ForgotPasswordForm({ onSuccess }: ForgotPasswordFormProps) {
+  const forgotPasswordMutation = useForgotPasswordMutation();
+
+  const {
+    register,
+    handleSubmit,
+    getFieldError,
+    formState: { isSubmitting, errors }
+  } = useFormWithValidation<ForgotPasswordFormData>({
+    schema: forgotPasswordSchema,
+    defaultValues: {
+      email: ''
+    }
+  });
+
+  /**
+   * Handler para el envío del formulario
+   */
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      await forgotPasswordMutation.mutateAsync(data);
+      onSuccess?.(data.email);
+    } catch {
+      // The error is shown from the mutation state
+    }
+  };
+
+  // Same message whether or not the email is registered
+  if (forgotPasswordMutation.isSuccess) {
+    return (
+      <div
+        className="p-4 text-sm text-green-700 bg-green-50 border border-green-200 rounded-lg"
+        role="status"
+      >
+        If an account exists for that email, you will receive a link to reset your password in a few minutes.
+      </div>
+    );
+  }
+
+  return (
+    <form 
+      onSubmit={handleSubmit(onSubmit)} 
+      className="space-y-6"
+      noValidate
+    >
+      <InputField
+        label="Email"
+        type="email"
+        placeholder="your@email.com"
+        required
+        error={getFieldError('email')}
+        helperText="We will send you a link to choose a new password"
+        className='text-black'
+        icon={
+          <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 12a4 4 0 10-8 0 4 4 0 008 0zm0 0v1.5a2.5 2.5 0 005 0V12a9 9 0 10-9 9m4.5-1.206a8.959 8.959 0 01-4.5 1.207" />
+          </svg>
+        }
+        {...register('email')}
+      />
+
+      {forgotPasswordMutation.error && (
+        <div 
+          className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg"
+          role="alert"
+          aria-live="polite"
+        >
+          {forgotPasswordMutation.error.message}
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        variant="primary"
+        size="lg"
+        className="w-full"
+        isLoading={isSubmitting || forgotPasswordMutation.isPending}
+        disabled={Object.keys(errors).length > 0}
+      >
+        {isSubmitting || forgotPasswordMutation.isPending ? 'Sending...' : 'Send reset link'}
+      </Button>
+    </form>
+  );
+}
+
+export default ForgotPasswordForm;
@@ -0,0 +1,200 @@
+/**
+ * @fileoverview LayerManagerPanel - Order, opacity, solo/mute and extent of the map layers
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import type { LayerManagerState } from '@/types/map';
+import { cn } from '@/lib/utils';
+
+/**
+ * Layer listed in the manager
+ */
+export interface LayerManagerItem {
+  id: string;
+  name: string;
+  /** Swatch colour */
+  color: string;
+  /** Whether the layer is drawn (after solo and mute) */
+  visible: boolean;
+  opacity: number;
+  /** Whether the layer has features to zoom to */
+  hasExtent?: boolean;
+}
+
+export interface LayerManagerPanelProps {
+  /** Layers, top-most first */
+  layers: LayerManagerItem[];
+  layerState: LayerManagerState;
+  isLoading?: boolean;
+  onToggleMute: (id: string) => void;
+  onToggleSolo: (id: string) => void;
+  onOpacityChange: (id: string, opacity: number) => void;
+  /** Move a layer to a position of the layer order */
+  onMove: (id: string, toIndex: number) => void;
+  onZoomTo: (id: string) => void;
+}
+
+/**
+ * Layer list reordered by dragging the handle or with the move buttons;
+ * the top row is drawn on top of the map
+ */
+export function LayerManagerPanel({
+  layers,
+  layerState,
+  isLoading = false,
+  onToggleMute,
+  onToggleSolo,
+  onOpacityChange,
+  onMove,
+  onZoomTo,
+}: LayerManagerPanelProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const handleDrop = (event: React.DragEvent, targetId: string) => {
+    event.preventDefault();
+    if (draggedId && draggedId !== targetId) {
+      onMove(draggedId, layerState.order.indexOf(targetId));
+    }
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  // Move next to a neighbouring row, which may not be adjacent in the full layer order
+  const moveNextTo = (id: string, neighbourId: string) => {
+    onMove(id, layerState.order.indexOf(neighbourId));
+  };
+
+  if (isLoading && layers.length === 0) {
+    return <div className="text-xs text-gray-500">Loading layers...</div>;
+  }
+
+  if (layers.length === 0) {
+    return <div className="text-xs text-gray-500">No layers available</div>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {layers.map((layer, index) => {
+        const entry = layerState.layers[layer.id];
+        const isSolo = layerState.soloIds.includes(layer.id);
+        const isMuted = entry?.muted ?? false;
+
+        return (
+          <li
+            key={layer.id}
+            onDragOver={(event) => {
+              if (!draggedId) return;
+              event.preventDefault();
+              event.dataTransfer.dropEffect = 'move';
+              setDropTargetId(layer.id);
+            }}
+            onDragLeave={() => setDropTargetId(current => (current === layer.id ? null : current))}
+            onDrop={(event) => handleDrop(event, layer.id)}
+            className={cn(
+              'rounded border px-2 py-1.5 bg-white',
+              dropTargetId === layer.id && draggedId !== layer.id ? 'border-blue-400' : 'border-gray-200',
+              draggedId === layer.id && 'opacity-50'
+            )}
+          >
+            <div className="flex items-center space-x-2">
+              {/* Only the handle is draggable, so the slider and the name keep their mouse behaviour */}
+              <span
+                draggable
+                onDragStart={(event) => {
+                  event.dataTransfer.effectAllowed = 'move';
+                  event.dataTransfer.setData('text/plain', layer.id);
+                  const row = event.currentTarget.closest('li');
+                  if (row) event.dataTransfer.setDragImage(row, 0, 0);
+                  setDraggedId(layer.id);
+                }}
+                onDragEnd={handleDragEnd}
+                className="cursor-move select-none text-gray-400"
+                title="Drag to reorder"
+                aria-hidden="true"
+              >
+                ⋮⋮
+              </span>
+              <input
+                type="checkbox"
+                checked={!isMuted}
+                onChange={() => onToggleMute(layer.id)}
+                aria-label={`Show ${layer.name}`}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <div className="w-3 h-3 rounded border flex-shrink-0" style={{ backgroundColor: layer.color }} />
+              <span className={cn('flex-1 truncate text-sm', layer.visible ? 'text-black' : 'text-gray-400')}>
+                {layer.name}
+              </span>
+              <button
+                type="button"
+                onClick={() => moveNextTo(layer.id, layers[index - 1].id)}
+                disabled={index === 0}
+                title="Move up"
+                aria-label={`Move ${layer.name} up`}
+                className="rounded px-1 text-xs border border-gray-200 text-gray-500 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => moveNextTo(layer.id, layers[index + 1].id)}
+                disabled={index === layers.length - 1}
+                title="Move down"
+                aria-label={`Move ${layer.name} down`}
+                className="rounded px-1 text-xs border border-gray-200 text-gray-500 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => onToggleSolo(layer.id)}
+                aria-pressed={isSolo}
+                title="Solo: show only this layer"
+                className={cn(
+                  'rounded px-1.5 text-xs font-medium border',
+                  isSolo ? 'bg-yellow-100 border-yellow-400 text-yellow-800' : 'border-gray-200 text-gray-500 hover:bg-gray-50'
+                )}
+              >
+                S
+              </button>
+              <button
+                type="button"
+                onClick={() => onZoomTo(layer.id)}
+                disabled={!layer.hasExtent}
+                title="Zoom to layer extent"
+                aria-label={`Zoom to ${layer.name}`}
+                className="rounded px-1.5 text-xs border border-gray-200 text-gray-500 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                ⤢
+              </button>
+            </div>
+
+            <div className="mt-1 flex items-center space-x-2 pl-6">
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={5}
+                value={Math.round(layer.opacity * 100)}
+                onChange={(e) => onOpacityChange(layer.id, Number(e.target.value) / 100)}
+                aria-label={`Opacity of ${layer.name}`}
+                className="flex-1 h-1 accent-blue-600"
+              />
+              <span className="w-8 text-right text-xs text-gray-500">{Math.round(layer.opacity * 100)}%</span>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export default LayerManagerPanel;
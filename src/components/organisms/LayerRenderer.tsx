@@ -7,26 +7,48 @@
 
 import React, { useEffect, useMemo } from 'react';
 import { Layer, Source } from 'react-map-gl/mapbox';
+import type { ExpressionSpecification } from 'mapbox-gl';
 import type { 
   LayerProps, 
   ForestLayer, 
   CadastreLayer, 
-  MapFilters 
+  UserLayer,
+  ForestDataSource,
+  MapFilters,
+  TreeSpecies
 } from '@/types/map';
 import { 
+  CADASTRE_OWNER_PROPERTIES,
+  createSpeciesColorExpression,
   generateLayerColor, 
+  getSpeciesColor,
+  omitFeatureProperties,
   shouldShowCadastreAtZoom 
 } from '@/lib/mapUtils';
+import { useCan } from '@/hooks/useCan';
+
+/**
+ * Outline colour of the feature pinned in the inspector
+ */
+const SELECTED_OUTLINE_COLOR = '#F59E0B';
 
 interface LayerRendererProps {
   /** Forest layers to render */
   forestLayers: ForestLayer[];
   /** Cadastre layers to render */
   cadastreLayers?: CadastreLayer[];
+  /** Layers imported by the user */
+  userLayers?: UserLayer[];
+  /** Species catalogue used to colour forest features */
+  treeSpecies?: TreeSpecies[];
+  /** Outline of the selected administrative unit */
+  boundary?: GeoJSON.FeatureCollection;
   /** Active map filters */
   filters: MapFilters;
   /** Current zoom level */
   currentZoom: number;
+  /** Ids of the forest, cadastre and user layers, top-most first */
+  layerOrder?: string[];
   /** Callback when a layer is clicked */
   onLayerClick?: (layerId: string, feature: any) => void;
 }
@@ -38,10 +60,16 @@ interface LayerRendererProps {
 export function LayerRenderer({
   forestLayers,
   cadastreLayers = [],
+  userLayers = [],
+  treeSpecies = [],
+  boundary,
   filters,
   currentZoom,
+  layerOrder = [],
   onLayerClick
 }: LayerRendererProps) {
+  const canViewCadastre = useCan('cadastre:view');
+  const canViewOwner = useCan('cadastre:owner:view');
   
   /**
    * Filter forest layers according to active filters
@@ -56,12 +84,36 @@ export function LayerRenderer({
     });
   }, [forestLayers, filters.treeSpecies]);
 
+  /**
+   * Colour expression keyed on species id, shared by the GeoJSON forest layers
+   * Includes the species of loaded layers even if missing from the catalogue
+   */
+  const speciesColor = useMemo(() => {
+    const speciesIds = [
+      ...treeSpecies.map(species => species.id),
+      ...forestLayers.flatMap(layer => (layer.species ? [layer.species] : [])),
+    ];
+    return createSpeciesColorExpression(speciesIds, treeSpecies);
+  }, [treeSpecies, forestLayers]);
+
   /**
    * Determine whether to show cadastre layers based on zoom and filters
    */
   const shouldShowCadastre = useMemo(() => {
-    return filters.showCadastre && shouldShowCadastreAtZoom(currentZoom);
-  }, [filters.showCadastre, currentZoom]);
+    return canViewCadastre && filters.showCadastre && shouldShowCadastreAtZoom(currentZoom);
+  }, [canViewCadastre, filters.showCadastre, currentZoom]);
+
+  /**
+   * Remove owner data from the map sources of users not allowed to see it,
+   * so it cannot be read back from the rendered features either
+   */
+  const visibleCadastreLayers = useMemo(() => {
+    if (canViewOwner) return cadastreLayers;
+    return cadastreLayers.map(layer => ({
+      ...layer,
+      geoData: omitFeatureProperties(layer.geoData, CADASTRE_OWNER_PROPERTIES),
+    }));
+  }, [cadastreLayers, canViewOwner]);
 
   /**
    * Configure event listeners for layer clicks
@@ -73,56 +125,189 @@ export function LayerRenderer({
     // This effect is for additional configurations if necessary
   }, [onLayerClick]);
 
+  /**
+   * Slot below which each managed layer is drawn, following the layer order
+   */
+  const getBeforeId = (layerId: string): string | undefined => {
+    const rank = layerOrder.indexOf(layerId);
+    return rank === -1 ? undefined : getLayerSlotId(rank);
+  };
+
+  /**
+   * Vector tiles do not carry the speciesId of the GeoJSON features,
+   * so each vector layer (one per species) gets the flat colour of its species
+   */
+  const getForestColor = (layer: ForestLayer): string | ExpressionSpecification =>
+    layer.source?.type === 'vector' ? getSpeciesColor(layer.species, treeSpecies) : speciesColor;
+
   return (
     <>
+      {/* Anchors that fix the drawing order of the managed layers */}
+      <LayerSlots count={layerOrder.length} />
+
       {/* Render forest layers */}
-      {filteredForestLayers.map((layer, index) => (
+      {filteredForestLayers.map((layer) => (
         <ForestLayerRenderer
           key={layer.id}
           layer={layer}
-          index={index}
+          color={getForestColor(layer)}
+          beforeId={getBeforeId(layer.id)}
           onClick={onLayerClick}
         />
       ))}
 
       {/* Render cadastre layers if applicable */}
-      {shouldShowCadastre && cadastreLayers.map((layer, index) => (
+      {shouldShowCadastre && visibleCadastreLayers.map((layer, index) => (
         <CadastreLayerRenderer
           key={layer.id}
           layer={layer}
           index={index}
+          beforeId={getBeforeId(layer.id)}
           onClick={onLayerClick}
         />
       ))}
+
+      {/* Render layers imported by the user */}
+      {userLayers.map((layer) => (
+        <UserLayerRenderer
+          key={layer.id}
+          layer={layer}
+          beforeId={getBeforeId(layer.id)}
+        />
+      ))}
+
+      {/* Render administrative boundary outline */}
+      {boundary && <BoundaryLayerRenderer boundary={boundary} />}
     </>
   );
 }
 
+/**
+ * Id of the anchor layer at a position of the layer order
+ */
+function getLayerSlotId(rank: number): string {
+  return `layer-slot-${rank}`;
+}
+
+/**
+ * Hidden, data-less layers stacked top to bottom, one per position of the layer order
+ * Each managed layer is inserted below the slot of its position (Mapbox `beforeId`),
+ * so reordering only moves layers between slots that always exist
+ */
+function LayerSlots({ count }: { count: number }) {
+  return (
+    <>
+      {Array.from({ length: count }, (_, rank) => (
+        <Layer
+          key={rank}
+          id={getLayerSlotId(rank)}
+          type="background"
+          layout={{ visibility: 'none' }}
+          beforeId={rank > 0 ? getLayerSlotId(rank - 1) : undefined}
+        />
+      ))}
+    </>
+  );
+}
+
+/**
+ * Specific renderer for the selected administrative boundary
+ */
+interface BoundaryLayerRendererProps {
+  boundary: GeoJSON.FeatureCollection;
+}
+
+function BoundaryLayerRenderer({ boundary }: BoundaryLayerRendererProps) {
+  // Outline only, so the data inside stays readable
+  const boundaryLineLayer: LayerProps = {
+    id: 'admin-boundary-line',
+    type: 'line',
+    paint: {
+      'line-color': '#1D4ED8',
+      'line-width': 2.5,
+      'line-dasharray': [3, 1.5]
+    }
+  };
+
+  return (
+    <Source
+      id="admin-boundary-source"
+      type="geojson"
+      data={boundary}
+    >
+      <Layer {...boundaryLineLayer} />
+    </Source>
+  );
+}
+
+/**
+ * Build the Source props for a tiled data source
+ * Template URLs ({z}/{x}/{y}) are passed as tiles, anything else as a TileJSON url
+ */
+function getTileSourceProps(source: ForestDataSource): { url: string } | { tiles: string[] } {
+  return source.url.includes('{z}') ? { tiles: [source.url] } : { url: source.url };
+}
+
 /**
  * Specific renderer for forest layers
  */
 interface ForestLayerRendererProps {
   layer: ForestLayer;
-  index: number;
+  color: string | ExpressionSpecification;
+  /** Map layer the forest layers are inserted below */
+  beforeId?: string;
   onClick?: (layerId: string, feature: any) => void;
 }
 
-function ForestLayerRenderer({ layer, index, onClick }: ForestLayerRendererProps) {
-  const layerColor = generateLayerColor('forest', index);
+function ForestLayerRenderer({ layer, color, beforeId, onClick }: ForestLayerRendererProps) {
+  const visibility = layer.visible ? 'visible' : 'none';
+
+  // Raster sources are pre-styled tiles: only opacity and visibility apply
+  if (layer.source?.type === 'raster') {
+    const forestRasterLayer: LayerProps = {
+      id: `forest-raster-${layer.id}`,
+      type: 'raster',
+      paint: {
+        'raster-opacity': layer.opacity
+      },
+      layout: {
+        visibility
+      },
+      beforeId
+    };
+
+    return (
+      <Source
+        id={`forest-source-${layer.id}`}
+        type="raster"
+        tileSize={256}
+        {...getTileSourceProps(layer.source)}
+      >
+        <Layer {...forestRasterLayer} />
+      </Source>
+    );
+  }
+
+  // Vector tiles read from their source-layer; GeoJSON features are filtered by type
+  const vectorSource = layer.source?.type === 'vector' ? layer.source : undefined;
+  const featureSelector = vectorSource
+    ? { 'source-layer': vectorSource.layer || layer.id }
+    : { filter: ['==', ['get', 'type'], 'forest'] };
   
   // Style configuration for forest polygons
   const forestFillLayer: LayerProps = {
     id: `forest-fill-${layer.id}`,
     type: 'fill',
     paint: {
-      'fill-color': layerColor,
-      'fill-opacity': 0.6,
-      'fill-outline-color': layerColor
+      'fill-color': color,
+      'fill-opacity': layer.opacity,
+      'fill-outline-color': color
     },
-    filter: ['==', ['get', 'type'], 'forest'],
+    ...featureSelector,
     layout: {
-      visibility: layer.visible ? 'visible' : 'none'
-    }
+      visibility
+    },
+    beforeId
   };
 
   // Style configuration for forest borders
@@ -130,14 +315,16 @@ function ForestLayerRenderer({ layer, index, onClick }: ForestLayerRendererProps
     id: `forest-line-${layer.id}`,
     type: 'line',
     paint: {
-      'line-color': layerColor,
+      'line-color': color,
       'line-width': 2,
-      'line-opacity': 0.8
+      // Borders stay slightly stronger than the fill
+      'line-opacity': Math.min(1, layer.opacity + 0.2)
     },
-    filter: ['==', ['get', 'type'], 'forest'],
+    ...featureSelector,
     layout: {
-      visibility: layer.visible ? 'visible' : 'none'
-    }
+      visibility
+    },
+    beforeId
   };
 
   // Configuration for species symbols/labels
@@ -149,26 +336,64 @@ function ForestLayerRenderer({ layer, index, onClick }: ForestLayerRendererProps
       'text-font': ['Open Sans Regular', 'Arial Unicode MS Regular'],
       'text-size': 12,
       'text-anchor': 'center',
-      visibility: layer.visible ? 'visible' : 'none'
+      visibility
     },
     paint: {
       'text-color': '#2d3748',
       'text-halo-color': '#ffffff',
       'text-halo-width': 1
     },
-    filter: ['==', ['get', 'type'], 'forest'],
-    minzoom: 10
+    ...featureSelector,
+    minzoom: 10,
+    beforeId
   };
 
+  // Outline of the feature pinned in the inspector
+  const forestHighlightLayer: LayerProps = {
+    id: `forest-highlight-${layer.id}`,
+    type: 'line',
+    paint: {
+      'line-color': SELECTED_OUTLINE_COLOR,
+      'line-width': 3,
+      'line-opacity': ['case', ['boolean', ['feature-state', 'selected'], false], 1, 0]
+    },
+    ...featureSelector,
+    layout: {
+      visibility
+    },
+    beforeId
+  };
+
+  const layers = (
+    <>
+      <Layer {...forestFillLayer} />
+      <Layer {...forestLineLayer} />
+      <Layer {...forestHighlightLayer} />
+      {layer.species && <Layer {...speciesSymbolLayer} />}
+    </>
+  );
+
+  if (vectorSource) {
+    return (
+      <Source
+        id={`forest-source-${layer.id}`}
+        type="vector"
+        promoteId="id"
+        {...getTileSourceProps(vectorSource)}
+      >
+        {layers}
+      </Source>
+    );
+  }
+
   return (
     <Source
       id={`forest-source-${layer.id}`}
       type="geojson"
       data={layer.geoData}
+      promoteId="id"
     >
-      <Layer {...forestFillLayer} />
-      <Layer {...forestLineLayer} />
-      {layer.species && <Layer {...speciesSymbolLayer} />}
+      {layers}
     </Source>
   );
 }
@@ -179,10 +404,12 @@ function ForestLayerRenderer({ layer, index, onClick }: ForestLayerRendererProps
 interface CadastreLayerRendererProps {
   layer: CadastreLayer;
   index: number;
+  /** Map layer the cadastre layers are inserted below */
+  beforeId?: string;
   onClick?: (layerId: string, feature: any) => void;
 }
 
-function CadastreLayerRenderer({ layer, index, onClick }: CadastreLayerRendererProps) {
+function CadastreLayerRenderer({ layer, index, beforeId, onClick }: CadastreLayerRendererProps) {
   const layerColor = generateLayerColor('parcel', index);
   
   // Style configuration for cadastral parcels
@@ -191,12 +418,13 @@ function CadastreLayerRenderer({ layer, index, onClick }: CadastreLayerRendererP
     type: 'fill',
     paint: {
       'fill-color': layerColor,
-      'fill-opacity': 0.3
+      'fill-opacity': layer.opacity
     },
     filter: ['==', ['get', 'type'], 'cadastre'],
     layout: {
       visibility: layer.visible ? 'visible' : 'none'
-    }
+    },
+    beforeId
   };
 
   // Style configuration for parcel borders
@@ -206,13 +434,30 @@ function CadastreLayerRenderer({ layer, index, onClick }: CadastreLayerRendererP
     paint: {
       'line-color': layerColor,
       'line-width': 1,
-      'line-opacity': 0.7,
+      'line-opacity': Math.min(1, layer.opacity + 0.3),
       'line-dasharray': [2, 2]
     },
     filter: ['==', ['get', 'type'], 'cadastre'],
     layout: {
       visibility: layer.visible ? 'visible' : 'none'
-    }
+    },
+    beforeId
+  };
+
+  // Outline of the parcel pinned in the inspector
+  const cadastreHighlightLayer: LayerProps = {
+    id: `cadastre-highlight-${layer.id}`,
+    type: 'line',
+    paint: {
+      'line-color': SELECTED_OUTLINE_COLOR,
+      'line-width': 3,
+      'line-opacity': ['case', ['boolean', ['feature-state', 'selected'], false], 1, 0]
+    },
+    filter: ['==', ['get', 'type'], 'cadastre'],
+    layout: {
+      visibility: layer.visible ? 'visible' : 'none'
+    },
+    beforeId
   };
 
   // Labels with parcel numbers
@@ -232,7 +477,8 @@ function CadastreLayerRenderer({ layer, index, onClick }: CadastreLayerRendererP
       'text-halo-width': 1
     },
     filter: ['==', ['get', 'type'], 'cadastre'],
-    minzoom: 15
+    minzoom: 15,
+    beforeId
   };
 
   return (
@@ -240,12 +486,108 @@ function CadastreLayerRenderer({ layer, index, onClick }: CadastreLayerRendererP
       id={`cadastre-source-${layer.id}`}
       type="geojson"
       data={layer.geoData}
+      promoteId="id"
     >
       <Layer {...cadastreFillLayer} />
       <Layer {...cadastreLineLayer} />
+      <Layer {...cadastreHighlightLayer} />
       <Layer {...parcelLabelLayer} />
     </Source>
   );
 }
 
+/**
+ * Specific renderer for layers imported by the user
+ * Imported files mix geometry types, so polygons, lines and points get their own layer
+ */
+interface UserLayerRendererProps {
+  layer: UserLayer;
+  /** Map layer the user layers are inserted below */
+  beforeId?: string;
+}
+
+function UserLayerRenderer({ layer, beforeId }: UserLayerRendererProps) {
+  const visibility = layer.visible ? 'visible' : 'none';
+  const isPolygon: ExpressionSpecification = ['match', ['geometry-type'], ['Polygon', 'MultiPolygon'], true, false];
+  const isPoint: ExpressionSpecification = ['match', ['geometry-type'], ['Point', 'MultiPoint'], true, false];
+
+  const userFillLayer: LayerProps = {
+    id: `user-fill-${layer.id}`,
+    type: 'fill',
+    paint: {
+      'fill-color': layer.color,
+      'fill-opacity': layer.opacity
+    },
+    filter: isPolygon,
+    layout: {
+      visibility
+    },
+    beforeId
+  };
+
+  // Lines, and the outline of polygons
+  const userLineLayer: LayerProps = {
+    id: `user-line-${layer.id}`,
+    type: 'line',
+    paint: {
+      'line-color': layer.color,
+      'line-width': 2,
+      'line-opacity': Math.min(1, layer.opacity + 0.3)
+    },
+    filter: ['!', isPoint],
+    layout: {
+      visibility
+    },
+    beforeId
+  };
+
+  const userCircleLayer: LayerProps = {
+    id: `user-circle-${layer.id}`,
+    type: 'circle',
+    paint: {
+      'circle-color': layer.color,
+      'circle-radius': 5,
+      'circle-opacity': Math.min(1, layer.opacity + 0.3),
+      'circle-stroke-color': '#ffffff',
+      'circle-stroke-width': 1
+    },
+    filter: isPoint,
+    layout: {
+      visibility
+    },
+    beforeId
+  };
+
+  // Outline of the feature pinned in the inspector
+  const userHighlightLayer: LayerProps = {
+    id: `user-highlight-${layer.id}`,
+    type: 'line',
+    paint: {
+      'line-color': SELECTED_OUTLINE_COLOR,
+      'line-width': 3,
+      'line-opacity': ['case', ['boolean', ['feature-state', 'selected'], false], 1, 0]
+    },
+    filter: ['!', isPoint],
+    layout: {
+      visibility
+    },
+    beforeId
+  };
+
+  // Imported features seldom have unique ids, so the source numbers them
+  return (
+    <Source
+      id={`user-source-${layer.id}`}
+      type="geojson"
+      data={layer.geoData}
+      generateId
+    >
+      <Layer {...userFillLayer} />
+      <Layer {...userLineLayer} />
+      <Layer {...userCircleLayer} />
+      <Layer {...userHighlightLayer} />
+    </Source>
+  );
+}
+
 export default LayerRenderer;
\ No newline at end of file
@@ -6,11 +6,13 @@
 'use client';
 
 import React from 'react';
+import Link from 'next/link';
 import { Button } from '@/components/atoms';
 import { InputField, CheckboxField } from '@/components/molecules';
 import { useFormWithValidation } from '@/hooks/useFormValidation';
 import { useAuth } from '@/context/AuthContext';
 import { loginSchema, type LoginFormData } from '@/lib/schemas';
+import { FORGOT_PASSWORD_ROUTE } from '@/lib/routes';
 
 export interface LoginFormProps {
   /** Callback on successful login completion */
@@ -104,12 +106,12 @@ export function LoginForm({ onSuccess, onError }: LoginFormProps) {
           {...register('rememberMe')}
         />
 
-        <button
-          type="button"
+        <Link
+          href={FORGOT_PASSWORD_ROUTE}
           className="text-sm text-blue-600 hover:text-blue-500 font-medium transition-colors"
         >
           Forgot your password?
-        </button>
+        </Link>
       </div>
 
       {authError && (
@@ -0,0 +1,152 @@
+/**
+ * @fileoverview MapSearchBox - Search communes, addresses, cadastral parcels and coordinates
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { cn } from '@/lib/utils';
+import type { GeocodingResult, GeocodingResultType } from '@/types/map';
+
+export interface MapSearchBoxProps {
+  query: string;
+  results: GeocodingResult[];
+  isSearching?: boolean;
+  error?: Error | null;
+  onQueryChange: (query: string) => void;
+  onSelect: (result: GeocodingResult) => void;
+  onClear: () => void;
+  className?: string;
+}
+
+const RESULT_ICONS: Record<GeocodingResultType, string> = {
+  commune: '🏘️',
+  address: '📍',
+  parcel: '▦',
+  coordinates: '🧭',
+};
+
+/**
+ * Search box with a keyboard-navigable list of results
+ */
+export function MapSearchBox({
+  query,
+  results,
+  isSearching = false,
+  error,
+  onQueryChange,
+  onSelect,
+  onClear,
+  className,
+}: MapSearchBoxProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const showList = isOpen && query.trim().length > 0 && (results.length > 0 || !!error);
+
+  const selectResult = (result: GeocodingResult) => {
+    onQueryChange(result.label);
+    setIsOpen(false);
+    onSelect(result);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(index => Math.min(index + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex(index => Math.max(index - 1, 0));
+        break;
+      case 'Enter': {
+        const result = results[activeIndex] ?? results[0];
+        if (result) {
+          event.preventDefault();
+          selectResult(result);
+        }
+        break;
+      }
+      case 'Escape':
+        setIsOpen(false);
+        break;
+    }
+  };
+
+  return (
+    <div className={cn('relative w-80', className)}>
+      <div className="flex items-center bg-white rounded-lg shadow-sm border border-gray-200 px-2">
+        <span className="text-sm" aria-hidden="true">🔍</span>
+        <input
+          type="search"
+          role="combobox"
+          aria-label="Search places"
+          aria-expanded={showList}
+          aria-controls="map-search-results"
+          aria-activedescendant={showList && results[activeIndex] ? `map-search-${activeIndex}` : undefined}
+          value={query}
+          onChange={(e) => {
+            onQueryChange(e.target.value);
+            setActiveIndex(0);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder="Commune, address, parcel (AB0123) or coordinates"
+          className="flex-1 min-w-0 px-2 py-2 text-sm text-black bg-transparent outline-none"
+        />
+        {isSearching && (
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600" aria-label="Searching" />
+        )}
+        {query && !isSearching && (
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-xs text-gray-400 hover:text-gray-600"
+            aria-label="Clear search"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+
+      {showList && (
+        <ul
+          id="map-search-results"
+          role="listbox"
+          className="absolute mt-1 w-full bg-white rounded-lg shadow-lg border border-gray-200 py-1 max-h-72 overflow-y-auto"
+        >
+          {error ? (
+            <li className="px-3 py-2 text-xs text-red-600" role="alert">{error.message}</li>
+          ) : results.map((result, index) => (
+            <li
+              key={result.id}
+              id={`map-search-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep the focus in the input so the list is not closed before the click
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => selectResult(result)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                'flex items-start space-x-2 px-3 py-2 cursor-pointer',
+                index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+              )}
+            >
+              <span className="text-sm" aria-hidden="true">{RESULT_ICONS[result.type]}</span>
+              <div className="min-w-0">
+                <p className="text-sm text-gray-900 truncate">{result.label}</p>
+                {result.context && <p className="text-xs text-gray-500 truncate">{result.context}</p>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default MapSearchBox;
@@ -6,15 +6,23 @@
 
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import Map, { NavigationControl, GeolocateControl, FullscreenControl, ScaleControl } from 'react-map-gl/mapbox';
 import { MapViewerProps } from '@/types/map';
 import { cn, formatDate } from '@/lib/utils';
-import { formatCoordinates } from '@/lib/mapUtils';
+import { BASEMAP_STYLE_URLS, formatCoordinates } from '@/lib/mapUtils';
 import { Button } from '@/components/atoms';
 import { LayerRenderer } from './LayerRenderer';
+import { FeatureInspector } from './FeatureInspector';
+import { DrawingToolbar } from './DrawingToolbar';
+import { DrawingLayer } from './DrawingLayer';
+import { MeasureToolbar } from './MeasureToolbar';
+import { MeasureLayer } from './MeasureLayer';
+import { BasemapSwitcher } from './BasemapSwitcher';
+import { PrintComposer } from './PrintComposer';
 import { useMapViewer } from '@/hooks/useMapViewer';
 import { useLoadingState } from '@/hooks/useLoadingState';
+import { useMapPrint } from '@/hooks/useMapPrint';
 
 /**
  * Main map visualization component
@@ -25,6 +33,10 @@ export function MapViewer({
   filters = { showCadastre: false, treeSpecies: [] },
   layers = [],
   cadastreLayers = [],
+  userLayers = [],
+  treeSpecies = [],
+  layerOrder,
+  boundary,
   height = 'h-full',
   width = 'w-full',
   className,
@@ -33,6 +45,11 @@ export function MapViewer({
   onClick,
   onLoad,
   onError,
+  onAoiChange,
+  basemap,
+  onBasemapChange,
+  enablePrint = false,
+  printTitle,
 }: MapViewerProps) {
 
   // Toda la lógica del estado ahora está en el hook
@@ -42,11 +59,16 @@ export function MapViewer({
     isMapLoaded,
     cursor,
     hoveredFeature,
+    styleVersion,
+    inspector,
+    drawing,
+    measure,
     handleViewStateChange,
     handleMapClick,
     handleMapLoad,
     handleMapError,
     handleMouseMove,
+    handleDoubleClick,
     handleResetView,
     handleGeolocate,
   } = useMapViewer({
@@ -56,8 +78,12 @@ export function MapViewer({
     onClick,
     onLoad,
     onError,
+    onAoiChange,
   });
 
+  const printer = useMapPrint({ config, filters, layers, cadastreLayers, userLayers, treeSpecies });
+  const [isPrintOpen, setIsPrintOpen] = useState(false);
+
   // Smart loading system - avoids flickering
   const { shouldShowLoading } = useLoadingState(isLoading, {
     delayMs: 300,      // Wait 300ms before showing
@@ -110,11 +136,77 @@ export function MapViewer({
               📍 Mi ubicación
             </Button>
           )}
+
+          {enablePrint && (
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setIsPrintOpen(open => !open)}
+              aria-expanded={isPrintOpen}
+              className="bg-white border border-gray-200 shadow-sm"
+            >
+              🖨️ Print
+            </Button>
+          )}
         </div>
+
+        {/* Compositor de impresión */}
+        {enablePrint && isPrintOpen && (
+          <PrintComposer
+            defaultTitle={printTitle}
+            legendCount={printer.legend.length}
+            isPrinting={printer.isPrinting}
+            error={printer.error}
+            onPrint={(options) => printer.print(mapRef.current?.getMap(), options)}
+            onClose={() => setIsPrintOpen(false)}
+          />
+        )}
+
+        {/* Herramientas de área de interés */}
+        {onAoiChange && (
+          <DrawingToolbar
+            drawMode={drawing.drawMode}
+            hasAoi={!!filters.aoi}
+            isEditing={drawing.isEditingAoi}
+            vertexCount={drawing.draftVertices.length}
+            onStartDrawing={drawing.startDrawing}
+            onCancelDrawing={drawing.cancelDrawing}
+            onFinishPolygon={drawing.finishPolygon}
+            onToggleEditing={drawing.toggleEditingAoi}
+            onDelete={drawing.deleteAoi}
+          />
+        )}
+
+        {/* Herramientas de medición */}
+        <MeasureToolbar
+          measureMode={measure.measureMode}
+          isFinished={measure.isFinished}
+          vertexCount={measure.vertices.length}
+          result={measure.result}
+          units={measure.units}
+          hasCopied={measure.hasCopied}
+          onStartMeasuring={measure.startMeasuring}
+          onStopMeasuring={measure.stopMeasuring}
+          onFinish={measure.finishMeasure}
+          onUnitsChange={measure.setUnits}
+          onCopy={measure.copyResult}
+        />
       </div>
 
+      {/* Pinned feature inspector */}
+      {inspector.selectedFeature && (
+        <FeatureInspector
+          feature={inspector.selectedFeature}
+          index={inspector.selectedIndex}
+          total={inspector.inspectedFeatures.length}
+          onPrevious={inspector.selectPrevious}
+          onNext={inspector.selectNext}
+          onClose={inspector.clearInspection}
+        />
+      )}
+
       {/* Feature information on hover */}
-      {hoveredFeature && (
+      {hoveredFeature && !inspector.selectedFeature && (
         <div className="absolute top-4 right-4 z-40 bg-white rounded-lg shadow-lg border border-gray-200 p-3 max-w-xs">
           <h3 className="font-medium text-sm text-gray-900 mb-1">
             {hoveredFeature.properties?.name || 'Feature'}
@@ -140,17 +232,29 @@ export function MapViewer({
           onLoad={handleMapLoad}
           onError={handleMapError}
           onMouseMove={handleMouseMove}
-          mapStyle={config.mapStyle}
+          onDblClick={handleDoubleClick}
+          mapStyle={basemap ? BASEMAP_STYLE_URLS[basemap] : config.mapStyle}
+          // Full style reload, so style.load fires and our layers are re-added on top
+          styleDiffing={false}
           mapboxAccessToken={config.accessToken}
+          language={config.language}
           cursor={cursor}
-          interactiveLayerIds={layers.flatMap(layer => [
-            `forest-fill-${layer.id}`,
-            `forest-line-${layer.id}`,
-            `species-symbol-${layer.id}`,
-          ])}
+          interactiveLayerIds={[
+            ...layers.flatMap(layer => [
+              `forest-fill-${layer.id}`,
+              `forest-line-${layer.id}`,
+              `species-symbol-${layer.id}`,
+            ]),
+            ...cadastreLayers.map(layer => `cadastre-fill-${layer.id}`),
+            ...userLayers.flatMap(layer => [
+              `user-fill-${layer.id}`,
+              `user-line-${layer.id}`,
+              `user-circle-${layer.id}`,
+            ]),
+          ]}
           maxZoom={18}
           minZoom={3}
-          doubleClickZoom={true}
+          doubleClickZoom={!drawing.isDrawing && !measure.isMeasuring}
           dragRotate={true}
           dragPan={true}
           scrollZoom={true}
@@ -187,28 +291,64 @@ export function MapViewer({
             <ScaleControl 
               position="bottom-left"
               maxWidth={200}
-              unit="metric"
+              unit={config.units ?? 'metric'}
             />
           )}
 
-          {/* Renderizar capas geoespaciales */}
-          <LayerRenderer
-            forestLayers={layers}
-            cadastreLayers={cadastreLayers}
-            filters={filters}
-            currentZoom={viewState.zoom}
-            onLayerClick={(layerId, feature) => {
-              // Propagar evento click de capa
-              onClick?.({
-                lng: feature.geometry?.coordinates?.[0] || 0,
-                lat: feature.geometry?.coordinates?.[1] || 0,
-                features: [feature]
-              });
-            }}
-          />
+          {/* Capas propias; se vuelven a montar tras cada cambio de mapa base (style.load)
+              para añadir de nuevo fuentes y capas con su visibilidad y opacidad actuales */}
+          <React.Fragment key={styleVersion}>
+            {/* Renderizar capas geoespaciales */}
+            <LayerRenderer
+              forestLayers={layers}
+              cadastreLayers={cadastreLayers}
+              userLayers={userLayers}
+              treeSpecies={treeSpecies}
+              layerOrder={layerOrder}
+              boundary={boundary}
+              filters={filters}
+              currentZoom={viewState.zoom}
+              onLayerClick={(layerId, feature) => {
+                // Propagar evento click de capa
+                onClick?.({
+                  lng: feature.geometry?.coordinates?.[0] || 0,
+                  lat: feature.geometry?.coordinates?.[1] || 0,
+                  features: [feature]
+                });
+              }}
+            />
+
+            {/* Área de interés dibujada */}
+            <DrawingLayer
+              aoi={filters.aoi}
+              draftGeometry={drawing.draftGeometry}
+              draftVertices={drawing.draftVertices}
+              isEditing={drawing.isEditingAoi}
+              onVertexMove={drawing.moveAoiVertex}
+            />
+
+            {/* Medición en curso */}
+            <MeasureLayer
+              geometry={measure.geometry}
+              vertices={measure.vertices}
+              result={measure.result}
+              units={measure.units}
+            />
+          </React.Fragment>
         </Map>
       </div>
 
+      {/* Basemap style switcher */}
+      {onBasemapChange && (
+        <div className="absolute bottom-12 left-4 z-40">
+          <BasemapSwitcher
+            value={basemap ?? 'streets'}
+            accessToken={config.accessToken}
+            onChange={onBasemapChange}
+          />
+        </div>
+      )}
+
       {/* Footer with information */}
       <div className="absolute bottom-4 left-4 z-40">
         <div className="bg-white/90 backdrop-blur-sm rounded px-2 py-1 text-xs text-gray-600">
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview MeasureLayer - Renders the shape being measured
+ * Distance lines show the running total at each vertex
+ */
+
+'use client';
+
+import React from 'react';
+import { Layer, Marker, Source } from 'react-map-gl/mapbox';
+import { formatLength } from '@/lib/mapUtils';
+import type { LayerProps, MeasureResult, MeasureUnits } from '@/types/map';
+
+interface MeasureLayerProps {
+  /** Shape being measured */
+  geometry: GeoJSON.Geometry | null;
+  /** Vertices placed so far */
+  vertices: GeoJSON.Position[];
+  /** Measurement of the shape */
+  result: MeasureResult | null;
+  units: MeasureUnits;
+}
+
+const MEASURE_COLOR = '#F97316';
+
+/**
+ * Component that renders the measured line or polygon and its labels
+ */
+export function MeasureLayer({ geometry, vertices, result, units }: MeasureLayerProps) {
+  const measureFillLayer: LayerProps = {
+    id: 'measure-fill',
+    type: 'fill',
+    paint: {
+      'fill-color': MEASURE_COLOR,
+      'fill-opacity': 0.15
+    },
+    filter: ['==', ['geometry-type'], 'Polygon']
+  };
+
+  const measureLineLayer: LayerProps = {
+    id: 'measure-line',
+    type: 'line',
+    paint: {
+      'line-color': MEASURE_COLOR,
+      'line-width': 2,
+      'line-dasharray': [3, 1.5]
+    }
+  };
+
+  // Running total at the end of each segment, including the one following the pointer
+  const runningTotals = geometry?.type === 'LineString' && result?.mode === 'distance'
+    ? geometry.coordinates.slice(1).map((position, i) => ({
+      position,
+      total: result.segments.slice(0, i + 1).reduce((sum, length) => sum + length, 0),
+    }))
+    : [];
+
+  return (
+    <>
+      {geometry && (
+        <Source id="measure-source" type="geojson" data={geometry}>
+          <Layer {...measureFillLayer} />
+          <Layer {...measureLineLayer} />
+        </Source>
+      )}
+
+      {vertices.map(([lng, lat], index) => (
+        <Marker key={`measure-vertex-${index}`} longitude={lng} latitude={lat}>
+          <div className="w-2.5 h-2.5 rounded-full bg-white border-2 border-orange-500" />
+        </Marker>
+      ))}
+
+      {runningTotals.map(({ position: [lng, lat], total }, index) => (
+        <Marker key={`measure-total-${index}`} longitude={lng} latitude={lat} anchor="bottom-left" offset={[6, -6]}>
+          <span className="rounded bg-white/90 px-1 py-0.5 text-xs font-medium text-gray-800 shadow-sm whitespace-nowrap">
+            {formatLength(total, units)}
+          </span>
+        </Marker>
+      ))}
+    </>
+  );
+}
+
+export default MeasureLayer;
@@ -0,0 +1,148 @@
+/**
+ * @fileoverview MeasureToolbar - Distance and area measuring tools with their results
+ */
+
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/atoms';
+import { cn } from '@/lib/utils';
+import { formatArea, formatLength } from '@/lib/mapUtils';
+import type { MeasureMode, MeasureResult, MeasureUnits } from '@/types/map';
+
+interface MeasureToolbarProps {
+  /** Active measuring tool */
+  measureMode: MeasureMode | null;
+  /** Whether the measured shape is complete */
+  isFinished: boolean;
+  /** Number of vertices placed */
+  vertexCount: number;
+  /** Measurement of the current shape */
+  result: MeasureResult | null;
+  units: MeasureUnits;
+  /** Whether the result was just copied */
+  hasCopied: boolean;
+  onStartMeasuring: (mode: MeasureMode) => void;
+  onStopMeasuring: () => void;
+  onFinish: () => void;
+  onUnitsChange: (units: MeasureUnits) => void;
+  onCopy: () => void;
+}
+
+const TOOLS: Array<{ mode: MeasureMode; label: string; icon: string }> = [
+  { mode: 'distance', label: 'Measure distance', icon: '📏' },
+  { mode: 'area', label: 'Measure area', icon: '📐' },
+];
+
+const UNIT_OPTIONS: Array<{ value: MeasureUnits; label: string }> = [
+  { value: 'metric', label: 'm / km²' },
+  { value: 'hectares', label: 'ha / a' },
+  { value: 'imperial', label: 'ft / ac' },
+];
+
+const HINTS: Record<MeasureMode, string> = {
+  distance: 'Click to add points, double-click or Enter to finish',
+  area: 'Click to add vertices, double-click or Enter to close',
+};
+
+/**
+ * Toolbar for the measuring tools
+ */
+export function MeasureToolbar({
+  measureMode,
+  isFinished,
+  vertexCount,
+  result,
+  units,
+  hasCopied,
+  onStartMeasuring,
+  onStopMeasuring,
+  onFinish,
+  onUnitsChange,
+  onCopy,
+}: MeasureToolbarProps) {
+  const canFinish = vertexCount >= (measureMode === 'area' ? 3 : 2);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-2 space-y-2">
+      <div className="text-xs font-medium text-gray-700">Measure</div>
+
+      <div className="flex space-x-1">
+        {TOOLS.map(tool => (
+          <button
+            key={tool.mode}
+            type="button"
+            title={tool.label}
+            aria-pressed={measureMode === tool.mode}
+            onClick={() => (measureMode === tool.mode ? onStopMeasuring() : onStartMeasuring(tool.mode))}
+            className={cn(
+              'w-8 h-8 rounded border text-sm transition-colors',
+              measureMode === tool.mode
+                ? 'bg-orange-500 text-white border-orange-500'
+                : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+            )}
+          >
+            {tool.icon}
+          </button>
+        ))}
+      </div>
+
+      {measureMode && (
+        <div className="space-y-1">
+          {!isFinished && <p className="text-xs text-gray-500 max-w-[10rem]">{HINTS[measureMode]}</p>}
+
+          <select
+            aria-label="Measurement units"
+            value={units}
+            onChange={(e) => onUnitsChange(e.target.value as MeasureUnits)}
+            className="w-full p-1 border border-gray-300 rounded text-xs text-black"
+          >
+            {UNIT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+
+          {result && (
+            <dl className="text-xs text-gray-700 space-y-0.5" aria-live="polite">
+              {result.mode === 'area' ? (
+                <>
+                  <div className="flex justify-between space-x-2">
+                    <dt>Area</dt>
+                    <dd className="font-medium">{result.area !== undefined ? formatArea(result.area, units) : '-'}</dd>
+                  </div>
+                  <div className="flex justify-between space-x-2">
+                    <dt>Perimeter</dt>
+                    <dd className="font-medium">{formatLength(result.length, units)}</dd>
+                  </div>
+                </>
+              ) : (
+                <div className="flex justify-between space-x-2">
+                  <dt>Distance</dt>
+                  <dd className="font-medium">{formatLength(result.length, units)}</dd>
+                </div>
+              )}
+            </dl>
+          )}
+
+          <div className="flex space-x-1">
+            {!isFinished && (
+              <Button size="sm" variant="primary" onClick={onFinish} disabled={!canFinish}>
+                Finish
+              </Button>
+            )}
+            {result && (
+              <Button size="sm" variant="outline" onClick={onCopy}>
+                {hasCopied ? 'Copied' : 'Copy'}
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={onStopMeasuring}>
+              Close
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MeasureToolbar;
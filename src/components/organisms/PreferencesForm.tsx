@@ -0,0 +1,174 @@
+/**
+ * @fileoverview PreferencesForm Component - Organism for the map and interface preferences
+ */
+
+'use client';
+
+import React from 'react';
+import { Button, Label } from '@/components/atoms';
+import { InputField, CheckboxField } from '@/components/molecules';
+import { useFormWithValidation } from '@/hooks/useFormValidation';
+import { useUserSettings } from '@/hooks/useUserSettings';
+import { BASEMAP_OPTIONS, FRANCE_DEFAULT_VIEW } from '@/lib/mapUtils';
+import { resolveUserPreferences } from '@/lib/preferences';
+import { preferencesSchema, type PreferencesFormData } from '@/lib/schemas';
+import type { User } from '@/types/auth';
+import type { AppLanguage, UnitSystem } from '@/types/user';
+
+export interface PreferencesFormProps {
+  /** Current user */
+  user: User;
+}
+
+const UNIT_OPTIONS: Array<{ value: UnitSystem; label: string }> = [
+  { value: 'metric', label: 'Metric (m, km, ha)' },
+  { value: 'imperial', label: 'Imperial (ft, mi, ac)' },
+];
+
+const LANGUAGE_OPTIONS: Array<{ value: AppLanguage; label: string }> = [
+  { value: 'es', label: 'Español' },
+  { value: 'en', label: 'English' },
+  { value: 'fr', label: 'Français' },
+];
+
+const SELECT_CLASS_NAME = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-black';
+
+/**
+ * PreferencesForm component, saved with the profile through /users/me
+ */
+export function PreferencesForm({ user }: PreferencesFormProps) {
+  const { updateProfileMutation } = useUserSettings();
+  const preferences = resolveUserPreferences(user);
+  const view = preferences.defaultView ?? FRANCE_DEFAULT_VIEW;
+
+  const {
+    register,
+    handleSubmit,
+    getFieldError,
+    reset,
+    watch,
+    formState: { isSubmitting, errors, isDirty }
+  } = useFormWithValidation<PreferencesFormData>({
+    schema: preferencesSchema,
+    defaultValues: {
+      mapStyle: preferences.mapStyle,
+      units: preferences.units,
+      language: preferences.language,
+      useCustomView: preferences.defaultView !== null,
+      latitude: view.latitude,
+      longitude: view.longitude,
+      zoom: view.zoom
+    }
+  });
+
+  const useCustomView = watch('useCustomView');
+
+  /**
+   * Handler para el envío del formulario
+   */
+  const onSubmit = async (data: PreferencesFormData) => {
+    try {
+      await updateProfileMutation.mutateAsync({
+        preferences: {
+          mapStyle: data.mapStyle,
+          units: data.units,
+          language: data.language,
+          defaultView: data.useCustomView
+            ? { latitude: data.latitude, longitude: data.longitude, zoom: data.zoom, bearing: 0, pitch: 0 }
+            : null
+        }
+      });
+      // The saved values become the new baseline of the form
+      reset(data);
+    } catch {
+      // The error is shown from the mutation state
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4" noValidate>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="preferences-map-style">Default map style</Label>
+          <select id="preferences-map-style" className={SELECT_CLASS_NAME} {...register('mapStyle')}>
+            {BASEMAP_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="preferences-units">Units</Label>
+          <select id="preferences-units" className={SELECT_CLASS_NAME} {...register('units')}>
+            {UNIT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="preferences-language">Language</Label>
+          <select id="preferences-language" className={SELECT_CLASS_NAME} {...register('language')}>
+            {LANGUAGE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Default view */}
+      <CheckboxField
+        label="Open the map on a custom view instead of France"
+        {...register('useCustomView')}
+      />
+
+      {useCustomView && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <InputField
+            label="Latitude"
+            type="number"
+            step="any"
+            error={getFieldError('latitude')}
+            className='text-black'
+            {...register('latitude', { valueAsNumber: true })}
+          />
+          <InputField
+            label="Longitude"
+            type="number"
+            step="any"
+            error={getFieldError('longitude')}
+            className='text-black'
+            {...register('longitude', { valueAsNumber: true })}
+          />
+          <InputField
+            label="Zoom"
+            type="number"
+            step="0.5"
+            error={getFieldError('zoom')}
+            className='text-black'
+            {...register('zoom', { valueAsNumber: true })}
+          />
+        </div>
+      )}
+
+      {updateProfileMutation.error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg" role="alert">
+          {updateProfileMutation.error.message}
+        </div>
+      )}
+      {updateProfileMutation.isSuccess && !isDirty && (
+        <p className="text-sm text-green-700" role="status">Preferences saved</p>
+      )}
+
+      <Button
+        type="submit"
+        isLoading={isSubmitting || updateProfileMutation.isPending}
+        disabled={!isDirty || Object.keys(errors).length > 0}
+      >
+        Save preferences
+      </Button>
+    </form>
+  );
+}
+
+export default PreferencesForm;
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview PrintComposer - Page settings for printing the map to PNG or PDF
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/atoms';
+import { PAPER_SIZES, PRINT_DPI_OPTIONS } from '@/lib/printLayout';
+import type { PaperOrientation, PaperSize, PrintFormat, PrintOptions } from '@/types/map';
+
+export interface PrintComposerProps {
+  /** Title proposed for the page */
+  defaultTitle?: string;
+  /** Entries of the printed legend */
+  legendCount: number;
+  isPrinting?: boolean;
+  error?: string | null;
+  onPrint: (options: PrintOptions) => void;
+  onClose: () => void;
+}
+
+const SELECT_CLASS_NAME = 'w-full p-1.5 border border-gray-300 rounded-md text-sm text-black';
+
+/**
+ * Title, paper, resolution and format of the printed map
+ */
+export function PrintComposer({
+  defaultTitle = '',
+  legendCount,
+  isPrinting = false,
+  error,
+  onPrint,
+  onClose,
+}: PrintComposerProps) {
+  const [title, setTitle] = useState(defaultTitle);
+  const [paperSize, setPaperSize] = useState<PaperSize>('A4');
+  const [orientation, setOrientation] = useState<PaperOrientation>('landscape');
+  const [dpi, setDpi] = useState(150);
+  const [format, setFormat] = useState<PrintFormat>('pdf');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onPrint({ title: title.trim(), paperSize, orientation, dpi, format });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="w-56 space-y-2 rounded-lg border border-gray-200 bg-white p-3 shadow-lg"
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-900">Print map</h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-xs text-gray-400 hover:text-gray-600"
+          aria-label="Close print settings"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div>
+        <label htmlFor="print-title" className="block text-xs font-medium text-gray-600 mb-1">
+          Title
+        </label>
+        <input
+          id="print-title"
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Forest map"
+          className="w-full p-1.5 border border-gray-300 rounded-md text-sm text-black"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label htmlFor="print-paper" className="block text-xs font-medium text-gray-600 mb-1">
+            Paper
+          </label>
+          <select
+            id="print-paper"
+            value={paperSize}
+            onChange={(e) => setPaperSize(e.target.value as PaperSize)}
+            className={SELECT_CLASS_NAME}
+          >
+            {(Object.keys(PAPER_SIZES) as PaperSize[]).map(size => (
+              <option key={size} value={size}>{size}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="print-orientation" className="block text-xs font-medium text-gray-600 mb-1">
+            Orientation
+          </label>
+          <select
+            id="print-orientation"
+            value={orientation}
+            onChange={(e) => setOrientation(e.target.value as PaperOrientation)}
+            className={SELECT_CLASS_NAME}
+          >
+            <option value="landscape">Landscape</option>
+            <option value="portrait">Portrait</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="print-dpi" className="block text-xs font-medium text-gray-600 mb-1">
+            Resolution
+          </label>
+          <select
+            id="print-dpi"
+            value={dpi}
+            onChange={(e) => setDpi(Number(e.target.value))}
+            className={SELECT_CLASS_NAME}
+          >
+            {PRINT_DPI_OPTIONS.map(option => (
+              <option key={option} value={option}>{option} dpi</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="print-format" className="block text-xs font-medium text-gray-600 mb-1">
+            Format
+          </label>
+          <select
+            id="print-format"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as PrintFormat)}
+            className={SELECT_CLASS_NAME}
+          >
+            <option value="pdf">PDF</option>
+            <option value="png">PNG</option>
+          </select>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {legendCount} legend {legendCount === 1 ? 'entry' : 'entries'}, scale bar and north arrow
+      </p>
+
+      {error && (
+        <p className="text-xs text-red-600" role="alert">{error}</p>
+      )}
+
+      <Button type="submit" size="sm" isLoading={isPrinting} className="w-full">
+        {isPrinting ? 'Rendering...' : 'Download'}
+      </Button>
+    </form>
+  );
+}
+
+export default PrintComposer;
@@ -0,0 +1,166 @@
+/**
+ * @fileoverview ProfileSettingsForm Component - Organism to edit the name and avatar
+ */
+
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Avatar, Button } from '@/components/atoms';
+import { InputField } from '@/components/molecules';
+import { useFormWithValidation } from '@/hooks/useFormValidation';
+import { useUserSettings } from '@/hooks/useUserSettings';
+import {
+  AVATAR_MIME_TYPES,
+  avatarFileSchema,
+  profileSchema,
+  type ProfileFormData,
+} from '@/lib/schemas';
+import type { User } from '@/types/auth';
+
+export interface ProfileSettingsFormProps {
+  /** Current user */
+  user: User;
+}
+
+/**
+ * ProfileSettingsForm component with avatar upload and name editing
+ */
+export function ProfileSettingsForm({ user }: ProfileSettingsFormProps) {
+  const { updateProfileMutation, uploadAvatarMutation, deleteAvatarMutation } = useUserSettings();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [avatarError, setAvatarError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    getFieldError,
+    reset,
+    formState: { isSubmitting, errors, isDirty }
+  } = useFormWithValidation<ProfileFormData>({
+    schema: profileSchema,
+    defaultValues: {
+      name: user.name ?? ''
+    }
+  });
+
+  /**
+   * Handler para el envío del formulario
+   */
+  const onSubmit = async (data: ProfileFormData) => {
+    try {
+      await updateProfileMutation.mutateAsync({ name: data.name });
+      // The saved values become the new baseline of the form
+      reset(data);
+    } catch {
+      // The error is shown from the mutation state
+    }
+  };
+
+  /**
+   * Validate and upload the selected image
+   */
+  const handleAvatarChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const validation = avatarFileSchema.safeParse(file);
+    if (!validation.success) {
+      setAvatarError(validation.error.issues[0]?.message ?? 'Invalid image');
+      return;
+    }
+
+    setAvatarError(null);
+    uploadAvatarMutation.mutate(validation.data);
+  };
+
+  const avatarMessage = avatarError || uploadAvatarMutation.error?.message || deleteAvatarMutation.error?.message;
+  const isSavingAvatar = uploadAvatarMutation.isPending || deleteAvatarMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      {/* Avatar */}
+      <div className="flex items-center space-x-4">
+        <Avatar src={user.avatar} name={user.name} email={user.email} size="lg" />
+
+        <div className="space-y-2">
+          <div className="flex space-x-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              isLoading={uploadAvatarMutation.isPending}
+              disabled={isSavingAvatar}
+            >
+              Upload picture
+            </Button>
+            {user.avatar && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => deleteAvatarMutation.mutate()}
+                disabled={isSavingAvatar}
+              >
+                Remove
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">PNG, JPEG or WebP, up to 2 MB</p>
+          {avatarMessage && (
+            <p className="text-xs text-red-600" role="alert">{avatarMessage}</p>
+          )}
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={AVATAR_MIME_TYPES.join(',')}
+          className="hidden"
+          onChange={handleAvatarChange}
+          aria-label="Avatar image"
+        />
+      </div>
+
+      {/* Name */}
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4" noValidate>
+        <InputField
+          label="Full name"
+          type="text"
+          placeholder="Your name"
+          required
+          error={getFieldError('name')}
+          className='text-black'
+          {...register('name')}
+        />
+
+        <InputField
+          label="Email"
+          type="email"
+          value={user.email}
+          readOnly
+          disabled
+          className='text-black'
+        />
+
+        {updateProfileMutation.error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg" role="alert">
+            {updateProfileMutation.error.message}
+          </div>
+        )}
+        {updateProfileMutation.isSuccess && !isDirty && (
+          <p className="text-sm text-green-700" role="status">Profile saved</p>
+        )}
+
+        <Button
+          type="submit"
+          isLoading={isSubmitting || updateProfileMutation.isPending}
+          disabled={!isDirty || Object.keys(errors).length > 0}
+        >
+          Save profile
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+export default ProfileSettingsForm;
@@ -5,7 +5,10 @@
 'use client';
 
 import React from 'react';
+import { useRouter } from 'next/navigation';
 import { Button } from '@/components/atoms';
+import { useCan } from '@/hooks/useCan';
+import { MAPS_IMPORT_PARAM, MAPS_ROUTE } from '@/lib/routes';
 
 interface ActionCardProps {
   title: string;
@@ -53,6 +56,9 @@ function ActionCard({ title, description, icon, onClick, variant = 'primary' }:
  * Componente que muestra acciones rápidas en el dashboard
  */
 export function QuickActions() {
+  const router = useRouter();
+  const canImport = useCan('data:import');
+
   const actions = [
     {
       title: 'Nuevo Análisis',
@@ -64,7 +70,8 @@ export function QuickActions() {
       ),
       onClick: () => console.log('Nuevo análisis')
     },
-    {
+    // Solo para usuarios con permiso de importación
+    ...(canImport ? [{
       title: 'Cargar Datos',
       description: 'Importa nuevos conjuntos de datos geoespaciales',
       icon: (
@@ -72,9 +79,10 @@ export function QuickActions() {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
         </svg>
       ),
-      onClick: () => console.log('Cargar datos'),
+      // Abre el mapa con la importación de datos desplegada
+      onClick: () => router.push(`${MAPS_ROUTE}?${MAPS_IMPORT_PARAM}=1`),
       variant: 'secondary' as const
-    },
+    }] : []),
     {
       title: 'Ver Reportes',
       description: 'Revisa los reportes generados recientemente',
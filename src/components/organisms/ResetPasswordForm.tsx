@@ -0,0 +1,118 @@
+/**
+ * @fileoverview ResetPasswordForm Component - Organism to choose a new password from a reset link
+ */
+
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/atoms';
+import { InputField } from '@/components/molecules';
+import { useFormWithValidation } from '@/hooks/useFormValidation';
+import { useResetPasswordMutation } from '@/hooks/useAuthMutations';
+import { resetPasswordSchema, type ResetPasswordFormData } from '@/lib/schemas';
+
+export interface ResetPasswordFormProps {
+  /** Token from the reset link */
+  token: string;
+  /** Callback once the password has been changed */
+  onSuccess?: () => void;
+}
+
+/**
+ * ResetPasswordForm component that sets a new password
+ */
+export function ResetPasswordForm({ token, onSuccess }: ResetPasswordFormProps) {
+  const resetPasswordMutation = useResetPasswordMutation();
+
+  const {
+    register,
+    handleSubmit,
+    getFieldError,
+    formState: { isSubmitting, errors }
+  } = useFormWithValidation<ResetPasswordFormData>({
+    schema: resetPasswordSchema,
+    defaultValues: {
+      token,
+      password: '',
+      confirmPassword: ''
+    }
+  });
+
+  /**
+   * Handler para el envío del formulario
+   */
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    try {
+      await resetPasswordMutation.mutateAsync({ token: data.token, password: data.password });
+      onSuccess?.();
+    } catch {
+      // The error is shown from the mutation state
+    }
+  };
+
+  return (
+    <form 
+      onSubmit={handleSubmit(onSubmit)} 
+      className="space-y-6"
+      noValidate
+    >
+      <input type="hidden" {...register('token')} />
+
+      <div className="space-y-4">
+        <InputField
+          label="New password"
+          type="password"
+          placeholder="••••••••"
+          required
+          error={getFieldError('password')}
+          helperText="Minimum 6 characters, include uppercase, lowercase, and number"
+          className='text-black'
+          icon={
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+            </svg>
+          }
+          {...register('password')}
+        />
+
+        <InputField
+          label="Confirm password"
+          type="password"
+          placeholder="••••••••"
+          required
+          error={getFieldError('confirmPassword')}
+          className='text-black'
+          icon={
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          }
+          {...register('confirmPassword')}
+        />
+      </div>
+
+      {(resetPasswordMutation.error || getFieldError('token')) && (
+        <div 
+          className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg"
+          role="alert"
+          aria-live="polite"
+        >
+          {resetPasswordMutation.error?.message || getFieldError('token')}
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        variant="primary"
+        size="lg"
+        className="w-full"
+        isLoading={isSubmitting || resetPasswordMutation.isPending}
+        disabled={Object.keys(errors).length > 0}
+      >
+        {isSubmitting || resetPasswordMutation.isPending ? 'Saving...' : 'Set new password'}
+      </Button>
+    </form>
+  );
+}
+
+export default ResetPasswordForm;
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview SavedMapsPanel - Save, list, rename, delete and restore map sessions
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import type { SavedMapState } from '@/types/map';
+import { Button, Input } from '@/components/atoms';
+
+export interface SavedMapsPanelProps {
+  savedMaps: SavedMapState[];
+  isLoading?: boolean;
+  error?: Error | null;
+  /** Error of the last save, rename or delete */
+  actionError?: Error | null;
+  isSaving?: boolean;
+  /** Save the current map under a name */
+  onSave: (name: string) => void;
+  /** Restore a saved map */
+  onRestore: (savedMap: SavedMapState) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * Panel with the saved maps of the current user
+ */
+export function SavedMapsPanel({
+  savedMaps,
+  isLoading = false,
+  error,
+  actionError,
+  isSaving = false,
+  onSave,
+  onRestore,
+  onRename,
+  onDelete,
+}: SavedMapsPanelProps) {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    onSave(name);
+    setNewName('');
+  };
+
+  const startRenaming = (savedMap: SavedMapState) => {
+    setEditingId(savedMap.id);
+    setEditingName(savedMap.name);
+  };
+
+  const handleRename = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = editingName.trim();
+    if (editingId && name) onRename(editingId, name);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium text-gray-700">Saved maps</h3>
+
+      {/* Save the current map */}
+      <form onSubmit={handleSave} className="flex space-x-2">
+        <Input
+          size="sm"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Name of this map"
+          aria-label="Saved map name"
+          className="text-black"
+        />
+        <Button type="submit" size="sm" disabled={!newName.trim() || isSaving}>
+          {isSaving ? '...' : 'Save'}
+        </Button>
+      </form>
+
+      {actionError && (
+        <div className="text-xs text-red-600" role="alert">{actionError.message}</div>
+      )}
+
+      {/* Saved maps list */}
+      {isLoading ? (
+        <div className="text-xs text-gray-500">Loading saved maps...</div>
+      ) : error ? (
+        <div className="text-xs text-red-600">{error.message}</div>
+      ) : savedMaps.length === 0 ? (
+        <div className="text-xs text-gray-500">No saved maps yet</div>
+      ) : (
+        <ul className="space-y-1 max-h-40 overflow-y-auto">
+          {savedMaps.map(savedMap => (
+            <li key={savedMap.id} className="flex items-center justify-between text-xs">
+              {editingId === savedMap.id ? (
+                <form onSubmit={handleRename} className="flex-1 flex space-x-1">
+                  <Input
+                    size="sm"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                    aria-label="New name"
+                    className="text-black"
+                    autoFocus
+                  />
+                  <Button type="submit" size="sm" variant="outline">OK</Button>
+                </form>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => onRestore(savedMap)}
+                    className="flex-1 min-w-0 text-left text-black hover:text-blue-600 truncate"
+                    title={`Restore "${savedMap.name}"`}
+                  >
+                    {savedMap.name}
+                    {savedMap.isLocal && <span className="ml-1 text-gray-400">(offline)</span>}
+                  </button>
+                  <div className="flex shrink-0">
+                    <Button size="sm" variant="ghost" onClick={() => startRenaming(savedMap)} aria-label="Rename">
+                      ✎
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => onDelete(savedMap.id)} aria-label="Delete">
+                      ✕
+                    </Button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default SavedMapsPanel;
@@ -8,4 +8,23 @@ export { DashboardStats } from './DashboardStats';
 export { QuickActions } from './QuickActions';
 export { MapViewer } from './MapViewer';
 export { LayerRenderer } from './LayerRenderer';
-export { DashboardHeader, type DashboardHeaderProps } from './DashboardHeader';
\ No newline at end of file
+export { FeatureInspector, type FeatureInspectorProps } from './FeatureInspector';
+export { AreaStatisticsPanel, type AreaStatisticsPanelProps } from './AreaStatisticsPanel';
+export { SavedMapsPanel, type SavedMapsPanelProps } from './SavedMapsPanel';
+export { DrawingToolbar } from './DrawingToolbar';
+export { DrawingLayer } from './DrawingLayer';
+export { MeasureToolbar } from './MeasureToolbar';
+export { MeasureLayer } from './MeasureLayer';
+export { DashboardHeader, type DashboardHeaderProps } from './DashboardHeader';
+export { ForgotPasswordForm, type ForgotPasswordFormProps } from './ForgotPasswordForm';
+export { ResetPasswordForm, type ResetPasswordFormProps } from './ResetPasswordForm';
+export { EmailVerification, type EmailVerificationProps } from './EmailVerification';
+export { ProfileSettingsForm, type ProfileSettingsFormProps } from './ProfileSettingsForm';
+export { ChangePasswordForm } from './ChangePasswordForm';
+export { PreferencesForm, type PreferencesFormProps } from './PreferencesForm';
+export { BasemapSwitcher } from './BasemapSwitcher';
+export { LayerManagerPanel, type LayerManagerPanelProps, type LayerManagerItem } from './LayerManagerPanel';
+export { ExportMenu, type ExportMenuProps } from './ExportMenu';
+export { DataImportPanel, type DataImportPanelProps } from './DataImportPanel';
+export { PrintComposer, type PrintComposerProps } from './PrintComposer';
+export { MapSearchBox, type MapSearchBoxProps } from './MapSearchBox';
@@ -6,9 +6,9 @@
 
 import React, { useEffect, useState } from 'react';
 import { useAuth } from '@/context/AuthContext';
-import { Button } from '@/components/atoms';
+import { Avatar, Button, Can } from '@/components/atoms';
 import { DashboardHeader } from '@/components/organisms';
-import { cn, getAvatarFallback, formatDate } from '@/lib/utils';
+import { cn, formatDate } from '@/lib/utils';
 import { useRouter, usePathname } from 'next/navigation';
 
 export interface DashboardLayoutProps {
@@ -80,17 +80,32 @@ export function DashboardLayout({ children, pageTitle = "Dashboard", breadcrumbs
             onClick={() => navigateToSection('/dashboard')}
           />
           
+          <Can permission="maps:view">
+            <SidebarItem
+              icon={
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+              }
+              label="Maps"
+              active={pathname === '/dashboard/maps'}
+              collapsed={!sidebarOpen}
+              onClick={() => navigateToSection('/dashboard/maps')}
+            />
+          </Can>
+
           <SidebarItem
             icon={
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+              <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
               </svg>
             }
-            label="Maps"
-            active={pathname === '/dashboard/maps'}
+            label="Settings"
+            active={pathname === '/dashboard/settings'}
             collapsed={!sidebarOpen}
-            onClick={() => navigateToSection('/dashboard/maps')}
+            onClick={() => navigateToSection('/dashboard/settings')}
           />
         
         </nav>
@@ -99,11 +114,7 @@ export function DashboardLayout({ children, pageTitle = "Dashboard", breadcrumbs
         <div className="p-4 border-t border-gray-200">
           {user && (
             <div className={cn("flex items-center", sidebarOpen ? "space-x-3" : "justify-center")}>
-              <img
-                src={user.avatar || getAvatarFallback(user.name, user.email)}
-                alt={`Avatar of ${user.name || user.email}`}
-                className="w-8 h-8 rounded-full"
-              />
+              <Avatar src={user.avatar} name={user.name} email={user.email} />
               {sidebarOpen && (
                 <div className="flex-1 min-w-0">
                   <p className="text-sm font-medium text-gray-700 truncate">
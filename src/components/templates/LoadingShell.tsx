@@ -0,0 +1,30 @@
+/**
+ * @fileoverview LoadingShell - Pantalla de carga mientras se resuelve la autenticación
+ */
+
+import React from 'react';
+
+export interface LoadingShellProps {
+  /** Texto opcional bajo el spinner */
+  message?: string;
+}
+
+/**
+ * Pantalla completa con spinner, común a las páginas protegidas y de auth
+ */
+export function LoadingShell({ message }: LoadingShellProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50" role="status" aria-live="polite">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+        {message ? (
+          <p className="mt-4 text-gray-600">{message}</p>
+        ) : (
+          <span className="sr-only">Cargando...</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default LoadingShell;
@@ -3,4 +3,5 @@
  */
 
 export { AuthLayout, type AuthLayoutProps } from './AuthLayout';
-export { DashboardLayout, type DashboardLayoutProps } from './DashboardLayout';
\ No newline at end of file
+export { DashboardLayout, type DashboardLayoutProps } from './DashboardLayout';
+export { LoadingShell, type LoadingShellProps } from './LoadingShell';
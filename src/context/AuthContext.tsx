@@ -5,10 +5,18 @@
 
 'use client';
 
-import React, { createContext, useContext, useReducer, useCallback, useEffect } from 'react';
+import React, { createContext, useContext, useReducer, useCallback, useEffect, useRef } from 'react';
 import type { AuthState, AuthContextType, LoginCredentials, RegisterCredentials, User } from '@/types/auth';
-import { useLocalStorage } from '@/hooks/useLocalStorage';
-import { useLoginMutation, useRegisterMutation, useLogoutMutation } from '@/hooks/useAuthMutations';
+import {
+  useLoginMutation,
+  useRegisterMutation,
+  useLogoutMutation,
+  useRefreshTokenMutation,
+} from '@/hooks/useAuthMutations';
+import { isSessionRejectedError, registerAuthHandlers, refreshAuthSession } from '@/services/api';
+import { isTokenRejectedError, verifyToken } from '@/services/authService';
+import { getTokenExpiry } from '@/lib/utils';
+import tokenStorage from '@/lib/tokenStorage';
 
 // Estado inicial de la autenticación
 const initialAuthState: AuthState = {
@@ -20,12 +28,19 @@ const initialAuthState: AuthState = {
   error: null
 };
 
+// Margen con el que se renueva el token antes de su expiración
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+// Retardo máximo admitido por setTimeout
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
 // Tipos de acciones del reducer
 type AuthAction = 
   | { type: 'AUTH_START' }
   | { type: 'AUTH_SUCCESS'; payload: { user: User; accessToken: string; refreshToken?: string } }
   | { type: 'AUTH_ERROR'; payload: string }
   | { type: 'AUTH_LOGOUT' }
+  | { type: 'UPDATE_USER'; payload: User }
   | { type: 'CLEAR_ERROR' }
   | { type: 'SET_LOADING'; payload: boolean };
 
@@ -75,6 +90,12 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         error: null
       };
       
+    case 'UPDATE_USER':
+      return {
+        ...state,
+        user: action.payload
+      };
+      
     case 'CLEAR_ERROR':
       return {
         ...state,
@@ -105,13 +126,12 @@ interface AuthProviderProps {
  */
 export function AuthProvider({ children }: AuthProviderProps) {
   const [state, dispatch] = useReducer(authReducer, initialAuthState);
-  const [storedToken, setStoredToken, removeStoredToken] = useLocalStorage<string>('auth_token');
-  const [storedUser, setStoredUser, removeStoredUser] = useLocalStorage<User>('auth_user');
 
   // Mutations de TanStack Query
   const loginMutation = useLoginMutation();
   const registerMutation = useRegisterMutation();
   const logoutMutation = useLogoutMutation();
+  const refreshTokenMutation = useRefreshTokenMutation();
 
   /**
    * Función para login usando el servicio real
@@ -131,18 +151,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
         } 
       });
       
-      // Persistir datos si "recordarme" está activado
-      if (credentials.rememberMe) {
-        setStoredToken(result.accessToken);
-        setStoredUser(result.user);
-        
-        // Persistir refresh token también
-        localStorage.setItem('refresh_token', result.refreshToken);
-      } else {
-        // Almacenar temporalmente en sesión aunque no sea "recordarme"
-        localStorage.setItem('refresh_token', result.refreshToken);
-      }
-      
+      // La mutación guarda la sesión en localStorage o sessionStorage según "recordarme"
       return true;
       
     } catch (error) {
@@ -150,7 +159,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       dispatch({ type: 'AUTH_ERROR', payload: message });
       return false;
     }
-  }, [loginMutation, setStoredToken, setStoredUser]);
+  }, [loginMutation]);
 
   /**
    * Función para registro usando el servicio real
@@ -182,57 +191,225 @@ export function AuthProvider({ children }: AuthProviderProps) {
    */
   const logout = useCallback(async () => {
     try {
-      await logoutMutation.mutateAsync();
+      await logoutMutation.mutateAsync({});
       dispatch({ type: 'AUTH_LOGOUT' });
-      removeStoredToken();
-      removeStoredUser();
-      
-      // Limpiar refresh token también
-      localStorage.removeItem('refresh_token');
     } catch (error) {
       console.error('Error en logout:', error);
       // Logout local incluso si falla el servidor
       dispatch({ type: 'AUTH_LOGOUT' });
-      removeStoredToken();
-      removeStoredUser();
-      localStorage.removeItem('refresh_token');
+      tokenStorage.clearSession();
     }
-  }, [logoutMutation, removeStoredToken, removeStoredUser]);
+  }, [logoutMutation]);
 
   /**
-   * Función para refrescar autenticación desde localStorage
+   * Restaurar la sesión guardada sin validarla con el backend
    */
-  const refreshAuth = useCallback(async () => {
-    if (storedToken && storedUser) {
-      // Verificar si también tenemos refreshToken
-      const refreshToken = localStorage.getItem('refresh_token');
-      
-      dispatch({ 
-        type: 'AUTH_SUCCESS', 
-        payload: { 
-          user: storedUser, 
+  const restoreStoredSession = useCallback((storedToken: string) => {
+    const storedUser = tokenStorage.getStoredUser();
+    if (storedUser) {
+      dispatch({
+        type: 'AUTH_SUCCESS',
+        payload: {
+          user: storedUser,
           accessToken: storedToken,
-          refreshToken: refreshToken || undefined
-        } 
+          refreshToken: tokenStorage.getRefreshToken() || undefined
+        }
       });
     } else {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [storedToken, storedUser]);
+  }, []);
+
+  /**
+   * Renovar la sesión con el refresh token
+   * La usan los interceptores de api.ts al recibir un 401 y el temporizador de expiración
+   * Las pestañas renuevan de una en una: si otra ya guardó un token nuevo mientras
+   * se esperaba el lock, se adopta en vez de gastar el refresh token rotado
+   */
+  const refreshSession = useCallback(async (): Promise<string> => {
+    const tokenBeforeLock = tokenStorage.getAccessToken();
+
+    return tokenStorage.withRefreshLock(async () => {
+      const storedToken = tokenStorage.getAccessToken();
+      const storedExpiry = storedToken ? getTokenExpiry(storedToken) : null;
+      if (
+        storedToken &&
+        storedToken !== tokenBeforeLock &&
+        (storedExpiry === null || storedExpiry - TOKEN_REFRESH_MARGIN_MS > Date.now())
+      ) {
+        restoreStoredSession(storedToken);
+        return storedToken;
+      }
+
+      const storedRefreshToken = tokenStorage.getRefreshToken();
+      if (!storedRefreshToken) {
+        throw new Error('No refresh token available');
+      }
+
+      const result = await refreshTokenMutation.mutateAsync(storedRefreshToken);
+
+      dispatch({
+        type: 'AUTH_SUCCESS',
+        payload: {
+          user: result.user,
+          accessToken: result.accessToken,
+          refreshToken: result.refreshToken
+        }
+      });
+
+      return result.accessToken;
+    });
+  }, [refreshTokenMutation, restoreStoredSession]);
+
+  // Referencias estables para los interceptores, que se registran una sola vez
+  const sessionHandlersRef = useRef({ refreshSession, logout });
+  useEffect(() => {
+    sessionHandlersRef.current = { refreshSession, logout };
+  }, [refreshSession, logout]);
+
+  /**
+   * Efecto para conectar los interceptores de axios con el contexto
+   */
+  useEffect(() => {
+    return registerAuthHandlers({
+      refreshSession: () => sessionHandlersRef.current.refreshSession(),
+      onSessionExpired: () => {
+        sessionHandlersRef.current.logout();
+      },
+    });
+  }, []);
+
+  /**
+   * Función para validar la sesión persistida
+   * Si el token ha expirado intenta una renovación silenciosa;
+   * si no, lo verifica con /auth/me y actualiza el usuario guardado
+   */
+  const refreshAuth = useCallback(async () => {
+    const storedToken = tokenStorage.getAccessToken();
+    if (!storedToken) {
+      dispatch({ type: 'SET_LOADING', payload: false });
+      return;
+    }
+
+    const expiresAt = getTokenExpiry(storedToken);
+    if (expiresAt !== null && expiresAt <= Date.now()) {
+      try {
+        await refreshAuthSession();
+      } catch (error) {
+        if (!tokenStorage.getRefreshToken() || isSessionRejectedError(error)) {
+          // Renovación rechazada: la sesión ya no es válida
+          console.warn('Persisted session could not be renewed:', error);
+          dispatch({ type: 'AUTH_LOGOUT' });
+          tokenStorage.clearSession();
+          return;
+        }
+
+        // Sin conexión o error del servidor: se conserva la sesión y se renueva en la próxima petición
+        console.warn('Persisted session could not be renewed yet:', error);
+        restoreStoredSession(storedToken);
+      }
+      return;
+    }
+
+    try {
+      const { user } = await verifyToken();
+      tokenStorage.saveUser(user);
+
+      dispatch({
+        type: 'AUTH_SUCCESS',
+        payload: {
+          user,
+          accessToken: storedToken,
+          refreshToken: tokenStorage.getRefreshToken() || undefined
+        }
+      });
+    } catch (error) {
+      if (isTokenRejectedError(error)) {
+        // Token rechazado y sin posibilidad de renovarlo
+        console.warn('Persisted session is no longer valid:', error);
+        dispatch({ type: 'AUTH_LOGOUT' });
+        tokenStorage.clearSession();
+        return;
+      }
+
+      // Sin conexión o error del servidor: se conserva la sesión guardada
+      console.warn('Persisted session could not be verified:', error);
+      restoreStoredSession(storedToken);
+    }
+  }, [restoreStoredSession]);
 
   /**
-   * Efecto para cargar usuario persistido al iniciar
+   * Efecto para validar la sesión persistida al iniciar (una sola vez)
    */
+  const hasValidatedSessionRef = useRef(false);
   useEffect(() => {
+    if (hasValidatedSessionRef.current) return;
+    hasValidatedSessionRef.current = true;
     refreshAuth();
   }, [refreshAuth]);
 
+  /**
+   * Efecto para cerrar la sesión cuando se hace logout en otra pestaña
+   * Sin volver a avisar a las demás pestañas
+   */
+  const { mutate: logoutThisTab } = logoutMutation;
+  useEffect(() => {
+    return tokenStorage.onLogoutInOtherTab(() => {
+      dispatch({ type: 'AUTH_LOGOUT' });
+      logoutThisTab({ broadcast: false });
+    });
+  }, [logoutThisTab]);
+
+  /**
+   * Efecto para adoptar el token que otra pestaña acaba de renovar
+   * Así su temporizador de expiración se reprograma y no vuelve a renovar
+   */
+  useEffect(() => {
+    if (!state.isAuthenticated) return;
+    return tokenStorage.onSessionRenewedInOtherTab(() => {
+      const storedToken = tokenStorage.getAccessToken();
+      if (storedToken) restoreStoredSession(storedToken);
+    });
+  }, [state.isAuthenticated, restoreStoredSession]);
+
+  /**
+   * Efecto para renovar el token poco antes de que expire
+   * refreshSession adopta el token si otra pestaña lo ha renovado antes
+   */
+  useEffect(() => {
+    if (!state.accessToken) return;
+
+    const expiresAt = getTokenExpiry(state.accessToken);
+    if (expiresAt === null) return;
+
+    // setTimeout no admite retardos mayores de ~24,8 días
+    const delay = Math.min(
+      Math.max(expiresAt - Date.now() - TOKEN_REFRESH_MARGIN_MS, 0),
+      MAX_TIMER_DELAY_MS
+    );
+    const timer = setTimeout(() => {
+      // Un fallo cierra la sesión a través de onSessionExpired
+      refreshAuthSession().catch(() => undefined);
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [state.accessToken]);
+
+  /**
+   * Actualizar el usuario tras editar el perfil o las preferencias
+   */
+  const updateUser = useCallback((user: User) => {
+    tokenStorage.saveUser(user);
+    dispatch({ type: 'UPDATE_USER', payload: user });
+  }, []);
+
   const value: AuthContextType = {
     ...state,
     login,
     register,
     logout,
-    refreshAuth
+    refreshAuth,
+    updateUser
   };
 
   return (
@@ -4,11 +4,33 @@
 
 export { useLocalStorage } from './useLocalStorage';
 export { useFormWithValidation } from './useFormValidation';
-export { useLoginMutation, useRegisterMutation, useLogoutMutation } from './useAuthMutations';
+export {
+  useLoginMutation,
+  useRegisterMutation,
+  useLogoutMutation,
+  useForgotPasswordMutation,
+  useResetPasswordMutation,
+  useVerifyEmailMutation,
+  useResendVerificationMutation,
+} from './useAuthMutations';
 export { useGeoLayers, useForestLayers, useCadastreLayers } from './useGeoLayers';
 export { useMapViewer } from './useMapViewer';
+export { useFeatureInspector } from './useFeatureInspector';
+export { useAoiDrawing } from './useAoiDrawing';
+export { useMeasureTool } from './useMeasureTool';
+export { useSavedMaps } from './useSavedMaps';
+export { useDashboardStats } from './useDashboardStats';
 export { useDebounce, useDebounceCallback } from './useDebounce';
 export { useLoadingState } from './useLoadingState';
+export { useRequireAuth } from './useRequireAuth';
+export { useCan } from './useCan';
+export { useUserSettings } from './useUserSettings';
+export { useBasemapStyle } from './useBasemapStyle';
+export { useLayerManager } from './useLayerManager';
+export { useLayerExport } from './useLayerExport';
+export { useDataImport } from './useDataImport';
+export { useMapPrint } from './useMapPrint';
+export { useGeocodingSearch } from './useGeocodingSearch';
 export {
   useRegions,
   useDepartments,
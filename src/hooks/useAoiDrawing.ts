@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Hook to draw and edit the area of interest (AOI) on the map
+ * Polygon, rectangle and circle tools, vertex editing and deletion
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { DrawMode } from '@/types/map';
+import {
+  calculateDistance,
+  createCirclePolygon,
+  createRectanglePolygon,
+} from '@/lib/mapUtils';
+import { isEditableTarget } from '@/lib/utils';
+
+interface UseAoiDrawingProps {
+  /** Current area of interest */
+  aoi?: GeoJSON.Polygon;
+  /** Callback when the AOI is drawn, edited or deleted */
+  onAoiChange?: (aoi: GeoJSON.Polygon | undefined) => void;
+}
+
+export interface UseAoiDrawingReturn {
+  /** Active drawing tool, null when not drawing */
+  drawMode: DrawMode | null;
+  /** Whether a drawing tool is active */
+  isDrawing: boolean;
+  /** Whether the AOI vertices can be dragged */
+  isEditingAoi: boolean;
+  /** Geometry being drawn, following the pointer */
+  draftGeometry: GeoJSON.Geometry | null;
+  /** Vertices placed so far */
+  draftVertices: GeoJSON.Position[];
+  /** Start drawing with a tool (replaces the current AOI when finished) */
+  startDrawing: (mode: DrawMode) => void;
+  /** Abort the current drawing */
+  cancelDrawing: () => void;
+  /** Close the polygon being drawn */
+  finishPolygon: () => void;
+  /** Toggle vertex editing of the AOI */
+  toggleEditingAoi: () => void;
+  /** Move a vertex of the AOI outer ring */
+  moveAoiVertex: (index: number, position: GeoJSON.Position) => void;
+  /** Remove the AOI */
+  deleteAoi: () => void;
+  /** Map handlers while drawing */
+  handleDrawClick: (position: GeoJSON.Position) => void;
+  handleDrawMouseMove: (position: GeoJSON.Position) => void;
+  handleDrawDoubleClick: () => void;
+}
+
+/**
+ * Remove consecutive duplicated vertices
+ * A double click registers two clicks on the same spot before the dblclick event
+ */
+function removeRepeatedVertices(vertices: GeoJSON.Position[]): GeoJSON.Position[] {
+  return vertices.filter((vertex, i) =>
+    i === 0 || vertex[0] !== vertices[i - 1][0] || vertex[1] !== vertices[i - 1][1]
+  );
+}
+
+/**
+ * Hook that holds the drawing state machine of the AOI
+ * The AOI itself lives in the map filters, this hook only edits it through onAoiChange
+ */
+export function useAoiDrawing({ aoi, onAoiChange }: UseAoiDrawingProps): UseAoiDrawingReturn {
+  const [drawMode, setDrawMode] = useState<DrawMode | null>(null);
+  const [draftVertices, setDraftVertices] = useState<GeoJSON.Position[]>([]);
+  const [pointer, setPointer] = useState<GeoJSON.Position | null>(null);
+  const [isEditingAoi, setIsEditingAoi] = useState(false);
+
+  const startDrawing = useCallback((mode: DrawMode) => {
+    setDrawMode(mode);
+    setDraftVertices([]);
+    setPointer(null);
+    setIsEditingAoi(false);
+  }, []);
+
+  const cancelDrawing = useCallback(() => {
+    setDrawMode(null);
+    setDraftVertices([]);
+    setPointer(null);
+  }, []);
+
+  const completeDrawing = useCallback((geometry: GeoJSON.Polygon) => {
+    onAoiChange?.(geometry);
+    cancelDrawing();
+  }, [onAoiChange, cancelDrawing]);
+
+  const finishPolygon = useCallback(() => {
+    const vertices = removeRepeatedVertices(draftVertices);
+    if (drawMode !== 'polygon' || vertices.length < 3) return;
+    completeDrawing({ type: 'Polygon', coordinates: [[...vertices, vertices[0]]] });
+  }, [drawMode, draftVertices, completeDrawing]);
+
+  /**
+   * Polygons add one vertex per click; rectangles and circles need two clicks
+   */
+  const handleDrawClick = useCallback((position: GeoJSON.Position) => {
+    if (!drawMode) return;
+
+    if (drawMode === 'polygon' || draftVertices.length === 0) {
+      setDraftVertices(prev => [...prev, position]);
+      return;
+    }
+
+    const [origin] = draftVertices;
+    completeDrawing(
+      drawMode === 'rectangle'
+        ? createRectanglePolygon(origin, position)
+        : createCirclePolygon(
+          origin,
+          calculateDistance({ lng: origin[0], lat: origin[1] }, { lng: position[0], lat: position[1] })
+        )
+    );
+  }, [drawMode, draftVertices, completeDrawing]);
+
+  const handleDrawMouseMove = useCallback((position: GeoJSON.Position) => {
+    setPointer(position);
+  }, []);
+
+  const handleDrawDoubleClick = useCallback(() => {
+    finishPolygon();
+  }, [finishPolygon]);
+
+  const toggleEditingAoi = useCallback(() => {
+    setIsEditingAoi(editing => !editing);
+  }, []);
+
+  const moveAoiVertex = useCallback((index: number, position: GeoJSON.Position) => {
+    if (!aoi) return;
+    const ring = [...aoi.coordinates[0]];
+    const lastIndex = ring.length - 1;
+
+    ring[index] = position;
+    // Keep the ring closed when moving its first vertex
+    if (index === 0) ring[lastIndex] = position;
+
+    onAoiChange?.({ type: 'Polygon', coordinates: [ring, ...aoi.coordinates.slice(1)] });
+  }, [aoi, onAoiChange]);
+
+  const deleteAoi = useCallback(() => {
+    setIsEditingAoi(false);
+    onAoiChange?.(undefined);
+  }, [onAoiChange]);
+
+  /**
+   * Preview of the shape being drawn
+   */
+  const draftGeometry = useMemo<GeoJSON.Geometry | null>(() => {
+    if (!drawMode || draftVertices.length === 0) return null;
+    const [origin] = draftVertices;
+
+    if (drawMode === 'polygon') {
+      const vertices = pointer ? [...draftVertices, pointer] : draftVertices;
+      return vertices.length >= 3
+        ? { type: 'Polygon', coordinates: [[...vertices, vertices[0]]] }
+        : { type: 'LineString', coordinates: vertices };
+    }
+
+    if (!pointer) return null;
+    return drawMode === 'rectangle'
+      ? createRectanglePolygon(origin, pointer)
+      : createCirclePolygon(
+        origin,
+        calculateDistance({ lng: origin[0], lat: origin[1] }, { lng: pointer[0], lat: pointer[1] })
+      );
+  }, [drawMode, draftVertices, pointer]);
+
+  /**
+   * Keyboard shortcuts while drawing: Escape cancels, Enter closes the polygon
+   */
+  useEffect(() => {
+    if (!drawMode) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+      if (event.key === 'Escape') cancelDrawing();
+      if (event.key === 'Enter') finishPolygon();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [drawMode, cancelDrawing, finishPolygon]);
+
+  return {
+    drawMode,
+    isDrawing: drawMode !== null,
+    isEditingAoi: isEditingAoi && !!aoi,
+    draftGeometry,
+    draftVertices,
+    startDrawing,
+    cancelDrawing,
+    finishPolygon,
+    toggleEditingAoi,
+    moveAoiVertex,
+    deleteAoi,
+    handleDrawClick,
+    handleDrawMouseMove,
+    handleDrawDoubleClick,
+  };
+}
+
+export default useAoiDrawing;
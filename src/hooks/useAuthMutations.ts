@@ -4,8 +4,25 @@
  */
 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { login, register, refreshToken } from '@/services/authService';
-import type { LoginCredentials, RegisterCredentials } from '@/types/auth';
+import {
+  login,
+  register,
+  refreshToken,
+  requestPasswordReset,
+  resetPassword,
+  verifyEmail,
+  verifyToken,
+  resendVerificationEmail,
+} from '@/services/authService';
+import tokenStorage from '@/lib/tokenStorage';
+import type {
+  LoginCredentials,
+  RegisterCredentials,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  VerifyEmailRequest,
+  User,
+} from '@/types/auth';
 
 /**
  * Hook for handling login with TanStack Query
@@ -17,26 +34,16 @@ export function useLoginMutation() {
   return useMutation({
     mutationFn: (credentials: LoginCredentials) => login(credentials),
 
-    onSuccess: (data) => {
-      // Save token and user in localStorage if "remember me" is active
-      if (typeof window !== 'undefined') {
-        localStorage.setItem('auth_token', data.accessToken);
-        localStorage.setItem('refresh_token', data.refreshToken);
-        localStorage.setItem('auth_user', JSON.stringify(data.user));
-      }
+    onSuccess: (data, credentials) => {
+      // Persistent storage with "remember me", tab-scoped storage otherwise
+      tokenStorage.saveSession(data, !!credentials.rememberMe);
 
       // Invalidate auth-related queries
       queryClient.invalidateQueries({ queryKey: ['auth'] });
     },
 
     onError: (error) => {
-      // Clear authentication data on error
-      if (typeof window !== 'undefined') {
-        localStorage.removeItem('auth_token');
-        localStorage.removeItem('refresh_token');
-        localStorage.removeItem('auth_user');
-      }
-
+      // A failed attempt leaves the stored session (and the other tabs) untouched
       console.error('Login error:', error);
     },
 
@@ -73,6 +80,14 @@ export function useRegisterMutation() {
   });
 }
 
+/**
+ * Options for the logout mutation
+ */
+export interface LogoutOptions {
+  /** Notify the other open tabs (false when the logout came from another tab) */
+  broadcast?: boolean;
+}
+
 /**
  * Hook for handling logout
  */
@@ -80,13 +95,9 @@ export function useLogoutMutation() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async () => {
-      // Clear localStorage
-      if (typeof window !== 'undefined') {
-        localStorage.removeItem('auth_token');
-        localStorage.removeItem('refresh_token');
-        localStorage.removeItem('auth_user');
-      }
+    mutationFn: async ({ broadcast = true }: LogoutOptions = {}) => {
+      tokenStorage.clearSession();
+      if (broadcast) tokenStorage.broadcastLogout();
 
       // Simulate delay for UX
       await new Promise(resolve => setTimeout(resolve, 300));
@@ -105,7 +116,7 @@ export function useLogoutMutation() {
 
 /**
  * Hook for handling refresh token with TanStack Query
- * Automatically renews tokens when they expire
+ * Triggered by the api.ts interceptors when a request gets a 401
  */
 export function useRefreshTokenMutation() {
   const queryClient = useQueryClient();
@@ -114,36 +125,94 @@ export function useRefreshTokenMutation() {
     mutationFn: (refreshTokenValue: string) => refreshToken(refreshTokenValue),
 
     onSuccess: (data) => {
-      // Update tokens in localStorage
-      if (typeof window !== 'undefined') {
-        localStorage.setItem('auth_token', data.accessToken);
-        localStorage.setItem('refresh_token', data.refreshToken);
-        localStorage.setItem('auth_user', JSON.stringify(data.user));
-      }
+      // Update tokens in the storage chosen at login
+      tokenStorage.saveSession(data);
 
       // Invalidate auth-related queries
       queryClient.invalidateQueries({ queryKey: ['auth'] });
     },
 
     onError: (error) => {
+      // Logout (storage and cache cleanup) is handled by the AuthContext
       console.error('Refresh token error:', error);
-
-      // If refresh fails, clear data and redirect
-      if (typeof window !== 'undefined') {
-        localStorage.removeItem('auth_token');
-        localStorage.removeItem('refresh_token');
-        localStorage.removeItem('auth_user');
-
-        // Redirect to login
-        window.location.href = '/auth';
-      }
-
-      // Clear complete cache
-      queryClient.clear();
     },
 
     // Additional configuration
     retry: false, // Do not retry refresh automatically
     gcTime: 0, // Do not cache refresh mutations
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Hook for requesting a password reset link
+ */
+export function useForgotPasswordMutation() {
+  return useMutation({
+    mutationFn: (request: ForgotPasswordRequest) => requestPasswordReset(request),
+
+    onError: (error) => {
+      console.error('Forgot password error:', error);
+    },
+
+    retry: false, // Do not send the email twice
+    gcTime: 0,
+  });
+}
+
+/**
+ * Hook for setting a new password from a reset link
+ */
+export function useResetPasswordMutation() {
+  return useMutation({
+    mutationFn: (request: ResetPasswordRequest) => resetPassword(request),
+
+    onError: (error) => {
+      console.error('Reset password error:', error);
+    },
+
+    retry: false, // Reset tokens are single-use
+    gcTime: 0,
+  });
+}
+
+/**
+ * Hook for confirming an email address from a verification link
+ */
+export function useVerifyEmailMutation() {
+  return useMutation({
+    mutationFn: async (request: VerifyEmailRequest) => {
+      const result = await verifyEmail(request);
+
+      // Reload the signed-in user so its verified flag is up to date
+      // The link may also be opened without a session, or the reload may fail
+      const user = tokenStorage.getAccessToken()
+        ? await verifyToken().then(response => response.user as User).catch(() => null)
+        : null;
+
+      return { ...result, user };
+    },
+
+    onError: (error) => {
+      console.error('Email verification error:', error);
+    },
+
+    retry: false, // Verification tokens are single-use
+    gcTime: 0,
+  });
+}
+
+/**
+ * Hook for sending a new email verification link
+ */
+export function useResendVerificationMutation() {
+  return useMutation({
+    mutationFn: (request: ForgotPasswordRequest) => resendVerificationEmail(request),
+
+    onError: (error) => {
+      console.error('Resend verification error:', error);
+    },
+
+    retry: false,
+    gcTime: 0,
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Hook for the basemap chosen in the style switcher
+ * Persisted per user in localStorage on top of the user's default map style,
+ * until that preference changes
+ */
+
+import { useCallback, useState } from 'react';
+import { isBasemapStyle } from '@/lib/mapUtils';
+import { resolveUserPreferences } from '@/lib/preferences';
+import { secureStorageGet, secureStorageRemove, secureStorageSet } from '@/lib/utils';
+import type { User } from '@/types/auth';
+import type { BasemapStyle } from '@/types/map';
+
+/**
+ * Basemap chosen in the switcher, with the preference it overrides
+ */
+interface StoredBasemap {
+  style: BasemapStyle;
+  preference: BasemapStyle;
+}
+
+/**
+ * localStorage key of the basemap chosen by a user
+ */
+function getBasemapStorageKey(userId: string): string {
+  return `basemap_${userId}`;
+}
+
+/**
+ * Basemap to show: the stored choice, unless the preference has changed since it was made
+ * A stale choice is removed so the preference stays the source of truth
+ */
+function readBasemap(userId: string | undefined, preference: BasemapStyle): BasemapStyle {
+  if (!userId) return preference;
+
+  const key = getBasemapStorageKey(userId);
+  const stored = secureStorageGet<StoredBasemap>(key);
+  if (stored?.preference === preference && isBasemapStyle(stored.style)) {
+    return stored.style;
+  }
+
+  if (stored !== null) secureStorageRemove(key);
+  return preference;
+}
+
+/**
+ * Hook to read and change the basemap of the current user
+ */
+export function useBasemapStyle(user: User | null | undefined) {
+  const userId = user?.id;
+  const preference = resolveUserPreferences(user).mapStyle;
+
+  // Storage is read again when the user or their preference changes
+  const source = `${userId ?? ''}/${preference}`;
+  const [state, setState] = useState(() => ({ source, basemap: readBasemap(userId, preference) }));
+  if (state.source !== source) {
+    setState({ source, basemap: readBasemap(userId, preference) });
+  }
+
+  const setBasemap = useCallback((style: BasemapStyle) => {
+    setState({ source, basemap: style });
+    if (userId) {
+      secureStorageSet(getBasemapStorageKey(userId), { style, preference } satisfies StoredBasemap);
+    }
+  }, [source, userId, preference]);
+
+  return { basemap: state.basemap, setBasemap };
+}
+
+export default useBasemapStyle;
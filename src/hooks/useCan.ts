@@ -0,0 +1,17 @@
+/**
+ * @fileoverview Permission check for the current user
+ */
+
+import { useAuth } from '@/context/AuthContext';
+import { hasPermission } from '@/lib/permissions';
+import type { Permission } from '@/types/auth';
+
+/**
+ * Whether the current user has a permission
+ */
+export function useCan(permission: Permission): boolean {
+  const { user } = useAuth();
+  return hasPermission(user, permission);
+}
+
+export default useCan;
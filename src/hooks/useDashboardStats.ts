@@ -0,0 +1,50 @@
+/**
+ * @fileoverview TanStack Query hook for the dashboard statistics
+ * Fetches the user figures and computes the deltas against the previous period
+ */
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getUserStats } from '@/services/statsService';
+import type { StatDelta, StatsPeriod, UserStatsFigures } from '@/types/stats';
+
+/**
+ * Variation of a figure against the previous period
+ */
+export function calculateStatDelta(current: number, previous: number): StatDelta {
+  const value = current - previous;
+  return {
+    value,
+    percent: previous !== 0 ? (value / previous) * 100 : null,
+    trend: value > 0 ? 'positive' : value < 0 ? 'negative' : 'neutral',
+  };
+}
+
+/**
+ * Hook to get the dashboard statistics of the current user
+ */
+export function useDashboardStats(period: StatsPeriod = '30d') {
+  const query = useQuery({
+    queryKey: ['stats', period],
+    queryFn: () => getUserStats(period),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    gcTime: 1000 * 60 * 30, // 30 minutes in cache
+  });
+
+  const deltas = useMemo(() => {
+    if (!query.data) return null;
+    const { current, previous } = query.data;
+    const keys: Array<keyof UserStatsFigures> = ['savedMaps', 'analysedAois', 'inspectedHectares'];
+    return Object.fromEntries(
+      keys.map(key => [key, calculateStatDelta(current[key], previous[key])])
+    ) as Record<keyof UserStatsFigures, StatDelta>;
+  }, [query.data]);
+
+  return {
+    ...query,
+    stats: query.data,
+    deltas,
+  };
+}
+
+export default useDashboardStats;
@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Hook to import user datasets as map layers
+ * Reads the dropped files, keeps the resulting layers for the session and
+ * optionally stores them in the backend so they are loaded on every visit
+ */
+
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { ImportReport, UserLayer } from '@/types/map';
+import { importFile } from '@/lib/featureImport';
+import { generateLayerColor } from '@/lib/mapUtils';
+import {
+  createUserLayer,
+  deleteUserLayer,
+  getUserLayers,
+  USER_LAYER_OPACITY,
+  type UserLayerInput,
+} from '@/services/userLayersService';
+import { useCan } from './useCan';
+
+interface ImportOptions {
+  /** Store the layers in the backend */
+  persist?: boolean;
+}
+
+/**
+ * Hook with the imported layers and the import action of the maps page
+ */
+export function useDataImport(userId?: string) {
+  const queryClient = useQueryClient();
+  const canImport = useCan('data:import');
+
+  const [sessionLayers, setSessionLayers] = useState<UserLayer[]>([]);
+  const [reports, setReports] = useState<ImportReport[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  // Stored layers created by an import of this session
+  const [savedLayerIds, setSavedLayerIds] = useState<string[]>([]);
+
+  const query = useQuery({
+    queryKey: ['layers', 'user', userId],
+    queryFn: getUserLayers,
+    enabled: !!userId && canImport,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+
+  const invalidateUserLayers = () => {
+    queryClient.invalidateQueries({ queryKey: ['layers', 'user'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (input: UserLayerInput) => createUserLayer(input),
+    onSuccess: (layer) => {
+      setSavedLayerIds(prev => [...prev, layer.id]);
+      invalidateUserLayers();
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteUserLayer(id),
+    onSuccess: invalidateUserLayers,
+  });
+
+  const storedLayers = query.data;
+  const userLayers = useMemo(
+    () => [...(storedLayers ?? []), ...sessionLayers],
+    [storedLayers, sessionLayers]
+  );
+
+  const { mutateAsync: saveLayer } = createMutation;
+
+  /**
+   * Read files and add a layer for each dataset with valid features
+   * Layers that cannot be stored are kept for the session and the error is reported
+   */
+  const importFiles = useCallback(async (files: File[], { persist = false }: ImportOptions = {}) => {
+    setIsImporting(true);
+    const newReports: ImportReport[] = [];
+    const newLayers: UserLayer[] = [];
+    let colorIndex = userLayers.length;
+
+    for (const file of files) {
+      try {
+        const datasets = await importFile(file);
+
+        for (const dataset of datasets) {
+          const report: ImportReport = {
+            fileName: dataset.fileName,
+            layerName: dataset.name,
+            featureCount: dataset.geoData.features.length,
+            errors: dataset.errors,
+          };
+          newReports.push(report);
+          if (!dataset.geoData.features.length) continue;
+
+          const input: UserLayerInput = {
+            name: dataset.name,
+            color: generateLayerColor('user', colorIndex++),
+            format: dataset.format,
+            geoData: dataset.geoData,
+          };
+
+          if (persist) {
+            try {
+              await saveLayer(input);
+              continue;
+            } catch (saveError) {
+              report.error = `Not saved: ${saveError instanceof Error ? saveError.message : 'unexpected error'}`;
+            }
+          }
+
+          newLayers.push({
+            ...input,
+            id: `import-${Date.now()}-${newLayers.length}`,
+            type: 'user',
+            visible: true,
+            opacity: USER_LAYER_OPACITY,
+            persisted: false,
+          });
+        }
+      } catch (error) {
+        newReports.push({
+          fileName: file.name,
+          featureCount: 0,
+          errors: [],
+          error: error instanceof Error ? error.message : 'The file could not be read',
+        });
+      }
+    }
+
+    setSessionLayers(prev => [...prev, ...newLayers]);
+    setReports(newReports);
+    setIsImporting(false);
+  }, [userLayers.length, saveLayer]);
+
+  /**
+   * Remove an imported layer, deleting it from the backend if it was stored
+   */
+  const { mutate: deleteStoredLayer } = deleteMutation;
+  const removeLayer = useCallback((id: string) => {
+    const layer = userLayers.find(item => item.id === id);
+    if (layer?.persisted) {
+      deleteStoredLayer(id);
+    } else {
+      setSessionLayers(prev => prev.filter(item => item.id !== id));
+    }
+  }, [userLayers, deleteStoredLayer]);
+
+  const clearReports = useCallback(() => setReports([]), []);
+
+  // Layers imported in this session, stored or not
+  const importedLayerIds = useMemo(
+    () => [...savedLayerIds, ...sessionLayers.map(layer => layer.id)],
+    [savedLayerIds, sessionLayers]
+  );
+
+  return {
+    userLayers,
+    importedLayerIds,
+    isLoading: query.isLoading,
+    error: query.error ?? deleteMutation.error,
+    reports,
+    isImporting,
+    importFiles,
+    removeLayer,
+    clearReports,
+  };
+}
+
+export default useDataImport;
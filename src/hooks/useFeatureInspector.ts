@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Hook to manage the feature inspector of the map
+ * Keeps the pinned features, the one being inspected and its highlight state
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { MapRef } from 'react-map-gl/mapbox';
+import type { GeoJSONFeature } from 'mapbox-gl';
+
+/**
+ * Prefixes of the map layers whose features can be inspected
+ * Classified by layer rather than by properties, which vector tile features may lack
+ */
+const INSPECTABLE_LAYER_PREFIXES = ['forest-', 'cadastre-'];
+
+export interface UseFeatureInspectorReturn {
+  /** Features pinned under the last click */
+  inspectedFeatures: GeoJSONFeature[];
+  /** Feature currently shown in the inspector */
+  selectedFeature: GeoJSONFeature | null;
+  /** Index of the selected feature in inspectedFeatures */
+  selectedIndex: number;
+  /** Pin the inspectable features of a click */
+  inspectFeatures: (features: GeoJSONFeature[]) => void;
+  /** Show the next overlapping feature */
+  selectNext: () => void;
+  /** Show the previous overlapping feature */
+  selectPrevious: () => void;
+  /** Unpin and close the inspector */
+  clearInspection: () => void;
+}
+
+/**
+ * Identify a rendered feature independently of the layer that returned it
+ * (fill and line layers of the same source return the same feature)
+ */
+function getFeatureKey(feature: GeoJSONFeature): string {
+  return `${feature.source}:${feature.sourceLayer ?? ''}:${feature.id ?? feature.properties?.id}`;
+}
+
+/**
+ * Hook for the feature inspector panel
+ * Highlights the selected geometry through the `selected` feature-state
+ * @param styleVersion - Changes when the basemap is switched, which clears feature-states
+ */
+export function useFeatureInspector(
+  mapRef: React.RefObject<MapRef | null>,
+  styleVersion = 0
+): UseFeatureInspectorReturn {
+  const [inspectedFeatures, setInspectedFeatures] = useState<GeoJSONFeature[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const selectedFeature = inspectedFeatures[selectedIndex] ?? null;
+
+  /**
+   * Pin the forest and cadastre features under the cursor
+   * Clicking where there is nothing inspectable closes the inspector
+   */
+  const inspectFeatures = useCallback((features: GeoJSONFeature[]) => {
+    const seen = new Set<string>();
+    const inspectable = features.filter(feature => {
+      const layerId = feature.layer?.id ?? '';
+      if (!INSPECTABLE_LAYER_PREFIXES.some(prefix => layerId.startsWith(prefix))) return false;
+      const key = getFeatureKey(feature);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    setInspectedFeatures(inspectable);
+    setSelectedIndex(0);
+  }, []);
+
+  const selectNext = useCallback(() => {
+    setSelectedIndex(index => (inspectedFeatures.length ? (index + 1) % inspectedFeatures.length : 0));
+  }, [inspectedFeatures.length]);
+
+  const selectPrevious = useCallback(() => {
+    setSelectedIndex(index => (
+      inspectedFeatures.length
+        ? (index - 1 + inspectedFeatures.length) % inspectedFeatures.length
+        : 0
+    ));
+  }, [inspectedFeatures.length]);
+
+  const clearInspection = useCallback(() => {
+    setInspectedFeatures([]);
+    setSelectedIndex(0);
+  }, []);
+
+  /**
+   * Feature-state target of the selected feature
+   * Only features with an id (promoted from properties.id) can be highlighted
+   */
+  const highlightTarget = useMemo(() => {
+    if (!selectedFeature?.source || selectedFeature.id === undefined) return null;
+    return {
+      source: selectedFeature.source,
+      sourceLayer: selectedFeature.sourceLayer,
+      id: selectedFeature.id,
+    };
+  }, [selectedFeature]);
+
+  /**
+   * Effect to keep the highlight in sync with the selected feature
+   */
+  useEffect(() => {
+    const map = mapRef.current?.getMap();
+    if (!map || !highlightTarget || !map.getSource(highlightTarget.source)) return;
+
+    map.setFeatureState(highlightTarget, { selected: true });
+
+    return () => {
+      // The source may be gone if the layer was removed meanwhile
+      if (map.getSource(highlightTarget.source)) {
+        map.removeFeatureState(highlightTarget, 'selected');
+      }
+    };
+  }, [mapRef, highlightTarget, styleVersion]);
+
+  return {
+    inspectedFeatures,
+    selectedFeature,
+    selectedIndex,
+    inspectFeatures,
+    selectNext,
+    selectPrevious,
+    clearInspection,
+  };
+}
+
+export default useFeatureInspector;
@@ -19,7 +19,8 @@ import type {
   FrenchCommune,
   TreeSpecies,
   CadastreParcel,
-  GeospatialQuery
+  GeospatialQuery,
+  AdministrativeLevel
 } from '@/types/map';
 
 /**
@@ -64,7 +65,7 @@ export function useCommunes(departmentCode?: string) {
  * Hook to get administrative boundary (for zoom)
  */
 export function useAdministrativeBoundary(
-  type?: 'region' | 'departement' | 'commune',
+  type?: AdministrativeLevel,
   code?: string
 ) {
   return useQuery({
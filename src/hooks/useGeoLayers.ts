@@ -5,21 +5,47 @@
 
 'use client';
 
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueries, type UseQueryResult } from '@tanstack/react-query';
 import { useMemo } from 'react';
 import { useDebounce } from './useDebounce';
-import { getForestLayers, getCadastreLayers } from '@/services/geoService';
+import { getForestTile, createForestLayers, getCadastreLayers } from '@/services/geoService';
+import {
+  calculateBoundingBox,
+  filterFeaturesInArea,
+  getGeometryBoundingBox,
+  getViewportTiles,
+  intersectBoundingBoxes
+} from '@/lib/mapUtils';
 import type { 
   ForestLayer, 
+  ForestTileData,
   CadastreLayer, 
   GeospatialQuery, 
   MapFilters,
   MapViewState 
 } from '@/types/map';
 
+/**
+ * Combina los resultados de las queries de tiles forestales en un único estado
+ * Declarada a nivel de módulo para que TanStack Query memoice el resultado
+ */
+function combineForestTiles(results: UseQueryResult<ForestTileData>[]) {
+  return {
+    features: results.flatMap(result => result.data?.features ?? []),
+    isTruncated: results.some(result => result.data?.truncated),
+    isLoading: results.some(result => result.isLoading),
+    error: results.find(result => result.error)?.error ?? null,
+    refetch: () => {
+      results.forEach(result => result.refetch());
+    },
+  };
+}
+
 interface UseGeoLayersProps {
   viewState: MapViewState;
   filters: MapFilters;
+  /** Área a la que se recortan los datos (p.ej. contorno administrativo) */
+  clipArea?: GeoJSON.Polygon | GeoJSON.MultiPolygon | null;
   enabled?: boolean;
 }
 
@@ -27,6 +53,8 @@ interface UseGeoLayersReturn {
   forestLayers: ForestLayer[];
   cadastreLayers: CadastreLayer[];
   isLoadingForest: boolean;
+  /** Si algún tile superó el máximo de páginas y faltan parcelas forestales */
+  isForestTruncated: boolean;
   isLoadingCadastre: boolean;
   forestError: Error | null;
   cadastreError: Error | null;
@@ -41,6 +69,7 @@ interface UseGeoLayersReturn {
 export function useGeoLayers({
   viewState,
   filters,
+  clipArea,
   enabled = true
 }: UseGeoLayersProps): UseGeoLayersReturn {
 
@@ -50,62 +79,98 @@ export function useGeoLayers({
   const debouncedViewState = useDebounce(viewState, 300);
   
   /**
-   * Crear query para optimizar consultas basadas en vista y filtros
+   * Bounding box a consultar: el viewport, recortado al área si la hay
+   * Es null cuando el viewport queda fuera del área
+   */
+  const queryBbox = useMemo(() => {
+    const viewportBbox = calculateBoundingBox(
+      { lat: debouncedViewState.latitude, lng: debouncedViewState.longitude },
+      debouncedViewState.zoom
+    );
+    return clipArea
+      ? intersectBoundingBoxes(viewportBbox, getGeometryBoundingBox(clipArea))
+      : viewportBbox;
+  }, [debouncedViewState, clipArea]);
+
+  /**
+   * Query basada en vista y filtros
    * Nota: treeSpecies se filtra solo en frontend, no se envía al backend
    */
   const geoQuery = useMemo<GeospatialQuery>(() => ({
     zoom: Math.round(debouncedViewState.zoom),
-    bbox: [
-      debouncedViewState.longitude - 0.5,
-      debouncedViewState.latitude - 0.5,
-      debouncedViewState.longitude + 0.5,
-      debouncedViewState.latitude + 0.5
-    ],
+    bbox: queryBbox ?? undefined,
     filters: {
       ...filters,
       treeSpecies: undefined, // No enviar treeSpecies al backend
     },
     limit: 100,
-  }), [debouncedViewState, filters]);
+  }), [debouncedViewState, queryBbox, filters]);
+
+  /**
+   * Tiles que cubren el viewport actual
+   * Cada tile se cachea por separado: al desplazar el mapa solo se piden los nuevos
+   */
+  const forestTiles = useMemo(
+    () => (queryBbox ? getViewportTiles(queryBbox, debouncedViewState.zoom) : []),
+    [queryBbox, debouncedViewState.zoom]
+  );
+
+  /**
+   * Filtros que se envían al backend con cada tile, y solo esos en la clave de la query
+   * El AOI dibujado es el filtro espacial; la unidad administrativa y las especies
+   * se aplican en el cliente y cambiarlas no vuelve a pedir los tiles
+   */
+  const forestFilters = useMemo<MapFilters>(() => ({
+    aoi: filters.aoi,
+    showCadastre: false,
+  }), [filters.aoi]);
 
   /**
-   * Query para capas forestales
+   * Queries para capas forestales, una por tile
    */
   const {
-    data: forestLayers = [],
+    features: forestFeatures,
+    isTruncated: isForestTruncated,
     isLoading: isLoadingForest,
     error: forestError,
     refetch: refetchForest
-  } = useQuery({
-    queryKey: ['geoLayers', 'forest', {
-      ...geoQuery,
-      filters: {
-        ...geoQuery.filters,
-        treeSpecies: undefined, // Excluir treeSpecies del queryKey para evitar re-queries
-      }
-    }],
-    queryFn: () => getForestLayers(geoQuery),
-    enabled: enabled,
-    staleTime: 5 * 60 * 1000, // 5 minutos
-    gcTime: 10 * 60 * 1000, // 10 minutos
-    refetchOnWindowFocus: false,
-    refetchOnMount: false,
-    retry: 2,
+  } = useQueries({
+    queries: forestTiles.map(tile => ({
+      queryKey: ['geoLayers', 'forest', 'tile', tile.z, tile.x, tile.y, forestFilters],
+      // Páginas del tamaño por defecto del servicio, más grandes que las de geoQuery
+      queryFn: () => getForestTile(tile, { filters: forestFilters }),
+      enabled: enabled,
+      staleTime: 5 * 60 * 1000, // 5 minutos
+      gcTime: 10 * 60 * 1000, // 10 minutos
+      refetchOnWindowFocus: false,
+      refetchOnMount: false,
+      retry: 2,
+    })),
+    combine: combineForestTiles,
   });
 
+  /**
+   * Agrupar los features de todos los tiles en capas por especie
+   * El recorte al área es una salvaguarda: el backend ya filtra por el AOI
+   */
+  const forestLayers = useMemo(
+    () => createForestLayers(clipArea ? filterFeaturesInArea(forestFeatures, clipArea) : forestFeatures),
+    [forestFeatures, clipArea]
+  );
+
   /**
    * Query para capas de cadastre
    * Solo se carga si el filtro está activo
    */
   const {
-    data: cadastreLayers = [],
+    data: fetchedCadastreLayers = [],
     isLoading: isLoadingCadastre,
     error: cadastreError,
     refetch: refetchCadastre
   } = useQuery({
     queryKey: ['geoLayers', 'cadastre', geoQuery],
     queryFn: () => getCadastreLayers(geoQuery),
-    enabled: enabled && filters.showCadastre && viewState.zoom >= 14,
+    enabled: enabled && !!queryBbox && filters.showCadastre && viewState.zoom >= 14,
     staleTime: 10 * 60 * 1000, // 10 minutos para cadastre
     gcTime: 20 * 60 * 1000, // 20 minutos
     refetchOnWindowFocus: false,
@@ -113,6 +178,20 @@ export function useGeoLayers({
     retry: 1,
   });
 
+  /**
+   * Recortar las parcelas catastrales al área activa
+   */
+  const cadastreLayers = useMemo<CadastreLayer[]>(() => {
+    if (!clipArea) return fetchedCadastreLayers;
+    return fetchedCadastreLayers.map(layer => ({
+      ...layer,
+      geoData: {
+        ...layer.geoData,
+        features: filterFeaturesInArea(layer.geoData.features, clipArea),
+      },
+    }));
+  }, [fetchedCadastreLayers, clipArea]);
+
   /**
    * Filtrar capas forestales según filtros activos
    */
@@ -128,6 +207,7 @@ export function useGeoLayers({
     forestLayers: filteredForestLayers,
     cadastreLayers,
     isLoadingForest,
+    isForestTruncated,
     isLoadingCadastre,
     forestError: forestError as Error | null,
     cadastreError: cadastreError as Error | null,
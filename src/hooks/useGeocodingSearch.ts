@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Hook for the place search box of the map
+ * Debounces the typed text, queries the geocoding provider and resolves the
+ * administrative units of the chosen result
+ */
+
+'use client';
+
+import { useCallback, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import type { AdministrativeUnits, GeocodingResult } from '@/types/map';
+import geocodingService, { type GeocodingProvider } from '@/services/geocodingService';
+import { useDebounce } from './useDebounce';
+
+/**
+ * Shortest text sent to the provider
+ */
+const MIN_QUERY_LENGTH = 2;
+
+interface UseGeocodingSearchProps {
+  /** Search provider, the public French APIs by default */
+  provider?: GeocodingProvider;
+  /** INSEE code of the selected commune, for parcel references typed without it */
+  commune?: string;
+}
+
+/**
+ * Hook with the text, the results and the unit lookup of the place search
+ */
+export function useGeocodingSearch({ provider = geocodingService, commune }: UseGeocodingSearchProps = {}) {
+  const [query, setQuery] = useState('');
+  const debouncedQuery = useDebounce(query.trim(), 300);
+
+  const searchQuery = useQuery({
+    queryKey: ['geocoding', debouncedQuery, commune],
+    queryFn: ({ signal }) => provider.search(debouncedQuery, { commune, signal }),
+    enabled: debouncedQuery.length >= MIN_QUERY_LENGTH,
+    staleTime: 1000 * 60 * 10, // 10 minutes
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+
+  /**
+   * Region, department and commune of a result, looked up by position when the provider did not return them
+   */
+  const resolveUnits = useCallback(async (result: GeocodingResult): Promise<AdministrativeUnits | null> => {
+    if (result.units) return result.units;
+    try {
+      return await provider.locate(result.center[0], result.center[1]);
+    } catch {
+      return null;
+    }
+  }, [provider]);
+
+  const clear = useCallback(() => setQuery(''), []);
+
+  const hasQuery = debouncedQuery.length >= MIN_QUERY_LENGTH;
+
+  return {
+    query,
+    setQuery,
+    clear,
+    results: hasQuery ? searchQuery.data ?? [] : [],
+    isSearching: hasQuery && searchQuery.isFetching,
+    error: hasQuery ? searchQuery.error : null,
+    resolveUnits,
+  };
+}
+
+export default useGeocodingSearch;
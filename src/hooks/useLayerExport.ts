@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Hook to export the visible map layers to GIS files
+ * Collects the features of the visible forest and cadastre layers, optionally keeps only
+ * those inside the area of interest or the administrative boundary, and downloads the file
+ */
+
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import type { CadastreLayer, ExportClipArea, ExportFormat, ExportLayer, ForestLayer } from '@/types/map';
+import { CADASTRE_OWNER_PROPERTIES, filterFeaturesInArea, omitFeatureProperties } from '@/lib/mapUtils';
+import { exportLayers } from '@/lib/featureExport';
+import { downloadFile } from '@/lib/utils';
+import { useCan } from './useCan';
+
+interface UseLayerExportProps {
+  forestLayers: ForestLayer[];
+  cadastreLayers: CadastreLayer[];
+  /** Whether the cadastre is shown on the map */
+  showCadastre: boolean;
+  /** Drawn area of interest */
+  aoi?: GeoJSON.Polygon;
+  /** Geometry of the selected administrative unit */
+  boundary?: GeoJSON.Polygon | GeoJSON.MultiPolygon | null;
+}
+
+/**
+ * Hook with the export action of the maps page
+ */
+export function useLayerExport({
+  forestLayers,
+  cadastreLayers,
+  showCadastre,
+  aoi,
+  boundary,
+}: UseLayerExportProps) {
+  const canViewCadastre = useCan('cadastre:view');
+  const canViewOwner = useCan('cadastre:owner:view');
+  const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  // Visible layers, without the owner data the user is not allowed to see
+  const visibleLayers = useMemo<ExportLayer[]>(() => {
+    const forest = forestLayers
+      .filter(layer => layer.visible)
+      .map(layer => ({ name: layer.name, features: layer.geoData.features }));
+
+    const cadastre = canViewCadastre && showCadastre
+      ? cadastreLayers
+        .filter(layer => layer.visible)
+        .map(layer => ({
+          name: layer.name,
+          features: canViewOwner
+            ? layer.geoData.features
+            : omitFeatureProperties(layer.geoData, CADASTRE_OWNER_PROPERTIES).features,
+        }))
+      : [];
+
+    return [...forest, ...cadastre].filter(layer => layer.features.length > 0);
+  }, [forestLayers, cadastreLayers, showCadastre, canViewCadastre, canViewOwner]);
+
+  const clipAreas = useMemo<ExportClipArea[]>(
+    () => ['none', ...(aoi ? ['aoi' as const] : []), ...(boundary ? ['boundary' as const] : [])],
+    [aoi, boundary]
+  );
+
+  const featureCount = visibleLayers.reduce((sum, layer) => sum + layer.features.length, 0);
+
+  /**
+   * Write the visible layers in a format and download the file
+   */
+  const exportData = useCallback((format: ExportFormat, clipArea: ExportClipArea = 'none') => {
+    const area = clipArea === 'aoi' ? aoi : clipArea === 'boundary' ? boundary : null;
+    const layers = visibleLayers
+      .map(layer => ({ ...layer, features: area ? filterFeaturesInArea(layer.features, area) : layer.features }))
+      .filter(layer => layer.features.length > 0);
+
+    setWarning(null);
+    if (layers.length === 0) {
+      setError('There are no visible features to export');
+      return;
+    }
+
+    try {
+      const date = new Date().toISOString().slice(0, 10);
+      const { blob, fileName, skippedGeometryCount } = exportLayers(layers, format, `forest-map-${date}`);
+      downloadFile(blob, fileName);
+      setError(null);
+      if (skippedGeometryCount > 0) {
+        setWarning(
+          `${skippedGeometryCount} ${skippedGeometryCount === 1 ? 'feature was' : 'features were'} ` +
+          'exported without geometry: mixed geometry collections cannot be written in this format'
+        );
+      }
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : 'The export failed');
+    }
+  }, [visibleLayers, aoi, boundary]);
+
+  return {
+    exportData,
+    clipAreas,
+    layerCount: visibleLayers.length,
+    featureCount,
+    error,
+    warning,
+  };
+}
+
+export default useLayerExport;
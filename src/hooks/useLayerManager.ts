@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Layer manager store - order, opacity, solo and mute of map layers
+ * Single source of truth for how the forest, cadastre and user layers are drawn
+ */
+
+import { useCallback, useEffect, useMemo, useReducer } from 'react';
+import type { LayerManagerState } from '@/types/map';
+
+/**
+ * Defaults of a layer handed to the manager
+ */
+export interface ManagedLayerDefaults {
+  id: string;
+  opacity: number;
+  /** Initial visibility, ignoring the restored session (e.g. a layer just imported) */
+  visible?: boolean;
+}
+
+type LayerManagerAction =
+  | { type: 'SYNC_LAYERS'; payload: ManagedLayerDefaults[] }
+  | { type: 'TOGGLE_MUTE'; payload: string }
+  | { type: 'TOGGLE_SOLO'; payload: string }
+  | { type: 'SET_OPACITY'; payload: { id: string; opacity: number } }
+  | { type: 'MOVE_LAYER'; payload: { id: string; toIndex: number } }
+  | { type: 'SET_VISIBLE_LAYERS'; payload: string[] | null };
+
+const initialLayerManagerState: LayerManagerState = {
+  order: [],
+  layers: {},
+  soloIds: [],
+  restoredVisibleIds: null,
+};
+
+/**
+ * Merge the known order with the incoming layers
+ * Layers the user already placed keep their position; new layers are inserted
+ * above the next known layer of the incoming list, or at the bottom
+ */
+function mergeLayerOrder(order: string[], incomingIds: string[]): string[] {
+  const incoming = new Set(incomingIds);
+  const merged = order.filter(id => incoming.has(id));
+
+  incomingIds.forEach((id, index) => {
+    if (merged.includes(id)) return;
+    const nextKnown = incomingIds.slice(index + 1).find(nextId => merged.includes(nextId));
+    if (nextKnown) {
+      merged.splice(merged.indexOf(nextKnown), 0, id);
+    } else {
+      merged.push(id);
+    }
+  });
+
+  return merged;
+}
+
+function clampOpacity(opacity: number): number {
+  if (!Number.isFinite(opacity)) return 1;
+  return Math.min(1, Math.max(0, opacity));
+}
+
+/**
+ * Reducer of the layer manager
+ */
+function layerManagerReducer(state: LayerManagerState, action: LayerManagerAction): LayerManagerState {
+  switch (action.type) {
+    case 'SYNC_LAYERS': {
+      const order = mergeLayerOrder(state.order, action.payload.map(layer => layer.id));
+      const unchanged = order.length === state.order.length
+        && order.every((id, index) => state.order[index] === id);
+      if (unchanged) return state;
+
+      // Settings of layers that drop out (e.g. panned away) are kept for when they come back
+      const layers = { ...state.layers };
+      action.payload.forEach(layer => {
+        layers[layer.id] ??= {
+          opacity: clampOpacity(layer.opacity),
+          // Layers of a restored session stay hidden unless the session showed them
+          muted: layer.visible !== undefined
+            ? !layer.visible
+            : !!state.restoredVisibleIds && !state.restoredVisibleIds.includes(layer.id),
+        };
+      });
+
+      return {
+        ...state,
+        order,
+        layers,
+        soloIds: state.soloIds.filter(id => order.includes(id)),
+      };
+    }
+
+    case 'TOGGLE_MUTE': {
+      const entry = state.layers[action.payload];
+      if (!entry) return state;
+      return {
+        ...state,
+        layers: { ...state.layers, [action.payload]: { ...entry, muted: !entry.muted } },
+      };
+    }
+
+    case 'TOGGLE_SOLO':
+      if (!state.order.includes(action.payload)) return state;
+      return {
+        ...state,
+        soloIds: state.soloIds.includes(action.payload)
+          ? state.soloIds.filter(id => id !== action.payload)
+          : [...state.soloIds, action.payload],
+      };
+
+    case 'SET_OPACITY': {
+      const entry = state.layers[action.payload.id];
+      if (!entry) return state;
+      return {
+        ...state,
+        layers: {
+          ...state.layers,
+          [action.payload.id]: { ...entry, opacity: clampOpacity(action.payload.opacity) },
+        },
+      };
+    }
+
+    case 'MOVE_LAYER': {
+      const fromIndex = state.order.indexOf(action.payload.id);
+      if (fromIndex === -1) return state;
+      const toIndex = Math.min(state.order.length - 1, Math.max(0, action.payload.toIndex));
+      if (fromIndex === toIndex) return state;
+
+      const order = [...state.order];
+      order.splice(fromIndex, 1);
+      order.splice(toIndex, 0, action.payload.id);
+      return { ...state, order };
+    }
+
+    case 'SET_VISIBLE_LAYERS': {
+      const visibleIds = action.payload;
+      const layers: LayerManagerState['layers'] = {};
+      Object.entries(state.layers).forEach(([id, entry]) => {
+        layers[id] = { ...entry, muted: visibleIds ? !visibleIds.includes(id) : false };
+      });
+      return { ...state, layers, soloIds: [], restoredVisibleIds: visibleIds };
+    }
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * Hook holding the layer-state store
+ * @param managedLayers - Layers to manage, top-most first
+ */
+export function useLayerManager(managedLayers: ManagedLayerDefaults[]) {
+  const [state, dispatch] = useReducer(layerManagerReducer, initialLayerManagerState);
+
+  // Keep the store in sync with the layers that are loaded
+  useEffect(() => {
+    dispatch({ type: 'SYNC_LAYERS', payload: managedLayers });
+  }, [managedLayers]);
+
+  /**
+   * Whether a layer is drawn: not muted and, when any layer is soloed, soloed itself
+   */
+  const isLayerVisible = useCallback((id: string): boolean => {
+    const entry = state.layers[id];
+    if (!entry) return false;
+    if (state.soloIds.length > 0) return state.soloIds.includes(id);
+    return !entry.muted;
+  }, [state.layers, state.soloIds]);
+
+  const visibleLayerIds = useMemo(
+    () => state.order.filter(isLayerVisible),
+    [state.order, isLayerVisible]
+  );
+
+  /**
+   * Apply the store to a list of layers: visibility and opacity from the store,
+   * sorted top-most first
+   */
+  const applyLayerState = useCallback(<T extends { id: string; visible: boolean; opacity: number }>(
+    layers: T[]
+  ): T[] => {
+    const rank = (id: string) => {
+      const index = state.order.indexOf(id);
+      return index === -1 ? state.order.length : index;
+    };
+
+    return layers
+      .map(layer => ({
+        ...layer,
+        visible: isLayerVisible(layer.id),
+        opacity: state.layers[layer.id]?.opacity ?? layer.opacity,
+      }))
+      .sort((a, b) => rank(a.id) - rank(b.id));
+  }, [state.order, state.layers, isLayerVisible]);
+
+  const toggleMute = useCallback((id: string) => {
+    dispatch({ type: 'TOGGLE_MUTE', payload: id });
+  }, []);
+
+  const toggleSolo = useCallback((id: string) => {
+    dispatch({ type: 'TOGGLE_SOLO', payload: id });
+  }, []);
+
+  const setOpacity = useCallback((id: string, opacity: number) => {
+    dispatch({ type: 'SET_OPACITY', payload: { id, opacity } });
+  }, []);
+
+  const moveLayer = useCallback((id: string, toIndex: number) => {
+    dispatch({ type: 'MOVE_LAYER', payload: { id, toIndex } });
+  }, []);
+
+  /**
+   * Show exactly these layers (e.g. from a saved map or a shared link)
+   * Also applies to layers that have not loaded yet; null shows every layer
+   */
+  const setVisibleLayers = useCallback((ids: string[] | null) => {
+    dispatch({ type: 'SET_VISIBLE_LAYERS', payload: ids });
+  }, []);
+
+  return {
+    layerState: state,
+    layerOrder: state.order,
+    visibleLayerIds,
+    isLayerVisible,
+    applyLayerState,
+    toggleMute,
+    toggleSolo,
+    setOpacity,
+    moveLayer,
+    setVisibleLayers,
+  };
+}
+
+export default useLayerManager;
@@ -0,0 +1,235 @@
+/**
+ * @fileoverview Hook to print the map to PNG or PDF
+ * Renders the current view again in an offscreen map at the print resolution,
+ * composes the page (title, legend, scale bar, north arrow, credits) and downloads it
+ */
+
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import type { Map as MapboxMap } from 'mapbox-gl';
+import type {
+  CadastreLayer,
+  ForestLayer,
+  LegendItem,
+  MapConfig,
+  MapFilters,
+  PrintOptions,
+  TreeSpecies,
+  UserLayer,
+} from '@/types/map';
+import { generateLayerColor, getSpeciesColor } from '@/lib/mapUtils';
+import {
+  drawPrintPage,
+  getMetersPerPixel,
+  getPrintLayout,
+  PRINT_ATTRIBUTION,
+  SCREEN_DPI,
+} from '@/lib/printLayout';
+import { createImagePdf } from '@/lib/pdf';
+import { toFileName } from '@/lib/featureExport';
+import { downloadFile, formatDate } from '@/lib/utils';
+import { useCan } from './useCan';
+
+/**
+ * Longest wait for the offscreen map to load its tiles
+ */
+const RENDER_TIMEOUT_MS = 60000;
+
+const JPEG_QUALITY = 0.92;
+
+interface UseMapPrintProps {
+  config: MapConfig;
+  filters: MapFilters;
+  layers: ForestLayer[];
+  cadastreLayers: CadastreLayer[];
+  userLayers: UserLayer[];
+  treeSpecies: TreeSpecies[];
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('The page is too large for this browser'))),
+      type,
+      quality
+    );
+  });
+}
+
+/**
+ * Render a copy of a map in a hidden container and wait until every tile is drawn
+ * The device pixel ratio is raised while the map exists so it draws at the print resolution
+ */
+async function renderOffscreenMap(
+  source: MapboxMap,
+  accessToken: string,
+  size: { width: number; height: number },
+  zoom: number,
+  pixelRatio: number,
+  draw: (canvas: HTMLCanvasElement) => void
+): Promise<void> {
+  const { default: mapboxgl } = await import('mapbox-gl');
+
+  const container = document.createElement('div');
+  Object.assign(container.style, {
+    position: 'fixed',
+    left: '-100000px',
+    top: '0',
+    width: `${size.width}px`,
+    height: `${size.height}px`,
+  });
+  document.body.appendChild(container);
+
+  const ratioDescriptor = Object.getOwnPropertyDescriptor(window, 'devicePixelRatio');
+  Object.defineProperty(window, 'devicePixelRatio', { configurable: true, get: () => pixelRatio });
+
+  let printMap: MapboxMap | null = null;
+  try {
+    const map = new mapboxgl.Map({
+      container,
+      accessToken,
+      style: source.getStyle(),
+      center: source.getCenter(),
+      zoom,
+      bearing: source.getBearing(),
+      pitch: source.getPitch(),
+      interactive: false,
+      attributionControl: false,
+      preserveDrawingBuffer: true,
+      fadeDuration: 0,
+    });
+    printMap = map;
+
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('The map took too long to render')), RENDER_TIMEOUT_MS);
+      map.once('idle', () => {
+        clearTimeout(timeout);
+        resolve();
+      });
+    });
+
+    draw(map.getCanvas());
+  } finally {
+    printMap?.remove();
+    container.remove();
+    if (ratioDescriptor) {
+      Object.defineProperty(window, 'devicePixelRatio', ratioDescriptor);
+    } else {
+      delete (window as { devicePixelRatio?: number }).devicePixelRatio;
+    }
+  }
+}
+
+/**
+ * Hook with the legend and the print action of the map viewer
+ */
+export function useMapPrint({ config, filters, layers, cadastreLayers, userLayers, treeSpecies }: UseMapPrintProps) {
+  const canViewCadastre = useCan('cadastre:view');
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Species of the visible forest features, then cadastre and imported layers
+  const legend = useMemo<LegendItem[]>(() => {
+    const speciesFilter = filters.treeSpecies ?? [];
+    const speciesIds = new Set<string>();
+    layers
+      .filter(layer => layer.visible)
+      .filter(layer => !speciesFilter.length || (layer.species && speciesFilter.includes(layer.species)))
+      .forEach(layer => {
+        layer.geoData.features.forEach(feature => {
+          const speciesId = feature.properties?.speciesId ?? layer.species;
+          if (speciesId) speciesIds.add(speciesId);
+        });
+      });
+
+    const species = [...speciesIds]
+      .map(id => ({
+        label: treeSpecies.find(item => item.id === id)?.name ?? id,
+        color: getSpeciesColor(id, treeSpecies),
+      }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+
+    const cadastre = canViewCadastre && filters.showCadastre
+      ? cadastreLayers
+        .filter(layer => layer.visible)
+        .map((layer, index) => ({ label: layer.name, color: generateLayerColor('parcel', index) }))
+      : [];
+
+    const imported = userLayers
+      .filter(layer => layer.visible)
+      .map(layer => ({ label: layer.name, color: layer.color }));
+
+    return [...species, ...cadastre, ...imported];
+  }, [layers, cadastreLayers, userLayers, treeSpecies, filters.treeSpecies, filters.showCadastre, canViewCadastre]);
+
+  /**
+   * Print the current view of a map with the chosen page settings
+   */
+  const print = useCallback(async (map: MapboxMap | undefined, options: PrintOptions) => {
+    if (!map) return;
+
+    setIsPrinting(true);
+    setError(null);
+    try {
+      const layout = getPrintLayout(options.paperSize, options.orientation, options.dpi);
+      const pixelRatio = options.dpi / SCREEN_DPI;
+
+      // Frame in CSS pixels, zoomed so it shows at least the area visible on screen
+      const frame = {
+        width: Math.round(layout.map.width / pixelRatio),
+        height: Math.round(layout.map.height / pixelRatio),
+      };
+      const view = map.getContainer();
+      const zoom = map.getZoom() + Math.log2(
+        Math.min(frame.width / view.clientWidth, frame.height / view.clientHeight)
+      );
+
+      const canvas = document.createElement('canvas');
+      canvas.width = layout.width;
+      canvas.height = layout.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas is not supported by this browser');
+
+      await renderOffscreenMap(map, config.accessToken, frame, zoom, pixelRatio, mapCanvas => {
+        drawPrintPage(ctx, layout, {
+          mapImage: mapCanvas,
+          title: options.title,
+          legend,
+          bearing: map.getBearing(),
+          metersPerPixel: (getMetersPerPixel(map.getCenter().lat, zoom) * frame.width) / layout.map.width,
+          units: config.units,
+          attribution: PRINT_ATTRIBUTION,
+          date: formatDate(new Date()),
+        });
+      });
+
+      const baseName = `${toFileName(options.title || 'forest-map')}-${new Date().toISOString().slice(0, 10)}`;
+      if (options.format === 'pdf') {
+        const jpeg = await canvasToBlob(canvas, 'image/jpeg', JPEG_QUALITY);
+        const pdf = createImagePdf(
+          new Uint8Array(await jpeg.arrayBuffer()),
+          { width: canvas.width, height: canvas.height },
+          layout.paper,
+          options.title
+        );
+        downloadFile(new Blob([pdf], { type: 'application/pdf' }), `${baseName}.pdf`);
+      } else {
+        downloadFile(await canvasToBlob(canvas, 'image/png'), `${baseName}.png`);
+      }
+    } catch (printError) {
+      setError(printError instanceof Error ? printError.message : 'The map could not be printed');
+    } finally {
+      setIsPrinting(false);
+    }
+  }, [config.accessToken, config.units, legend]);
+
+  return {
+    legend,
+    print,
+    isPrinting,
+    error,
+  };
+}
+
+export default useMapPrint;
@@ -7,7 +7,10 @@
 
 import { useCallback, useRef, useState, useEffect } from 'react';
 import type { MapRef, ViewStateChangeEvent } from 'react-map-gl/mapbox';
-import type { MapViewState, MapConfig, MapFilters } from '@/types/map';
+import type { MapViewState, MapConfig, MapFilters, DrawMode, MeasureMode } from '@/types/map';
+import { useFeatureInspector, type UseFeatureInspectorReturn } from './useFeatureInspector';
+import { useAoiDrawing, type UseAoiDrawingReturn } from './useAoiDrawing';
+import { useMeasureTool, type UseMeasureToolReturn } from './useMeasureTool';
 
 interface UseMapViewerProps {
   /** Initial map configuration */
@@ -22,6 +25,8 @@ interface UseMapViewerProps {
   onLoad?: (map: mapboxgl.Map) => void;
   /** Callback when an error occurs */
   onError?: (error: Error) => void;
+  /** Callback when the area of interest changes */
+  onAoiChange?: (aoi: GeoJSON.Polygon | undefined) => void;
 }
 
 interface UseMapViewerReturn {
@@ -33,6 +38,17 @@ interface UseMapViewerReturn {
   isMapLoaded: boolean;
   cursor: string;
   hoveredFeature: any;
+  /** Incremented every time a new basemap style finishes loading */
+  styleVersion: number;
+  
+  // Feature inspector
+  inspector: UseFeatureInspectorReturn;
+  
+  // AOI drawing
+  drawing: UseAoiDrawingReturn;
+  
+  // Distance and area measurement
+  measure: UseMeasureToolReturn;
   
   // Main handlers
   handleViewStateChange: (evt: ViewStateChangeEvent) => void;
@@ -40,6 +56,7 @@ interface UseMapViewerReturn {
   handleMapLoad: () => void;
   handleMapError: (event: any) => void;
   handleMouseMove: (event: any) => void;
+  handleDoubleClick: () => void;
   
   // Map actions
   handleResetView: () => void;
@@ -57,6 +74,7 @@ export function useMapViewer({
   onClick,
   onLoad,
   onError,
+  onAoiChange,
 }: UseMapViewerProps): UseMapViewerReturn {
   
   // References
@@ -67,6 +85,31 @@ export function useMapViewer({
   const [isMapLoaded, setIsMapLoaded] = useState(false);
   const [cursor, setCursor] = useState<string>('auto');
   const [hoveredFeature, setHoveredFeature] = useState<any>(null);
+  const [styleVersion, setStyleVersion] = useState(0);
+
+  // Feature inspector (pinned features and highlight)
+  const inspector = useFeatureInspector(mapRef, styleVersion);
+  const { inspectFeatures } = inspector;
+
+  // AOI drawing tools
+  const drawing = useAoiDrawing({ aoi: filters.aoi, onAoiChange });
+  const { isDrawing, handleDrawClick, handleDrawMouseMove, handleDrawDoubleClick } = drawing;
+
+  // Measuring tools, in the units preferred by the user
+  const measure = useMeasureTool({ defaultUnits: config.units ?? 'metric' });
+  const { isMeasuring, handleMeasureClick, handleMeasureMouseMove, handleMeasureDoubleClick } = measure;
+
+  // Drawing and measuring both take the map clicks, so starting one stops the other
+  const { startDrawing: startAoiDrawing, cancelDrawing } = drawing;
+  const { startMeasuring: startMeasureTool, stopMeasuring } = measure;
+  const startDrawing = useCallback((mode: DrawMode) => {
+    stopMeasuring();
+    startAoiDrawing(mode);
+  }, [startAoiDrawing, stopMeasuring]);
+  const startMeasuring = useCallback((mode: MeasureMode) => {
+    cancelDrawing();
+    startMeasureTool(mode);
+  }, [startMeasureTool, cancelDrawing]);
 
   /**
    * Handler for map view state changes
@@ -84,12 +127,23 @@ export function useMapViewer({
     const { lng, lat } = event.lngLat;
     const features = event.features || [];
     
+    // While drawing, clicks place vertices instead of selecting features
+    if (isDrawing) {
+      handleDrawClick([lng, lat]);
+      return;
+    }
+    if (isMeasuring) {
+      handleMeasureClick([lng, lat]);
+      return;
+    }
+    
+    inspectFeatures(features);
     onClick?.({
       lng,
       lat,
       features,
     });
-  }, [onClick]);
+  }, [onClick, inspectFeatures, isDrawing, handleDrawClick, isMeasuring, handleMeasureClick]);
 
   /**
    * Handler for map load
@@ -126,6 +180,19 @@ export function useMapViewer({
   const handleMouseMove = useCallback((event: any) => {
     const features = event.features;
     
+    if (isDrawing) {
+      setCursor('crosshair');
+      setHoveredFeature(null);
+      handleDrawMouseMove([event.lngLat.lng, event.lngLat.lat]);
+      return;
+    }
+    if (isMeasuring) {
+      setCursor('crosshair');
+      setHoveredFeature(null);
+      handleMeasureMouseMove([event.lngLat.lng, event.lngLat.lat]);
+      return;
+    }
+    
     if (features && features.length > 0) {
       setCursor('pointer');
       setHoveredFeature(features[0]);
@@ -133,7 +200,18 @@ export function useMapViewer({
       setCursor('auto');
       setHoveredFeature(null);
     }
-  }, []);
+  }, [isDrawing, handleDrawMouseMove, isMeasuring, handleMeasureMouseMove]);
+
+  /**
+   * Handler for double click (closes the polygon being drawn or the shape being measured)
+   */
+  const handleDoubleClick = useCallback(() => {
+    if (isDrawing) {
+      handleDrawDoubleClick();
+    } else if (isMeasuring) {
+      handleMeasureDoubleClick();
+    }
+  }, [isDrawing, handleDrawDoubleClick, isMeasuring, handleMeasureDoubleClick]);
 
   /**
    * Reset view to France
@@ -178,6 +256,22 @@ export function useMapViewer({
     }
   }, [onError]);
 
+  /**
+   * Effect to track basemap changes
+   * A new style drops our sources and layers; the version lets them be re-added once it has loaded
+   */
+  useEffect(() => {
+    if (!isMapLoaded || !mapRef.current) return;
+
+    const map = mapRef.current.getMap();
+    const handleStyleLoad = () => setStyleVersion(version => version + 1);
+    map.on('style.load', handleStyleLoad);
+
+    return () => {
+      map.off('style.load', handleStyleLoad);
+    };
+  }, [isMapLoaded]);
+
   /**
    * Effect to apply filters to map
    */
@@ -200,6 +294,16 @@ export function useMapViewer({
     isMapLoaded,
     cursor,
     hoveredFeature,
+    styleVersion,
+    
+    // Feature inspector
+    inspector,
+    
+    // AOI drawing
+    drawing: { ...drawing, startDrawing },
+    
+    // Distance and area measurement
+    measure: { ...measure, startMeasuring },
     
     // Main handlers
     handleViewStateChange,
@@ -207,6 +311,7 @@ export function useMapViewer({
     handleMapLoad,
     handleMapError,
     handleMouseMove,
+    handleDoubleClick,
     
     // Map actions
     handleResetView,
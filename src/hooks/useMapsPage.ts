@@ -2,19 +2,59 @@
  * useMapsPage
  * Hook that centralizes map page state and handlers to keep the page component slim
  */
-import { useCallback, useEffect, useMemo, useState } from 'react';
-import { createDefaultFilters } from '@/lib/mapUtils';
-import type { MapViewState, MapFilters, ForestLayer } from '@/types/map';
-import { useGeoLayers, useGeoHierarchy, useTreeSpecies } from '@/hooks';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  calculateBoundingBox,
+  clipGeometryToBoundingBox,
+  createDefaultFilters,
+  decodeMapStateFromQuery,
+  deserializeMapState,
+  encodeMapStateToQuery,
+  FRANCE_DEFAULT_VIEW,
+  getAreaGeometry,
+  getFeatureCollectionBoundingBox,
+  getGeometryBoundingBox,
+  serializeMapState,
+} from '@/lib/mapUtils';
+import { secureStorageGet, secureStorageSet } from '@/lib/utils';
+import { calculateAreaStatistics } from '@/lib/forestStatistics';
+import type {
+  MapViewState,
+  MapFilters,
+  MapSession,
+  AdministrativeSelection,
+  GeocodingResult,
+  SavedMapState,
+} from '@/types/map';
+import { useAuth } from '@/context/AuthContext';
+import {
+  useGeoLayers,
+  useGeoHierarchy,
+  useTreeSpecies,
+  useAdministrativeBoundary,
+  useDebounce,
+  useSavedMaps,
+  useBasemapStyle,
+  useLayerManager,
+  useLayerExport,
+  useDataImport,
+  useGeocodingSearch,
+} from '@/hooks';
+
+/**
+ * localStorage key of the last map session of a user
+ */
+function getSessionStorageKey(userId: string): string {
+  return `map_session_${userId}`;
+}
 
 export default function useMapsPage() {
-  const [viewState, setViewState] = useState<MapViewState>({
-    latitude: 46.2276,
-    longitude: 2.2137,
-    zoom: 6,
-    bearing: 0,
-    pitch: 0,
-  });
+  const { user } = useAuth();
+
+  // Opens on the user's default view; a restored session or shared URL replaces it
+  const [viewState, setViewState] = useState<MapViewState>(
+    () => user?.preferences?.defaultView ?? FRANCE_DEFAULT_VIEW
+  );
 
   const [filters, setFilters] = useState<MapFilters>(createDefaultFilters());
   const [isMapLoading, setIsMapLoading] = useState(true);
@@ -35,71 +75,152 @@ export default function useMapsPage() {
 
   const treeSpeciesQuery = useTreeSpecies();
 
+  const savedMapsQuery = useSavedMaps(user?.id);
+  const { basemap, setBasemap } = useBasemapStyle(user);
+
+  // Map instance, available once the map has loaded
+  const mapInstanceRef = useRef<mapboxgl.Map | null>(null);
+
+  // Most specific administrative unit selected (commune > department > region)
+  const selectedUnit = useMemo<AdministrativeSelection | null>(() => {
+    if (selectedCommune) return { type: 'commune', code: selectedCommune };
+    if (selectedDepartment) return { type: 'departement', code: selectedDepartment };
+    if (selectedRegion) return { type: 'region', code: selectedRegion };
+    return null;
+  }, [selectedRegion, selectedDepartment, selectedCommune]);
+
+  const boundaryQuery = useAdministrativeBoundary(selectedUnit?.type, selectedUnit?.code);
+  const boundary = selectedUnit ? boundaryQuery.data : undefined;
+
+  // Boundary geometry used to clip forest and cadastre data
+  const boundaryGeometry = useMemo(
+    () => (boundary ? getAreaGeometry(boundary) : null),
+    [boundary]
+  );
+
+  // The drawn area of interest takes precedence over the administrative boundary
+  const analysisArea = filters.aoi ?? boundaryGeometry;
+
   const {
     forestLayers: fetchedForestLayers,
     cadastreLayers,
     isLoadingForest,
+    isForestTruncated,
     isLoadingCadastre,
     forestError,
     cadastreError,
   } = useGeoLayers({
     viewState,
     filters,
+    clipArea: analysisArea,
     enabled: !!viewState && !mapError,
   });
 
-  // Track which layers are visible (for UI toggles)
-  const [visibleLayerIds, setVisibleLayerIds] = useState<Set<string>>(new Set());
+  // Set when a restored session brings its own view, so the boundary fit does not override it
+  const skipBoundaryFitRef = useRef(false);
 
-  // Combine fetched layers with visibility state
-  const forestLayers = useMemo(() => {
-    return fetchedForestLayers.map(layer => ({
-      ...layer,
-      visible: visibleLayerIds.has(layer.id)
-    }));
-  }, [fetchedForestLayers, visibleLayerIds]);
+  // View to apply once the map has loaded
+  const pendingViewRef = useRef<MapViewState | null>(null);
 
-  // Sync visible layer IDs when fetched layers change
+  // Fit the map to the selected administrative unit
   useEffect(() => {
-    const fetchedIds = new Set(fetchedForestLayers.map(l => l.id));
-    const fetchedIdsString = JSON.stringify([...fetchedIds].sort());
+    const map = mapInstanceRef.current;
+    if (!map || !boundaryGeometry) return;
+    if (skipBoundaryFitRef.current) {
+      skipBoundaryFitRef.current = false;
+      return;
+    }
 
-    setVisibleLayerIds(prev => {
-      const prevIdsString = JSON.stringify([...prev].sort());
+    const [west, south, east, north] = getGeometryBoundingBox(boundaryGeometry);
+    map.fitBounds([[west, south], [east, north]], { padding: 40, duration: 1500 });
+  }, [boundaryGeometry, isMapLoading]);
 
-      // Only update if the set of IDs actually changed
-      if (prevIdsString === fetchedIdsString) {
-        return prev;
-      }
+  // Layers imported by the user, stored or kept for this session
+  const dataImport = useDataImport(user?.id);
+  const { userLayers: importedLayers, importedLayerIds } = dataImport;
 
-      const newSet = new Set(prev);
-      // Add any new layer IDs that aren't already tracked
-      fetchedForestLayers.forEach(layer => {
-        if (!newSet.has(layer.id)) {
-          newSet.add(layer.id); // Default to visible
-        }
-      });
-      // Remove IDs that are no longer in fetched layers
-      for (const id of newSet) {
-        if (!fetchedIds.has(id)) {
-          newSet.delete(id);
-        }
-      }
-      return newSet;
-    });
-  }, [fetchedForestLayers]);
+  // Layer manager: order (imported, then cadastre, then forest by default), opacity, solo and mute
+  const managedLayers = useMemo(
+    () => [
+      // Layers imported in this session, saved or not, are shown even if a restored session hid other layers
+      ...importedLayers.map(({ id, opacity }) => ({
+        id,
+        opacity,
+        visible: importedLayerIds.includes(id) ? true : undefined,
+      })),
+      ...[...cadastreLayers, ...fetchedForestLayers].map(({ id, opacity }) => ({ id, opacity })),
+    ],
+    [importedLayers, importedLayerIds, cadastreLayers, fetchedForestLayers]
+  );
+  const layerManager = useLayerManager(managedLayers);
+  const { layerState, layerOrder, applyLayerState, visibleLayerIds, setVisibleLayers } = layerManager;
 
-  const toggleLayer = useCallback((layerId: string) => {
-    setVisibleLayerIds(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(layerId)) {
-        newSet.delete(layerId);
-      } else {
-        newSet.add(layerId);
-      }
-      return newSet;
-    });
-  }, []);
+  const forestLayers = useMemo(
+    () => applyLayerState(fetchedForestLayers),
+    [applyLayerState, fetchedForestLayers]
+  );
+  const managedCadastreLayers = useMemo(
+    () => applyLayerState(cadastreLayers),
+    [applyLayerState, cadastreLayers]
+  );
+  const userLayers = useMemo(
+    () => applyLayerState(importedLayers),
+    [applyLayerState, importedLayers]
+  );
+
+  // Forest data is only loaded around the viewport, so an area that does not fit in it
+  // is measured on its visible portion
+  const statisticsViewState = useDebounce(viewState, 300);
+  const statisticsArea = useMemo(() => {
+    if (!analysisArea) return null;
+    const viewportBbox = calculateBoundingBox(
+      { lat: statisticsViewState.latitude, lng: statisticsViewState.longitude },
+      statisticsViewState.zoom
+    );
+    const [west, south, east, north] = getGeometryBoundingBox(analysisArea);
+    const isVisible = west >= viewportBbox[0] && south >= viewportBbox[1]
+      && east <= viewportBbox[2] && north <= viewportBbox[3];
+    return isVisible
+      ? { geometry: analysisArea, isVisiblePortion: false }
+      : { geometry: clipGeometryToBoundingBox(analysisArea, viewportBbox), isVisiblePortion: true };
+  }, [analysisArea, statisticsViewState]);
+
+  // Forest statistics of the visible layers inside the analysed area
+  const areaStatistics = useMemo(() => {
+    if (!analysisArea) return null;
+    // No forest data is loaded for an area that lies outside the view
+    if (!statisticsArea?.geometry) return calculateAreaStatistics([], analysisArea);
+
+    const features = forestLayers
+      .filter(layer => layer.visible)
+      .flatMap(layer => layer.geoData.features);
+    return calculateAreaStatistics(features, statisticsArea.geometry);
+  }, [forestLayers, statisticsArea, analysisArea]);
+
+  const analysisAreaLabel = filters.aoi
+    ? 'Drawn area of interest'
+    : boundary?.features[0]?.properties?.nom;
+
+  const layerExport = useLayerExport({
+    forestLayers,
+    cadastreLayers: managedCadastreLayers,
+    showCadastre: filters.showCadastre,
+    aoi: filters.aoi,
+    boundary: boundaryGeometry,
+  });
+
+  /**
+   * Fit the map to the features of a layer
+   */
+  const zoomToLayer = useCallback((layerId: string) => {
+    const map = mapInstanceRef.current;
+    const layer = [...fetchedForestLayers, ...cadastreLayers, ...importedLayers].find(item => item.id === layerId);
+    const bbox = layer ? getFeatureCollectionBoundingBox(layer.geoData) : null;
+    if (!map || !bbox) return;
+
+    const [west, south, east, north] = bbox;
+    map.fitBounds([[west, south], [east, north]], { padding: 40, duration: 1500, maxZoom: 16 });
+  }, [fetchedForestLayers, cadastreLayers, importedLayers]);
 
   const handleViewStateChange = useCallback((newViewState: MapViewState) => {
     setViewState(newViewState);
@@ -119,29 +240,168 @@ export default function useMapsPage() {
     }
   }, []);
 
-  const loadInitialLayers = useCallback(() => {
-    // Set all fetched layers as visible by default
-    setVisibleLayerIds(new Set(fetchedForestLayers.map(layer => layer.id)));
-    // eslint-disable-next-line no-console
-    console.log('Initial layers loaded:', fetchedForestLayers.length);
-  }, [fetchedForestLayers]);
-
   const handleMapLoad = useCallback((map: mapboxgl.Map) => {
-    // eslint-disable-next-line no-console
+    mapInstanceRef.current = map;
+    if (pendingViewRef.current) {
+      const { longitude, latitude, zoom, bearing, pitch } = pendingViewRef.current;
+      map.jumpTo({ center: [longitude, latitude], zoom, bearing, pitch });
+      pendingViewRef.current = null;
+    }
     setIsMapLoading(false);
-    loadInitialLayers();
-  }, [loadInitialLayers]);
+  }, []);
 
   const handleRegionFilter = useCallback((regionId: string) => {
     setFilters((prev) => ({ ...prev, region: regionId, department: undefined, commune: undefined }));
     setSelectedRegion(regionId);
+    setSelectedDepartment('');
+    setSelectedCommune('');
   }, []);
 
   const handleDepartmentFilter = useCallback((departmentId: string) => {
     setFilters((prev) => ({ ...prev, department: departmentId, commune: undefined }));
     setSelectedDepartment(departmentId);
+    setSelectedCommune('');
   }, []);
 
+  const handleCommuneFilter = useCallback((communeId: string) => {
+    setFilters((prev) => ({ ...prev, commune: communeId || undefined }));
+    setSelectedCommune(communeId);
+  }, []);
+
+  const handleAoiChange = useCallback((aoi: GeoJSON.Polygon | undefined) => {
+    setFilters((prev) => ({ ...prev, aoi }));
+  }, []);
+
+  // Place search; parcel references without INSEE code refer to the selected commune
+  const placeSearch = useGeocodingSearch({ commune: selectedCommune || undefined });
+  const { resolveUnits } = placeSearch;
+
+  /**
+   * Move the map to a search result and select its commune in the hierarchy
+   */
+  const handleSearchSelect = useCallback(async (result: GeocodingResult) => {
+    const map = mapInstanceRef.current;
+    if (map) {
+      if (result.bbox) {
+        const [west, south, east, north] = result.bbox;
+        map.fitBounds([[west, south], [east, north]], { padding: 40, duration: 1500, maxZoom: 17 });
+      } else {
+        map.flyTo({ center: result.center, zoom: result.type === 'address' ? 17 : 15, duration: 1500 });
+      }
+    }
+
+    const units = await resolveUnits(result);
+    if (!units) return;
+
+    // The map is already moving to the result, so the fit to the new commune is skipped
+    skipBoundaryFitRef.current = units.commune !== selectedCommune;
+
+    setFilters((prev) => ({ ...prev, region: units.region, department: units.department, commune: units.commune }));
+    setSelectedRegion(units.region);
+    setSelectedDepartment(units.department);
+    setSelectedCommune(units.commune);
+  }, [resolveUnits, selectedCommune]);
+
+  /**
+   * Restore a map session: view, filters, administrative unit and visible layers
+   */
+  const restoreMapSession = useCallback((session: MapSession) => {
+    const { selectedUnit: unit } = session;
+    const restoredFilters: MapFilters = {
+      ...createDefaultFilters(),
+      ...session.filters,
+      region: session.filters.region ?? (unit?.type === 'region' ? unit.code : undefined),
+      department: session.filters.department ?? (unit?.type === 'departement' ? unit.code : undefined),
+      commune: session.filters.commune ?? (unit?.type === 'commune' ? unit.code : undefined),
+    };
+
+    // The saved view wins over fitting the map to the restored unit
+    // Shared URLs carry no unit, so it is taken from the restored filters
+    const restoredUnitKey = restoredFilters.commune
+      ? `commune:${restoredFilters.commune}`
+      : restoredFilters.department
+        ? `departement:${restoredFilters.department}`
+        : restoredFilters.region ? `region:${restoredFilters.region}` : '';
+    const currentUnitKey = selectedUnit ? `${selectedUnit.type}:${selectedUnit.code}` : '';
+    skipBoundaryFitRef.current = !!restoredUnitKey && restoredUnitKey !== currentUnitKey;
+
+    setFilters(restoredFilters);
+    setSelectedRegion(restoredFilters.region ?? '');
+    setSelectedDepartment(restoredFilters.department ?? '');
+    setSelectedCommune(restoredFilters.commune ?? '');
+
+    setVisibleLayers(session.visibleLayers ?? null);
+
+    const { longitude, latitude, zoom, bearing, pitch } = session.viewState;
+    const map = mapInstanceRef.current;
+    if (map) {
+      map.flyTo({ center: [longitude, latitude], zoom, bearing, pitch, duration: 1500 });
+    } else {
+      pendingViewRef.current = session.viewState;
+    }
+    setViewState(session.viewState);
+  }, [selectedUnit, setVisibleLayers]);
+
+  const handleSaveMap = useCallback((name: string) => {
+    savedMapsQuery.createMutation.mutate({
+      name,
+      viewState,
+      filters,
+      visibleLayers: visibleLayerIds,
+      selectedUnit,
+    });
+  }, [savedMapsQuery.createMutation, viewState, filters, visibleLayerIds, selectedUnit]);
+
+  const handleRestoreMap = useCallback((savedMap: SavedMapState) => {
+    restoreMapSession(savedMap);
+  }, [restoreMapSession]);
+
+  const handleRenameMap = useCallback((id: string, name: string) => {
+    savedMapsQuery.renameMutation.mutate({ id, name });
+  }, [savedMapsQuery.renameMutation]);
+
+  const handleDeleteMap = useCallback((id: string) => {
+    savedMapsQuery.deleteMutation.mutate(id);
+  }, [savedMapsQuery.deleteMutation]);
+
+  const sessionRestoredRef = useRef(false);
+  const debouncedViewState = useDebounce(viewState, 1000);
+
+  // Keep the current session in localStorage and in the URL
+  // Declared before the restore effect and skipped until the view settles,
+  // so the default view never overwrites the session being restored
+  useEffect(() => {
+    if (!sessionRestoredRef.current || debouncedViewState !== viewState) return;
+
+    if (user?.id) {
+      secureStorageSet(
+        getSessionStorageKey(user.id),
+        serializeMapState(viewState, filters, { selectedUnit })
+      );
+    }
+
+    // Visible layers are only shared when some loaded layer is hidden
+    const visibleLayers = layerOrder.length === 0
+      ? (layerState.restoredVisibleIds ?? undefined)
+      : (visibleLayerIds.length < layerOrder.length ? visibleLayerIds : undefined);
+
+    const query = encodeMapStateToQuery({ viewState, filters, visibleLayers }).toString();
+    if (query !== window.location.search.slice(1)) {
+      window.history.replaceState(window.history.state, '', `${window.location.pathname}?${query}`);
+    }
+  }, [user?.id, debouncedViewState, viewState, filters, selectedUnit, layerState.restoredVisibleIds, layerOrder, visibleLayerIds]);
+
+  // Restore the shared URL state, or else the last session of the user, once per visit
+  useEffect(() => {
+    if (!user?.id || sessionRestoredRef.current) return;
+    sessionRestoredRef.current = true;
+
+    const urlSession = decodeMapStateFromQuery(new URLSearchParams(window.location.search));
+    const stored = secureStorageGet<string>(getSessionStorageKey(user.id));
+    const session = urlSession ?? (stored ? deserializeMapState(stored) : null);
+    if (session) restoreMapSession(session);
+  }, [user?.id, restoreMapSession]);
+
   const clearFilters = useCallback(() => {
     setFilters(createDefaultFilters());
     setSelectedRegion('');
@@ -171,18 +431,63 @@ export default function useMapsPage() {
     isLoadingTreeSpecies: treeSpeciesQuery.isLoading,
     treeSpeciesError: treeSpeciesQuery.error,
     forestLayers,
-    cadastreLayers,
+    cadastreLayers: managedCadastreLayers,
+    userLayers,
+    isLoadingUserLayers: dataImport.isLoading,
+    userLayersError: dataImport.error,
+    importReports: dataImport.reports,
+    isImporting: dataImport.isImporting,
+    importFiles: dataImport.importFiles,
+    removeUserLayer: dataImport.removeLayer,
+    clearImportReports: dataImport.clearReports,
+    boundary,
+    isLoadingBoundary: boundaryQuery.isLoading,
+    areaStatistics,
+    isStatisticsVisiblePortion: statisticsArea?.isVisiblePortion ?? false,
+    analysisAreaLabel,
     isLoadingForest,
+    isForestTruncated,
     isLoadingCadastre,
     forestError,
     cadastreError,
     handleViewStateChange,
     handleMapClick,
     handleMapLoad,
-    toggleLayer,
-    loadInitialLayers,
+    layerOrder,
+    layerState,
+    toggleLayerMute: layerManager.toggleMute,
+    toggleLayerSolo: layerManager.toggleSolo,
+    setLayerOpacity: layerManager.setOpacity,
+    moveLayer: layerManager.moveLayer,
+    zoomToLayer,
+    exportData: layerExport.exportData,
+    exportClipAreas: layerExport.clipAreas,
+    exportLayerCount: layerExport.layerCount,
+    exportFeatureCount: layerExport.featureCount,
+    exportError: layerExport.error,
+    exportWarning: layerExport.warning,
     handleRegionFilter,
     handleDepartmentFilter,
+    handleCommuneFilter,
+    handleAoiChange,
     clearFilters,
+    searchQuery: placeSearch.query,
+    setSearchQuery: placeSearch.setQuery,
+    clearSearch: placeSearch.clear,
+    searchResults: placeSearch.results,
+    isSearching: placeSearch.isSearching,
+    searchError: placeSearch.error,
+    handleSearchSelect,
+    savedMaps: savedMapsQuery.savedMaps,
+    isLoadingSavedMaps: savedMapsQuery.isLoading,
+    savedMapsError: savedMapsQuery.error,
+    savedMapsActionError: savedMapsQuery.mutationError,
+    isSavingMap: savedMapsQuery.createMutation.isPending,
+    handleSaveMap,
+    handleRestoreMap,
+    handleRenameMap,
+    handleDeleteMap,
+    basemap,
+    setBasemap,
   } as const;
 }
@@ -0,0 +1,237 @@
+/**
+ * @fileoverview Hook to measure distances, areas and perimeters on the map
+ * Distances follow a polyline with the running total at each vertex; areas close a polygon
+ * and report its geodesic area and perimeter
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { MeasureMode, MeasureResult, MeasureUnits } from '@/types/map';
+import {
+  calculatePolygonArea,
+  calculateSegmentLengths,
+  formatArea,
+  formatLength,
+} from '@/lib/mapUtils';
+import { isEditableTarget } from '@/lib/utils';
+
+/**
+ * Time the "copied" confirmation stays visible
+ */
+const COPIED_FEEDBACK_MS = 2000;
+
+interface UseMeasureToolProps {
+  /** Units used until the user picks others */
+  defaultUnits?: MeasureUnits;
+}
+
+export interface UseMeasureToolReturn {
+  /** Active measuring tool, null when not measuring */
+  measureMode: MeasureMode | null;
+  /** Whether a measuring tool is active */
+  isMeasuring: boolean;
+  /** Whether the current shape is complete */
+  isFinished: boolean;
+  /** Vertices placed so far */
+  vertices: GeoJSON.Position[];
+  /** Shape being measured, following the pointer until it is finished */
+  geometry: GeoJSON.Geometry | null;
+  /** Measurement of the shape, including the segment to the pointer */
+  result: MeasureResult | null;
+  units: MeasureUnits;
+  setUnits: (units: MeasureUnits) => void;
+  /** Whether the result was just copied */
+  hasCopied: boolean;
+  /** Start measuring with a tool */
+  startMeasuring: (mode: MeasureMode) => void;
+  /** Stop measuring and clear the shape */
+  stopMeasuring: () => void;
+  /** Complete the current line or polygon */
+  finishMeasure: () => void;
+  /** Copy the result as text */
+  copyResult: () => Promise<void>;
+  /** Map handlers while measuring */
+  handleMeasureClick: (position: GeoJSON.Position) => void;
+  handleMeasureMouseMove: (position: GeoJSON.Position) => void;
+  handleMeasureDoubleClick: () => void;
+}
+
+/**
+ * Remove consecutive duplicated vertices
+ * A double click registers two clicks on the same spot before the dblclick event
+ */
+function removeRepeatedVertices(vertices: GeoJSON.Position[]): GeoJSON.Position[] {
+  return vertices.filter((vertex, i) =>
+    i === 0 || vertex[0] !== vertices[i - 1][0] || vertex[1] !== vertices[i - 1][1]
+  );
+}
+
+/**
+ * Measurement of a line or a polygon given by its vertices
+ */
+function measure(mode: MeasureMode, vertices: GeoJSON.Position[]): MeasureResult | null {
+  if (vertices.length < 2) return null;
+
+  if (mode === 'distance') {
+    const segments = calculateSegmentLengths(vertices);
+    return { mode, segments, length: segments.reduce((sum, length) => sum + length, 0) };
+  }
+
+  // The perimeter includes the closing segment once the polygon has an area
+  const ring = vertices.length >= 3 ? [...vertices, vertices[0]] : vertices;
+  const segments = calculateSegmentLengths(ring);
+  return {
+    mode,
+    segments,
+    length: segments.reduce((sum, length) => sum + length, 0),
+    area: vertices.length >= 3 ? calculatePolygonArea({ type: 'Polygon', coordinates: [ring] }) : undefined,
+  };
+}
+
+/**
+ * Plain text version of a measurement, for the clipboard
+ */
+function formatResult(result: MeasureResult, units: MeasureUnits): string {
+  if (result.mode === 'area') {
+    return [
+      `Area: ${result.area !== undefined ? formatArea(result.area, units) : '-'}`,
+      `Perimeter: ${formatLength(result.length, units)}`,
+    ].join('\n');
+  }
+
+  let total = 0;
+  const lines = result.segments.map((length, i) => {
+    total += length;
+    return `Segment ${i + 1}: ${formatLength(length, units)} (total ${formatLength(total, units)})`;
+  });
+  return [...lines, `Distance: ${formatLength(result.length, units)}`].join('\n');
+}
+
+/**
+ * Hook that holds the state of the measuring tools
+ */
+export function useMeasureTool({ defaultUnits = 'metric' }: UseMeasureToolProps = {}): UseMeasureToolReturn {
+  const [measureMode, setMeasureMode] = useState<MeasureMode | null>(null);
+  const [vertices, setVertices] = useState<GeoJSON.Position[]>([]);
+  const [pointer, setPointer] = useState<GeoJSON.Position | null>(null);
+  const [isFinished, setIsFinished] = useState(false);
+  const [units, setUnits] = useState<MeasureUnits>(defaultUnits);
+  const [hasCopied, setHasCopied] = useState(false);
+
+  const startMeasuring = useCallback((mode: MeasureMode) => {
+    setMeasureMode(mode);
+    setVertices([]);
+    setPointer(null);
+    setIsFinished(false);
+  }, []);
+
+  const stopMeasuring = useCallback(() => {
+    setMeasureMode(null);
+    setVertices([]);
+    setPointer(null);
+    setIsFinished(false);
+  }, []);
+
+  const finishMeasure = useCallback(() => {
+    const points = removeRepeatedVertices(vertices);
+    if (!measureMode || points.length < (measureMode === 'area' ? 3 : 2)) return;
+    setVertices(points);
+    setIsFinished(true);
+  }, [measureMode, vertices]);
+
+  /**
+   * Each click adds a vertex; clicking after finishing starts a new shape
+   */
+  const handleMeasureClick = useCallback((position: GeoJSON.Position) => {
+    if (!measureMode) return;
+
+    if (isFinished) {
+      setVertices([position]);
+      setIsFinished(false);
+      return;
+    }
+    setVertices(prev => [...prev, position]);
+  }, [measureMode, isFinished]);
+
+  const handleMeasureMouseMove = useCallback((position: GeoJSON.Position) => {
+    setPointer(position);
+  }, []);
+
+  const handleMeasureDoubleClick = useCallback(() => {
+    finishMeasure();
+  }, [finishMeasure]);
+
+  // Vertices followed by the pointer while the shape is open
+  const activeVertices = useMemo(
+    () => (!isFinished && pointer && vertices.length > 0 ? [...vertices, pointer] : vertices),
+    [vertices, pointer, isFinished]
+  );
+
+  const geometry = useMemo<GeoJSON.Geometry | null>(() => {
+    if (!measureMode || activeVertices.length < 2) return null;
+    return measureMode === 'area' && activeVertices.length >= 3
+      ? { type: 'Polygon', coordinates: [[...activeVertices, activeVertices[0]]] }
+      : { type: 'LineString', coordinates: activeVertices };
+  }, [measureMode, activeVertices]);
+
+  const result = useMemo(
+    () => (measureMode ? measure(measureMode, activeVertices) : null),
+    [measureMode, activeVertices]
+  );
+
+  const copyResult = useCallback(async () => {
+    if (!result) return;
+    try {
+      await navigator.clipboard.writeText(formatResult(result, units));
+      setHasCopied(true);
+    } catch {
+      // Clipboard access denied or unavailable (e.g. insecure context)
+      setHasCopied(false);
+    }
+  }, [result, units]);
+
+  useEffect(() => {
+    if (!hasCopied) return;
+    const timeout = setTimeout(() => setHasCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timeout);
+  }, [hasCopied]);
+
+  /**
+   * Keyboard shortcuts while measuring: Escape stops, Enter finishes the shape
+   */
+  useEffect(() => {
+    if (!measureMode) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Keys typed in the search box or the units select are not shortcuts
+      if (isEditableTarget(event.target)) return;
+      if (event.key === 'Escape') stopMeasuring();
+      if (event.key === 'Enter') finishMeasure();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [measureMode, stopMeasuring, finishMeasure]);
+
+  return {
+    measureMode,
+    isMeasuring: measureMode !== null,
+    isFinished,
+    vertices,
+    geometry,
+    result,
+    units,
+    setUnits,
+    hasCopied,
+    startMeasuring,
+    stopMeasuring,
+    finishMeasure,
+    copyResult,
+    handleMeasureClick,
+    handleMeasureMouseMove,
+    handleMeasureDoubleClick,
+  };
+}
+
+export default useMeasureTool;
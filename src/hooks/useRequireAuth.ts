@@ -0,0 +1,43 @@
+/**
+ * @fileoverview Route guard hook for the authenticated area
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import { buildLoginUrl } from '@/lib/routes';
+
+/**
+ * Redirect to the login page, remembering the requested page, when there is no session
+ * @returns Whether the protected content can be rendered
+ */
+export function useRequireAuth() {
+  const { isAuthenticated, isLoading, user, refreshAuth, logout } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  useEffect(() => {
+    if (isLoading || isAuthenticated) return;
+    router.replace(buildLoginUrl(`${pathname}${window.location.search}`));
+  }, [isAuthenticated, isLoading, pathname, router]);
+
+  // A session without its user is reloaded once, then closed so the redirect above applies
+  const hasRequestedUserRef = useRef(false);
+  const [isUserRequestDone, setIsUserRequestDone] = useState(false);
+
+  useEffect(() => {
+    if (isLoading || !isAuthenticated || user) return;
+    if (!hasRequestedUserRef.current) {
+      hasRequestedUserRef.current = true;
+      refreshAuth().finally(() => setIsUserRequestDone(true));
+    } else if (isUserRequestDone) {
+      logout();
+    }
+  }, [isAuthenticated, isLoading, user, isUserRequestDone, refreshAuth, logout]);
+
+  return {
+    isReady: !isLoading && isAuthenticated && !!user,
+  };
+}
+
+export default useRequireAuth;
@@ -0,0 +1,65 @@
+/**
+ * @fileoverview TanStack Query hooks for the saved maps of the current user
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  createSavedMap,
+  deleteSavedMap,
+  getSavedMaps,
+  updateSavedMap,
+  type SavedMapInput,
+} from '@/services/savedMapsService';
+
+/**
+ * Hook to list, create, rename and delete saved maps
+ */
+export function useSavedMaps(userId?: string) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['maps', 'saved', userId],
+    queryFn: () => getSavedMaps(userId!),
+    enabled: !!userId,
+    staleTime: 1000 * 60, // 1 minute
+  });
+
+  const invalidateSavedMaps = () => {
+    queryClient.invalidateQueries({ queryKey: ['maps', 'saved'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (input: SavedMapInput) => createSavedMap(userId!, input),
+    onSuccess: () => {
+      invalidateSavedMaps();
+      // The saved maps count is part of the dashboard statistics
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+    },
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: ({ id, name }: { id: string; name: string }) => updateSavedMap(userId!, id, { name }),
+    onSuccess: invalidateSavedMaps,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteSavedMap(userId!, id),
+    onSuccess: () => {
+      invalidateSavedMaps();
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+    },
+  });
+
+  return {
+    savedMaps: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+    // Last failed save, rename or delete
+    mutationError: createMutation.error ?? renameMutation.error ?? deleteMutation.error,
+    createMutation,
+    renameMutation,
+    deleteMutation,
+  };
+}
+
+export default useSavedMaps;
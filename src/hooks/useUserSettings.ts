@@ -0,0 +1,51 @@
+/**
+ * @fileoverview TanStack Query hooks for the account settings of the current user
+ */
+
+import { useMutation } from '@tanstack/react-query';
+import { useAuth } from '@/context/AuthContext';
+import {
+  changePassword,
+  deleteAvatar,
+  updateCurrentUser,
+  uploadAvatar,
+} from '@/services/userService';
+import type { ChangePasswordRequest, UpdateProfileRequest } from '@/types/user';
+
+/**
+ * Hook to edit the profile, password, avatar and preferences
+ * Every change that returns the user updates the auth context
+ */
+export function useUserSettings() {
+  const { updateUser } = useAuth();
+
+  const updateProfileMutation = useMutation({
+    mutationFn: (changes: UpdateProfileRequest) => updateCurrentUser(changes),
+    onSuccess: updateUser,
+  });
+
+  const changePasswordMutation = useMutation({
+    mutationFn: (request: ChangePasswordRequest) => changePassword(request),
+    retry: false,
+  });
+
+  const uploadAvatarMutation = useMutation({
+    mutationFn: (file: File) => uploadAvatar(file),
+    onSuccess: updateUser,
+    retry: false,
+  });
+
+  const deleteAvatarMutation = useMutation({
+    mutationFn: () => deleteAvatar(),
+    onSuccess: updateUser,
+  });
+
+  return {
+    updateProfileMutation,
+    changePasswordMutation,
+    uploadAvatarMutation,
+    deleteAvatarMutation,
+  };
+}
+
+export default useUserSettings;
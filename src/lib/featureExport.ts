@@ -0,0 +1,264 @@
+/**
+ * @fileoverview Export of map layers to GIS file formats
+ * GeoJSON, KML, zipped Shapefile, GeoPackage and CSV with WKT geometries, all in WGS 84
+ */
+
+import type { AttributeField, ExportFormat, ExportLayer } from '@/types/map';
+import { createGeoPackage } from './geopackage';
+import { createShapefileEntries } from './shapefile';
+import { createZip } from './zip';
+
+/**
+ * Export formats offered in the export menu
+ */
+export const EXPORT_FORMATS: Array<{
+  value: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}> = [
+  { value: 'geojson', label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  { value: 'kml', label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  { value: 'shapefile', label: 'Shapefile (zip)', extension: 'zip', mimeType: 'application/zip' },
+  { value: 'geopackage', label: 'GeoPackage', extension: 'gpkg', mimeType: 'application/geopackage+sqlite3' },
+  { value: 'csv', label: 'CSV (WKT)', extension: 'csv', mimeType: 'text/csv' },
+];
+
+/**
+ * Attribute columns of a set of features, typed from their values
+ * Columns mixing types, or holding objects, are exported as text
+ */
+export function getAttributeFields(features: GeoJSON.Feature[]): AttributeField[] {
+  const fields = new Map<string, AttributeField['type'] | null>();
+
+  features.forEach(feature => {
+    Object.entries(feature.properties ?? {}).forEach(([name, value]) => {
+      const current = fields.has(name) ? fields.get(name)! : null;
+      if (value === null || value === undefined) {
+        if (!fields.has(name)) fields.set(name, null);
+        return;
+      }
+
+      let type: AttributeField['type'] = 'text';
+      if (typeof value === 'boolean') type = 'boolean';
+      else if (typeof value === 'number' && Number.isFinite(value)) {
+        type = Number.isSafeInteger(value) ? 'integer' : 'real';
+      }
+
+      if (current === null || current === type) {
+        fields.set(name, type);
+      } else if ((current === 'integer' && type === 'real') || (current === 'real' && type === 'integer')) {
+        fields.set(name, 'real');
+      } else {
+        fields.set(name, 'text');
+      }
+    });
+  });
+
+  return [...fields.entries()].map(([name, type]) => ({ name, type: type ?? 'text' }));
+}
+
+/**
+ * File-system friendly name: ASCII letters, digits, dashes and underscores
+ */
+export function toFileName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9_-]+/g, '_')
+    .replace(/^_+|_+$/g, '') || 'layer';
+}
+
+/**
+ * Single collection with the layer name added to each feature
+ */
+function toGeoJSON(layers: ExportLayer[]): string {
+  const collection: GeoJSON.FeatureCollection = {
+    type: 'FeatureCollection',
+    features: layers.flatMap(layer =>
+      layer.features.map(feature => ({
+        ...feature,
+        properties: { ...feature.properties, layer: layer.name },
+      }))
+    ),
+  };
+  return JSON.stringify(collection);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * KML geometry element
+ */
+function toKmlGeometry(geometry: GeoJSON.Geometry): string {
+  const coordinates = (points: GeoJSON.Position[]) => points.map(([x, y]) => `${x},${y}`).join(' ');
+  const ring = (points: GeoJSON.Position[]) =>
+    `<LinearRing><coordinates>${coordinates(points)}</coordinates></LinearRing>`;
+  const polygon = ([outer, ...holes]: GeoJSON.Position[][]) =>
+    `<Polygon><outerBoundaryIs>${ring(outer)}</outerBoundaryIs>` +
+    holes.map(hole => `<innerBoundaryIs>${ring(hole)}</innerBoundaryIs>`).join('') +
+    '</Polygon>';
+
+  switch (geometry.type) {
+    case 'Point':
+      return `<Point><coordinates>${coordinates([geometry.coordinates])}</coordinates></Point>`;
+    case 'LineString':
+      return `<LineString><coordinates>${coordinates(geometry.coordinates)}</coordinates></LineString>`;
+    case 'Polygon':
+      return polygon(geometry.coordinates);
+    case 'MultiPoint':
+      return `<MultiGeometry>${geometry.coordinates
+        .map(point => `<Point><coordinates>${coordinates([point])}</coordinates></Point>`)
+        .join('')}</MultiGeometry>`;
+    case 'MultiLineString':
+      return `<MultiGeometry>${geometry.coordinates
+        .map(line => `<LineString><coordinates>${coordinates(line)}</coordinates></LineString>`)
+        .join('')}</MultiGeometry>`;
+    case 'MultiPolygon':
+      return `<MultiGeometry>${geometry.coordinates.map(polygon).join('')}</MultiGeometry>`;
+    case 'GeometryCollection':
+      return `<MultiGeometry>${geometry.geometries.map(toKmlGeometry).join('')}</MultiGeometry>`;
+  }
+}
+
+/**
+ * KML document with one folder per layer and the attributes as extended data
+ */
+function toKML(layers: ExportLayer[], documentName: string): string {
+  const folders = layers.map(layer => {
+    const placemarks = layer.features.map((feature, index) => {
+      const properties = feature.properties ?? {};
+      const name = formatValue(properties.name ?? feature.id ?? `${layer.name} ${index + 1}`);
+      const data = Object.entries(properties)
+        .map(([key, value]) =>
+          `<Data name="${escapeXml(key)}"><value>${escapeXml(formatValue(value))}</value></Data>`
+        )
+        .join('');
+
+      return '<Placemark>' +
+        `<name>${escapeXml(name)}</name>` +
+        (data ? `<ExtendedData>${data}</ExtendedData>` : '') +
+        (feature.geometry ? toKmlGeometry(feature.geometry) : '') +
+        '</Placemark>';
+    });
+
+    return `<Folder><name>${escapeXml(layer.name)}</name>${placemarks.join('\n')}</Folder>`;
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>' +
+    `<name>${escapeXml(documentName)}</name>\n${folders.join('\n')}\n` +
+    '</Document></kml>\n';
+}
+
+/**
+ * Well-Known Text of a geometry
+ */
+export function toWKT(geometry: GeoJSON.Geometry): string {
+  const point = ([x, y]: GeoJSON.Position) => `${x} ${y}`;
+  const points = (positions: GeoJSON.Position[]) => `(${positions.map(point).join(', ')})`;
+  const polygon = (rings: GeoJSON.Position[][]) => `(${rings.map(points).join(', ')})`;
+  const collection = (items: string[], wkt: string) => (items.length ? `${wkt} (${items.join(', ')})` : `${wkt} EMPTY`);
+
+  switch (geometry.type) {
+    case 'Point':
+      return geometry.coordinates.length ? `POINT (${point(geometry.coordinates)})` : 'POINT EMPTY';
+    case 'LineString':
+      return geometry.coordinates.length ? `LINESTRING ${points(geometry.coordinates)}` : 'LINESTRING EMPTY';
+    case 'Polygon':
+      return geometry.coordinates.length ? `POLYGON ${polygon(geometry.coordinates)}` : 'POLYGON EMPTY';
+    case 'MultiPoint':
+      return collection(geometry.coordinates.map(position => `(${point(position)})`), 'MULTIPOINT');
+    case 'MultiLineString':
+      return collection(geometry.coordinates.map(points), 'MULTILINESTRING');
+    case 'MultiPolygon':
+      return collection(geometry.coordinates.map(polygon), 'MULTIPOLYGON');
+    case 'GeometryCollection':
+      return collection(geometry.geometries.map(toWKT), 'GEOMETRYCOLLECTION');
+  }
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * CSV with one row per feature: layer, attributes and WKT geometry
+ */
+function toCSV(layers: ExportLayer[]): string {
+  const fields = getAttributeFields(layers.flatMap(layer => layer.features))
+    .map(field => field.name)
+    .filter(name => name !== 'layer' && name !== 'WKT');
+  const header = ['layer', ...fields, 'WKT'];
+
+  const rows = layers.flatMap(layer =>
+    layer.features.map(feature => [
+      layer.name,
+      ...fields.map(name => formatValue(feature.properties?.[name])),
+      feature.geometry ? toWKT(feature.geometry) : '',
+    ])
+  );
+
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Write layers to a file in the chosen format
+ * @param layers - Layers to export, with the features already filtered
+ * @param format - Output format
+ * @param baseName - File name without extension
+ * @returns File content and name, and the number of geometries the format could not hold
+ */
+export function exportLayers(
+  layers: ExportLayer[],
+  format: ExportFormat,
+  baseName: string
+): { blob: Blob; fileName: string; skippedGeometryCount: number } {
+  const { extension, mimeType } = EXPORT_FORMATS.find(option => option.value === format) ?? EXPORT_FORMATS[0];
+  const fileName = `${toFileName(baseName)}.${extension}`;
+
+  let content: BlobPart;
+  let skippedGeometryCount = 0;
+  switch (format) {
+    case 'kml':
+      content = toKML(layers, baseName);
+      break;
+    case 'csv':
+      content = toCSV(layers);
+      break;
+    case 'shapefile': {
+      // One file set per layer; names made unique inside the archive
+      const usedNames = new Set<string>();
+      const entries = layers.flatMap(layer => {
+        const base = toFileName(layer.name);
+        let name = base;
+        for (let i = 2; usedNames.has(name.toLowerCase()); i++) name = `${base}_${i}`;
+        usedNames.add(name.toLowerCase());
+        const shapefile = createShapefileEntries(layer, getAttributeFields(layer.features), name);
+        skippedGeometryCount += shapefile.skippedGeometryCount;
+        return shapefile.entries;
+      });
+      content = createZip(entries);
+      break;
+    }
+    case 'geopackage':
+      content = createGeoPackage(layers, layers.map(layer => getAttributeFields(layer.features)));
+      break;
+    default:
+      content = toGeoJSON(layers);
+  }
+
+  return { blob: new Blob([content], { type: mimeType }), fileName, skippedGeometryCount };
+}
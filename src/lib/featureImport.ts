@@ -0,0 +1,405 @@
+/**
+ * @fileoverview Import of user GIS files as map layers
+ * Reads GeoJSON, KML/KMZ, GPX and zipped Shapefiles, reprojects them to WGS 84 and
+ * validates every feature, keeping the valid ones and reporting why the others were dropped
+ */
+
+import type { FeatureImportError, ImportedDataset, ImportFormat } from '@/types/map';
+import { getEpsgCode, getTransformFromEpsg, getTransformFromWkt, transformGeometry, type CoordinateTransform } from './projection';
+import { readShapefile } from './shapefile';
+import { readZip } from './zip';
+
+/**
+ * File extensions accepted by the import, for the file picker
+ */
+export const IMPORT_FILE_ACCEPT = '.geojson,.json,.kml,.kmz,.gpx,.zip';
+
+/**
+ * Largest file that can be imported in the browser
+ */
+export const MAX_IMPORT_FILE_SIZE = 50 * 1024 * 1024; // 50 MB
+
+const GEOMETRY_TYPES = ['Point', 'MultiPoint', 'LineString', 'MultiLineString', 'Polygon', 'MultiPolygon', 'GeometryCollection'];
+
+/**
+ * File name without folders nor extension
+ */
+function getBaseName(path: string): string {
+  return path.split(/[\\/]/).pop()!.replace(/\.[^.]+$/, '');
+}
+
+function getExtension(path: string): string {
+  return path.split('.').pop()?.toLowerCase() ?? '';
+}
+
+/**
+ * Problem of a position, or null if it is a valid WGS 84 longitude/latitude
+ */
+function validatePosition(position: unknown): string | null {
+  if (!Array.isArray(position) || position.length < 2 || !position.every(value => typeof value === 'number' && Number.isFinite(value))) {
+    return 'Invalid coordinates';
+  }
+  const [lon, lat] = position;
+  if (lon < -180 || lon > 180 || lat < -90 || lat > 90) {
+    return `Coordinates out of range (${lon}, ${lat}); is the coordinate system missing?`;
+  }
+  return null;
+}
+
+function validatePositions(positions: unknown, minimum: number, label: string): string | null {
+  if (!Array.isArray(positions)) return 'Invalid coordinates';
+  if (positions.length < minimum) return `${label} needs at least ${minimum} points`;
+  for (const position of positions) {
+    const error = validatePosition(position);
+    if (error) return error;
+  }
+  return null;
+}
+
+function validateRings(rings: unknown): string | null {
+  if (!Array.isArray(rings) || rings.length === 0) return 'Polygon without rings';
+  for (const ring of rings) {
+    const error = validatePositions(ring, 4, 'A polygon ring');
+    if (error) return error;
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    if (first[0] !== last[0] || first[1] !== last[1]) return 'Polygon ring is not closed';
+  }
+  return null;
+}
+
+function validateParts(parts: unknown, validatePart: (part: unknown) => string | null): string | null {
+  if (!Array.isArray(parts) || parts.length === 0) return 'Empty geometry';
+  for (const part of parts) {
+    const error = validatePart(part);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * Problem of a geometry, or null if it can be shown on the map
+ */
+export function validateGeometry(geometry: GeoJSON.Geometry | null | undefined): string | null {
+  if (!geometry) return 'Feature without geometry';
+
+  switch (geometry.type) {
+    case 'Point':
+      return validatePosition(geometry.coordinates);
+    case 'MultiPoint':
+      return validatePositions(geometry.coordinates, 1, 'A multipoint');
+    case 'LineString':
+      return validatePositions(geometry.coordinates, 2, 'A line');
+    case 'MultiLineString':
+      return validateParts(geometry.coordinates, line => validatePositions(line, 2, 'A line'));
+    case 'Polygon':
+      return validateRings(geometry.coordinates);
+    case 'MultiPolygon':
+      return validateParts(geometry.coordinates, validateRings);
+    case 'GeometryCollection':
+      return validateParts(geometry.geometries, part => validateGeometry(part as GeoJSON.Geometry));
+    default:
+      return `Unsupported geometry type: ${String((geometry as { type?: unknown }).type)}`;
+  }
+}
+
+/**
+ * Reproject and validate the features read from a file
+ * @param items - Features as read, possibly malformed
+ * @param transform - Transform to WGS 84, or null if already in WGS 84
+ */
+function validateFeatures(
+  items: unknown[],
+  transform: CoordinateTransform | null
+): { features: GeoJSON.Feature[]; errors: FeatureImportError[] } {
+  const features: GeoJSON.Feature[] = [];
+  const errors: FeatureImportError[] = [];
+
+  items.forEach((item, position) => {
+    const index = position + 1;
+    const feature = item as GeoJSON.Feature;
+    if (!feature || typeof feature !== 'object' || feature.type !== 'Feature') {
+      errors.push({ index, message: 'Not a GeoJSON feature' });
+      return;
+    }
+
+    let geometry = feature.geometry;
+    if (geometry && transform && GEOMETRY_TYPES.includes(geometry.type)) {
+      try {
+        geometry = transformGeometry(geometry, transform);
+      } catch {
+        errors.push({ index, message: 'Invalid coordinates' });
+        return;
+      }
+    }
+
+    const message = validateGeometry(geometry);
+    if (message) {
+      errors.push({ index, message });
+      return;
+    }
+
+    features.push({ type: 'Feature', geometry, properties: feature.properties ?? {}, ...(feature.id !== undefined && { id: feature.id }) });
+  });
+
+  return { features, errors };
+}
+
+/**
+ * Build a dataset from the features read from a file
+ */
+function toDataset(
+  fileName: string,
+  name: string,
+  format: ImportFormat,
+  items: unknown[],
+  transform: CoordinateTransform | null = null
+): ImportedDataset {
+  const { features, errors } = validateFeatures(items, transform);
+  return { fileName, name, format, geoData: { type: 'FeatureCollection', features }, errors };
+}
+
+/**
+ * Transform of the legacy `crs` member of a GeoJSON (RFC 7946 files are always WGS 84)
+ */
+function getGeoJSONTransform(crs: unknown): CoordinateTransform | null {
+  const { type, properties } = (crs ?? {}) as { type?: string; properties?: { name?: string; code?: number } };
+  if (type === 'name' && properties?.name) {
+    const code = getEpsgCode(properties.name);
+    if (code === null) throw new Error(`Unsupported coordinate reference system: ${properties.name}`);
+    return getTransformFromEpsg(code);
+  }
+  if (type === 'EPSG' && properties?.code) return getTransformFromEpsg(Number(properties.code));
+  return null;
+}
+
+function parseGeoJSON(text: string, fileName: string): ImportedDataset {
+  let data: { type?: string; features?: unknown; crs?: unknown };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  let items: unknown[];
+  if (data?.type === 'FeatureCollection' && Array.isArray(data.features)) {
+    items = data.features;
+  } else if (data?.type === 'Feature') {
+    items = [data];
+  } else if (typeof data?.type === 'string' && GEOMETRY_TYPES.includes(data.type)) {
+    items = [{ type: 'Feature', geometry: data, properties: {} }];
+  } else {
+    throw new Error('The file is not a GeoJSON feature collection');
+  }
+
+  return toDataset(fileName, getBaseName(fileName), 'geojson', items, getGeoJSONTransform(data.crs));
+}
+
+/**
+ * Parse an XML document
+ * @throws Error if the text is not well-formed XML
+ */
+function parseXml(text: string, formatName: string): Document {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length) {
+    throw new Error(`The file is not valid ${formatName}`);
+  }
+  return document;
+}
+
+/**
+ * Descendants with a tag name, whatever their namespace prefix
+ */
+function findAll(parent: Element | Document, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+function findChildren(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === localName);
+}
+
+function getChildText(parent: Element, localName: string): string | undefined {
+  return findChildren(parent, localName)[0]?.textContent?.trim() || undefined;
+}
+
+/**
+ * KML coordinates: whitespace-separated lon,lat[,alt] tuples
+ */
+function parseKmlCoordinates(element: Element | undefined): GeoJSON.Position[] {
+  const text = element ? getChildText(element, 'coordinates') ?? '' : '';
+  return text.split(/\s+/).filter(Boolean).map(tuple => tuple.split(',').map(Number));
+}
+
+function parseKmlGeometry(element: Element): GeoJSON.Geometry | null {
+  switch (element.localName) {
+    case 'Point':
+      return { type: 'Point', coordinates: parseKmlCoordinates(element)[0] };
+    case 'LineString':
+      return { type: 'LineString', coordinates: parseKmlCoordinates(element) };
+    case 'LinearRing':
+      return { type: 'Polygon', coordinates: [parseKmlCoordinates(element)] };
+    case 'Polygon': {
+      const ring = (boundary: Element) => parseKmlCoordinates(findChildren(boundary, 'LinearRing')[0]);
+      return {
+        type: 'Polygon',
+        coordinates: [
+          ...findChildren(element, 'outerBoundaryIs').map(ring),
+          ...findChildren(element, 'innerBoundaryIs').map(ring),
+        ],
+      };
+    }
+    case 'MultiGeometry': {
+      const geometries = Array.from(element.children)
+        .map(parseKmlGeometry)
+        .filter((geometry): geometry is GeoJSON.Geometry => geometry !== null);
+      const types = new Set(geometries.map(geometry => geometry.type));
+
+      // Parts of a single type become a Multi* geometry
+      if (types.size === 1 && geometries.length > 0) {
+        const [type] = types;
+        if (type === 'Point') return { type: 'MultiPoint', coordinates: geometries.map(geometry => (geometry as GeoJSON.Point).coordinates) };
+        if (type === 'LineString') return { type: 'MultiLineString', coordinates: geometries.map(geometry => (geometry as GeoJSON.LineString).coordinates) };
+        if (type === 'Polygon') return { type: 'MultiPolygon', coordinates: geometries.map(geometry => (geometry as GeoJSON.Polygon).coordinates) };
+      }
+      return { type: 'GeometryCollection', geometries };
+    }
+    default:
+      return null;
+  }
+}
+
+const KML_GEOMETRY_ELEMENTS = ['Point', 'LineString', 'LinearRing', 'Polygon', 'MultiGeometry'];
+
+function parseKML(text: string, fileName: string): ImportedDataset {
+  const document = parseXml(text, 'KML');
+
+  const items = findAll(document, 'Placemark').map(placemark => {
+    const properties: Record<string, unknown> = {};
+    const name = getChildText(placemark, 'name');
+    const description = getChildText(placemark, 'description');
+    if (name) properties.name = name;
+    if (description) properties.description = description;
+
+    // Attributes of <ExtendedData>: <Data name><value> and <SchemaData><SimpleData name>
+    findAll(placemark, 'Data').forEach(data => {
+      const key = data.getAttribute('name');
+      if (key) properties[key] = getChildText(data, 'value') ?? null;
+    });
+    findAll(placemark, 'SimpleData').forEach(data => {
+      const key = data.getAttribute('name');
+      if (key) properties[key] = data.textContent?.trim() ?? null;
+    });
+
+    const geometryElement = Array.from(placemark.children).find(child => KML_GEOMETRY_ELEMENTS.includes(child.localName));
+    return { type: 'Feature', geometry: geometryElement ? parseKmlGeometry(geometryElement) : null, properties };
+  });
+
+  return toDataset(fileName, getBaseName(fileName), 'kml', items);
+}
+
+/**
+ * Position of a GPX point (lat and lon attributes)
+ */
+function getGpxPosition(point: Element): GeoJSON.Position {
+  return [Number(point.getAttribute('lon')), Number(point.getAttribute('lat'))];
+}
+
+function getGpxProperties(element: Element, featureType: string): GeoJSON.GeoJsonProperties {
+  const properties: Record<string, unknown> = { feature_type: featureType };
+  ['name', 'desc', 'type', 'ele', 'time'].forEach(key => {
+    const value = getChildText(element, key);
+    if (value !== undefined) properties[key] = key === 'ele' ? Number(value) : value;
+  });
+  return properties;
+}
+
+function parseGPX(text: string, fileName: string): ImportedDataset {
+  const document = parseXml(text, 'GPX');
+
+  const waypoints = findAll(document, 'wpt').map(point => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: getGpxPosition(point) },
+    properties: getGpxProperties(point, 'waypoint'),
+  }));
+
+  const routes = findAll(document, 'rte').map(route => ({
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: findChildren(route, 'rtept').map(getGpxPosition) },
+    properties: getGpxProperties(route, 'route'),
+  }));
+
+  // A track with several segments (GPS signal lost) becomes a multiline
+  const tracks = findAll(document, 'trk').map(track => {
+    const segments = findChildren(track, 'trkseg').map(segment => findChildren(segment, 'trkpt').map(getGpxPosition));
+    return {
+      type: 'Feature',
+      geometry: segments.length === 1
+        ? { type: 'LineString', coordinates: segments[0] }
+        : { type: 'MultiLineString', coordinates: segments },
+      properties: getGpxProperties(track, 'track'),
+    };
+  });
+
+  return toDataset(fileName, getBaseName(fileName), 'gpx', [...waypoints, ...routes, ...tracks]);
+}
+
+/**
+ * Read the shapefiles of a zip archive, one dataset per .shp
+ */
+async function parseShapefileZip(data: Uint8Array<ArrayBuffer>, fileName: string): Promise<ImportedDataset[]> {
+  // Metadata folders added by macOS are skipped
+  const files = (await readZip(data)).filter(file => !file.name.startsWith('__MACOSX/'));
+  const byPath = new Map(files.map(file => [file.name.toLowerCase(), file.data]));
+  const shapefiles = files.filter(file => getExtension(file.name) === 'shp');
+  if (!shapefiles.length) throw new Error('The archive does not contain any shapefile (.shp)');
+
+  const decoder = new TextDecoder();
+
+  return shapefiles.map(shapefile => {
+    const basePath = shapefile.name.slice(0, -4).toLowerCase();
+    const dbf = byPath.get(`${basePath}.dbf`);
+    const prj = byPath.get(`${basePath}.prj`);
+    const cpg = byPath.get(`${basePath}.cpg`);
+
+    const transform = prj ? getTransformFromWkt(decoder.decode(prj)) : null;
+    const features = readShapefile(shapefile.data, dbf, cpg && decoder.decode(cpg));
+    return toDataset(fileName, getBaseName(shapefile.name), 'shapefile', features, transform);
+  });
+}
+
+/**
+ * Read a GIS file dropped or picked by the user
+ * @param file - GeoJSON, KML, KMZ, GPX or zipped Shapefile
+ * @returns One dataset per layer in the file, with the valid features and the per-feature errors
+ * @throws Error if the file cannot be read as a whole (format, size, projection)
+ */
+export async function importFile(file: File): Promise<ImportedDataset[]> {
+  if (file.size > MAX_IMPORT_FILE_SIZE) {
+    throw new Error(`The file is larger than ${MAX_IMPORT_FILE_SIZE / 1024 / 1024} MB`);
+  }
+
+  switch (getExtension(file.name)) {
+    case 'geojson':
+    case 'json':
+      return [parseGeoJSON(await file.text(), file.name)];
+    case 'kml':
+      return [parseKML(await file.text(), file.name)];
+    case 'kmz': {
+      const files = await readZip(new Uint8Array(await file.arrayBuffer()));
+      const kml = files.find(entry => getExtension(entry.name) === 'kml');
+      if (!kml) throw new Error('The KMZ archive does not contain a KML document');
+      return [parseKML(new TextDecoder().decode(kml.data), file.name)];
+    }
+    case 'gpx':
+      return [parseGPX(await file.text(), file.name)];
+    case 'zip':
+      return parseShapefileZip(new Uint8Array(await file.arrayBuffer()), file.name);
+    case 'shp':
+    case 'dbf':
+    case 'shx':
+    case 'prj':
+      throw new Error('Shapefiles must be imported as a .zip archive with all their files');
+    default:
+      throw new Error('Unsupported file type. Use GeoJSON, KML, KMZ, GPX or a zipped Shapefile');
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Forest statistics for an area of interest or administrative unit
+ * Aggregates BD Forêt® attributes (area, density, biomass, carbon stock) per species,
+ * clipping the parcels that only partially overlap the area
+ */
+
+import type { AreaStatistics, SpeciesStatistics } from '@/types/map';
+import {
+  boundingBoxesIntersect,
+  calculatePolygonArea,
+  getGeometryBoundingBox,
+} from './mapUtils';
+
+type Area = GeoJSON.Polygon | GeoJSON.MultiPolygon;
+type BoundingBox = [number, number, number, number];
+
+/**
+ * Signed planar area of a closed ring (positive when counter-clockwise)
+ */
+function getRingSignedArea(ring: GeoJSON.Position[]): number {
+  let total = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    total += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return total / 2;
+}
+
+/**
+ * Planar area of a polygon or multipolygon, in squared degrees (holes excluded)
+ */
+function getPlanarArea(geometry: Area): number {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.reduce(
+    (sum, [outer, ...holes]) =>
+      sum + Math.abs(getRingSignedArea(outer)) -
+      holes.reduce((holeSum, hole) => holeSum + Math.abs(getRingSignedArea(hole)), 0),
+    0
+  );
+}
+
+/**
+ * Clip a closed ring with a convex counter-clockwise polygon (Sutherland–Hodgman)
+ * The result may contain degenerate edges on concave rings, but its area is exact
+ */
+function clipRingToConvexPolygon(
+  ring: GeoJSON.Position[],
+  clip: GeoJSON.Position[]
+): GeoJSON.Position[] {
+  let output = ring.slice(0, -1);
+
+  for (let i = 0; i < clip.length && output.length > 0; i++) {
+    const [ax, ay] = clip[i];
+    const [bx, by] = clip[(i + 1) % clip.length];
+    const inside = ([x, y]: GeoJSON.Position) => (bx - ax) * (y - ay) - (by - ay) * (x - ax) >= 0;
+    const intersect = ([px, py]: GeoJSON.Position, [qx, qy]: GeoJSON.Position): GeoJSON.Position => {
+      const denominator = (px - qx) * (ay - by) - (py - qy) * (ax - bx);
+      const t = ((px - ax) * (ay - by) - (py - ay) * (ax - bx)) / denominator;
+      return [px + t * (qx - px), py + t * (qy - py)];
+    };
+
+    const input = output;
+    output = [];
+    input.forEach((current, j) => {
+      const previous = input[(j + input.length - 1) % input.length];
+      if (inside(current)) {
+        if (!inside(previous)) output.push(intersect(previous, current));
+        output.push(current);
+      } else if (inside(previous)) {
+        output.push(intersect(previous, current));
+      }
+    });
+  }
+
+  return output.length >= 3 ? [...output, output[0]] : [];
+}
+
+/**
+ * Planar area of the part of a geometry inside a convex polygon
+ */
+function getClippedPlanarArea(geometry: Area, clip: GeoJSON.Position[]): number {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.reduce((sum, [outer, ...holes]) => {
+    const outerArea = Math.abs(getRingSignedArea(clipRingToConvexPolygon(outer, clip)));
+    const holesArea = holes.reduce(
+      (holeSum, hole) => holeSum + Math.abs(getRingSignedArea(clipRingToConvexPolygon(hole, clip))),
+      0
+    );
+    return sum + outerArea - holesArea;
+  }, 0);
+}
+
+/**
+ * Planar area of the intersection between a geometry and an area
+ *
+ * The area is decomposed into signed trapezoids, one per edge, between the edge and
+ * the southern edge of its bounding box. The trapezoids are convex, so the geometry can
+ * be clipped with each of them; the signed sum of the clipped areas is the intersection.
+ * This works for concave areas, holes and multipolygons without a general polygon clipper.
+ */
+function getIntersectionPlanarArea(geometry: Area, area: Area, areaBbox: BoundingBox): number {
+  const geometryBbox = getGeometryBoundingBox(geometry);
+  const baseline = areaBbox[1];
+  const polygons = area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+  let total = 0;
+
+  polygons.forEach(rings => {
+    rings.forEach((ring, ringIndex) => {
+      // Outer rings add, holes subtract, whatever their winding order
+      const ringSign = (ringIndex === 0 ? 1 : -1) * Math.sign(getRingSignedArea(ring));
+
+      for (let i = 0; i < ring.length - 1; i++) {
+        const a = ring[i];
+        const b = ring[i + 1];
+        if (a[0] === b[0]) continue;
+
+        const trapezoidBbox: BoundingBox = [
+          Math.min(a[0], b[0]),
+          baseline,
+          Math.max(a[0], b[0]),
+          Math.max(a[1], b[1]),
+        ];
+        if (!boundingBoxesIntersect(trapezoidBbox, geometryBbox)) continue;
+
+        // Edges running westwards lie on top of a counter-clockwise ring
+        const edgeSign = a[0] > b[0] ? 1 : -1;
+        const [west, east] = a[0] < b[0] ? [a, b] : [b, a];
+        const trapezoid: GeoJSON.Position[] = [west, [west[0], baseline], [east[0], baseline], east];
+
+        total += ringSign * edgeSign * getClippedPlanarArea(geometry, trapezoid);
+      }
+    });
+  });
+
+  return Math.max(0, total);
+}
+
+/**
+ * Numeric attribute of a feature, 0 when missing
+ */
+function getNumericProperty(feature: GeoJSON.Feature, key: string): number {
+  const value = Number(feature.properties?.[key]);
+  return Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Compute forest statistics of the features inside an area
+ *
+ * Feature attributes follow the BD Forêt® API: `area` in hectares, `density` between 0 and 1,
+ * `biomass` in t/ha and `carbonStock` in tC/ha. Parcels crossing the area border only count
+ * for the overlapping fraction of their surface.
+ */
+export function calculateAreaStatistics(
+  features: GeoJSON.Feature[],
+  area: Area
+): AreaStatistics {
+  const areaBbox = getGeometryBoundingBox(area);
+  const bySpecies = new Map<string, SpeciesStatistics>();
+  let densityWeight = 0;
+  let featureCount = 0;
+
+  features.forEach(feature => {
+    const geometry = feature.geometry;
+    if (geometry?.type !== 'Polygon' && geometry?.type !== 'MultiPolygon') return;
+    if (!boundingBoxesIntersect(getGeometryBoundingBox(geometry), areaBbox)) return;
+
+    const planarArea = getPlanarArea(geometry);
+    if (planarArea <= 0) return;
+
+    const overlap = Math.min(1, getIntersectionPlanarArea(geometry, area, areaBbox) / planarArea);
+    if (overlap <= 0) return;
+
+    // Prefer the declared surface; compute it when the API does not provide it
+    const featureArea = getNumericProperty(feature, 'area') || calculatePolygonArea(geometry) / 10000;
+    const hectares = featureArea * overlap;
+
+    const speciesId = String(feature.properties?.speciesId ?? feature.properties?.species ?? 'unknown');
+    const current = bySpecies.get(speciesId) ?? {
+      speciesId,
+      name: String(feature.properties?.commonName ?? feature.properties?.species ?? speciesId),
+      area: 0,
+      biomass: 0,
+      carbonStock: 0,
+    };
+
+    current.area += hectares;
+    current.biomass += getNumericProperty(feature, 'biomass') * hectares;
+    current.carbonStock += getNumericProperty(feature, 'carbonStock') * hectares;
+    bySpecies.set(speciesId, current);
+
+    densityWeight += getNumericProperty(feature, 'density') * hectares;
+    featureCount++;
+  });
+
+  const species = [...bySpecies.values()].sort((a, b) => b.area - a.area);
+  const totalArea = species.reduce((sum, item) => sum + item.area, 0);
+
+  return {
+    totalArea,
+    meanDensity: totalArea > 0 ? densityWeight / totalArea : 0,
+    totalBiomass: species.reduce((sum, item) => sum + item.biomass, 0),
+    totalCarbonStock: species.reduce((sum, item) => sum + item.carbonStock, 0),
+    featureCount,
+    species,
+  };
+}
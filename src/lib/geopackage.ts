@@ -0,0 +1,665 @@
+/**
+ * @fileoverview GeoPackage writer
+ * Writes an OGC GeoPackage (an SQLite 3 database) with one feature table per layer in WGS 84.
+ * The database file is built directly: table b-trees with overflow pages, the automatic
+ * indexes of the GeoPackage metadata tables and GeoPackage binary geometries (WKB)
+ */
+
+import type { AttributeField, ExportLayer } from '@/types/map';
+import { getGeometryBoundingBox } from './mapUtils';
+
+const PAGE_SIZE = 4096;
+
+// Largest payload kept inside a table leaf cell, and minimum local part of a spilled one
+const MAX_LOCAL_PAYLOAD = PAGE_SIZE - 35;
+const MIN_LOCAL_PAYLOAD = Math.floor(((PAGE_SIZE - 12) * 32) / 255) - 23;
+
+// Largest payload kept inside an index cell
+const MAX_INDEX_PAYLOAD = Math.floor(((PAGE_SIZE - 12) * 64) / 255) - 23;
+
+const WGS84_SRS_ID = 4326;
+
+const WGS84_DEFINITION =
+  'GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563,AUTHORITY["EPSG","7030"]],' +
+  'AUTHORITY["EPSG","6326"]],PRIMEM["Greenwich",0,AUTHORITY["EPSG","8901"]],' +
+  'UNIT["degree",0.0174532925199433,AUTHORITY["EPSG","9122"]],' +
+  'AXIS["Latitude",NORTH],AXIS["Longitude",EAST],AUTHORITY["EPSG","4326"]]';
+
+// Table definitions of the GeoPackage 1.3 specification
+const SRS_TABLE_SQL =
+  'CREATE TABLE gpkg_spatial_ref_sys (srs_name TEXT NOT NULL, srs_id INTEGER PRIMARY KEY, ' +
+  'organization TEXT NOT NULL, organization_coordsys_id INTEGER NOT NULL, definition TEXT NOT NULL, ' +
+  'description TEXT)';
+
+const CONTENTS_TABLE_SQL =
+  'CREATE TABLE gpkg_contents (table_name TEXT NOT NULL PRIMARY KEY, data_type TEXT NOT NULL, ' +
+  "identifier TEXT UNIQUE, description TEXT DEFAULT '', " +
+  "last_change DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')), " +
+  'min_x DOUBLE, min_y DOUBLE, max_x DOUBLE, max_y DOUBLE, srs_id INTEGER, ' +
+  'CONSTRAINT fk_gc_r_srs_id FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys(srs_id))';
+
+const GEOMETRY_COLUMNS_TABLE_SQL =
+  'CREATE TABLE gpkg_geometry_columns (table_name TEXT NOT NULL, column_name TEXT NOT NULL, ' +
+  'geometry_type_name TEXT NOT NULL, srs_id INTEGER NOT NULL, z TINYINT NOT NULL, m TINYINT NOT NULL, ' +
+  'CONSTRAINT pk_geom_cols PRIMARY KEY (table_name, column_name), ' +
+  'CONSTRAINT uk_gc_table_name UNIQUE (table_name), ' +
+  'CONSTRAINT fk_gc_tn FOREIGN KEY (table_name) REFERENCES gpkg_contents(table_name), ' +
+  'CONSTRAINT fk_gc_srs FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys (srs_id))';
+
+/**
+ * Floating point value, stored as REAL even when it has no decimals
+ */
+interface SqlReal {
+  real: number;
+}
+
+/**
+ * Value of a column: integers are plain numbers
+ */
+type SqlValue = null | number | SqlReal | string | Uint8Array;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Growable little-endian byte buffer
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  length = 0;
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.length) return;
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + size) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  uint8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  uint32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.length, value, true);
+    this.length += 4;
+  }
+
+  int32(value: number): void {
+    this.reserve(4);
+    this.view.setInt32(this.length, value, true);
+    this.length += 4;
+  }
+
+  float64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.length, value, true);
+    this.length += 8;
+  }
+
+  bytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+const WKB_TYPES: Record<GeoJSON.Geometry['type'], number> = {
+  Point: 1,
+  LineString: 2,
+  Polygon: 3,
+  MultiPoint: 4,
+  MultiLineString: 5,
+  MultiPolygon: 6,
+  GeometryCollection: 7,
+};
+
+/**
+ * Write a geometry as ISO WKB (little endian, 2D)
+ */
+function writeWkb(writer: ByteWriter, geometry: GeoJSON.Geometry): void {
+  const writePoints = (points: GeoJSON.Position[]) => {
+    writer.uint32(points.length);
+    points.forEach(([x, y]) => {
+      writer.float64(x);
+      writer.float64(y);
+    });
+  };
+
+  writer.uint8(1);
+  writer.uint32(WKB_TYPES[geometry.type]);
+
+  switch (geometry.type) {
+    case 'Point':
+      writer.float64(geometry.coordinates[0] ?? NaN);
+      writer.float64(geometry.coordinates[1] ?? NaN);
+      break;
+    case 'LineString':
+      writePoints(geometry.coordinates);
+      break;
+    case 'Polygon':
+      writer.uint32(geometry.coordinates.length);
+      geometry.coordinates.forEach(writePoints);
+      break;
+    case 'MultiPoint':
+      writer.uint32(geometry.coordinates.length);
+      geometry.coordinates.forEach(coordinates => writeWkb(writer, { type: 'Point', coordinates }));
+      break;
+    case 'MultiLineString':
+      writer.uint32(geometry.coordinates.length);
+      geometry.coordinates.forEach(coordinates => writeWkb(writer, { type: 'LineString', coordinates }));
+      break;
+    case 'MultiPolygon':
+      writer.uint32(geometry.coordinates.length);
+      geometry.coordinates.forEach(coordinates => writeWkb(writer, { type: 'Polygon', coordinates }));
+      break;
+    case 'GeometryCollection':
+      writer.uint32(geometry.geometries.length);
+      geometry.geometries.forEach(child => writeWkb(writer, child));
+      break;
+  }
+}
+
+/**
+ * GeoPackage binary geometry: header with SRS id and XY envelope, then WKB
+ */
+function encodeGeometry(geometry: GeoJSON.Geometry): Uint8Array {
+  const [minX, minY, maxX, maxY] = getGeometryBoundingBox(geometry);
+  const isEmpty = !Number.isFinite(minX);
+  const writer = new ByteWriter();
+
+  writer.uint8(0x47); // 'G'
+  writer.uint8(0x50); // 'P'
+  writer.uint8(0); // version 1
+  // Little endian; XY envelope, or the empty flag without envelope
+  writer.uint8(isEmpty ? 0x11 : 0x03);
+  writer.int32(WGS84_SRS_ID);
+  if (!isEmpty) {
+    writer.float64(minX);
+    writer.float64(maxX);
+    writer.float64(minY);
+    writer.float64(maxY);
+  }
+  writeWkb(writer, geometry);
+
+  return writer.bytes();
+}
+
+/**
+ * SQLite variable-length integer (big endian, 7 bits per byte, 9 bytes at most)
+ */
+function encodeVarint(value: number): Uint8Array {
+  let remaining = BigInt.asUintN(64, BigInt(value));
+  const lowBits = BigInt(0x7f);
+  const seven = BigInt(7);
+
+  if (remaining >= BigInt(1) << BigInt(56)) {
+    const bytes = new Uint8Array(9);
+    bytes[8] = Number(remaining & BigInt(0xff));
+    remaining >>= BigInt(8);
+    for (let i = 7; i >= 0; i--) {
+      bytes[i] = Number(remaining & lowBits) | 0x80;
+      remaining >>= seven;
+    }
+    return bytes;
+  }
+
+  const groups: number[] = [];
+  do {
+    groups.unshift(Number(remaining & lowBits) | 0x80);
+    remaining >>= seven;
+  } while (remaining > BigInt(0));
+  groups[groups.length - 1] &= 0x7f;
+  return Uint8Array.from(groups);
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+}
+
+/**
+ * Serial type and body of an integer, using the smallest storage class
+ */
+function encodeInteger(value: number): { type: number; body: Uint8Array } {
+  if (value === 0) return { type: 8, body: new Uint8Array(0) };
+  if (value === 1) return { type: 9, body: new Uint8Array(0) };
+
+  const sizes: Array<[number, number]> = [[1, 1], [2, 2], [3, 3], [4, 4], [5, 6]];
+  for (const [type, size] of sizes) {
+    const limit = 2 ** (size * 8 - 1);
+    if (value >= -limit && value < limit) {
+      const body = new Uint8Array(size);
+      let remaining = value < 0 ? value + 2 ** (size * 8) : value;
+      for (let i = size - 1; i >= 0; i--) {
+        body[i] = remaining % 256;
+        remaining = Math.floor(remaining / 256);
+      }
+      return { type, body };
+    }
+  }
+
+  const body = new Uint8Array(8);
+  new DataView(body.buffer).setBigInt64(0, BigInt(value), false);
+  return { type: 6, body };
+}
+
+/**
+ * Encode a row in the SQLite record format
+ */
+function encodeRecord(values: SqlValue[]): Uint8Array {
+  const columns = values.map(value => {
+    if (value === null) return { type: 0, body: new Uint8Array(0) };
+    if (typeof value === 'string') {
+      const body = textEncoder.encode(value);
+      return { type: body.length * 2 + 13, body };
+    }
+    if (value instanceof Uint8Array) return { type: value.length * 2 + 12, body: value };
+    if (typeof value === 'number' && Number.isSafeInteger(value)) return encodeInteger(value);
+
+    const body = new Uint8Array(8);
+    new DataView(body.buffer).setFloat64(0, typeof value === 'number' ? value : value.real, false);
+    return { type: 7, body };
+  });
+
+  const serialTypes = columns.map(column => encodeVarint(column.type));
+  const typesLength = serialTypes.reduce((sum, bytes) => sum + bytes.length, 0);
+  let headerLength = typesLength + 1;
+  if (encodeVarint(headerLength).length > 1) headerLength = typesLength + encodeVarint(typesLength + 2).length;
+
+  return concatBytes([encodeVarint(headerLength), ...serialTypes, ...columns.map(column => column.body)]);
+}
+
+/**
+ * Pages of the database file; page numbers start at 1
+ */
+class PageAllocator {
+  pages: Uint8Array[] = [new Uint8Array(PAGE_SIZE)];
+
+  allocate(): number {
+    this.pages.push(new Uint8Array(PAGE_SIZE));
+    return this.pages.length;
+  }
+
+  get(pageNumber: number): Uint8Array {
+    return this.pages[pageNumber - 1];
+  }
+}
+
+/**
+ * Write a b-tree page: header, cell pointer array and cells packed at the end of the page
+ * @param headerOffset - 100 on page 1, after the database header
+ */
+function writeBTreePage(
+  page: Uint8Array,
+  headerOffset: number,
+  pageType: number,
+  cells: Uint8Array[],
+  rightChild?: number
+): void {
+  const view = new DataView(page.buffer, page.byteOffset, page.byteLength);
+  const isInterior = rightChild !== undefined;
+  const headerSize = isInterior ? 12 : 8;
+
+  let contentStart = PAGE_SIZE;
+  cells.forEach((cell, index) => {
+    contentStart -= cell.length;
+    page.set(cell, contentStart);
+    view.setUint16(headerOffset + headerSize + index * 2, contentStart, false);
+  });
+
+  view.setUint8(headerOffset, pageType);
+  view.setUint16(headerOffset + 1, 0, false);
+  view.setUint16(headerOffset + 3, cells.length, false);
+  view.setUint16(headerOffset + 5, contentStart, false);
+  view.setUint8(headerOffset + 7, 0);
+  if (isInterior) view.setUint32(headerOffset + 8, rightChild, false);
+}
+
+/**
+ * Table leaf cell; payloads too large for a page spill into a chain of overflow pages
+ */
+function createTableLeafCell(allocator: PageAllocator, rowid: number, payload: Uint8Array): Uint8Array {
+  const prefix = [encodeVarint(payload.length), encodeVarint(rowid)];
+  if (payload.length <= MAX_LOCAL_PAYLOAD) return concatBytes([...prefix, payload]);
+
+  const spill = MIN_LOCAL_PAYLOAD + ((payload.length - MIN_LOCAL_PAYLOAD) % (PAGE_SIZE - 4));
+  const localSize = spill <= MAX_LOCAL_PAYLOAD ? spill : MIN_LOCAL_PAYLOAD;
+
+  const chunkSize = PAGE_SIZE - 4;
+  const overflowPages: number[] = [];
+  for (let offset = localSize; offset < payload.length; offset += chunkSize) {
+    overflowPages.push(allocator.allocate());
+  }
+  overflowPages.forEach((pageNumber, index) => {
+    const page = allocator.get(pageNumber);
+    new DataView(page.buffer).setUint32(0, overflowPages[index + 1] ?? 0, false);
+    const start = localSize + index * chunkSize;
+    page.set(payload.subarray(start, start + chunkSize), 4);
+  });
+
+  const pointer = new Uint8Array(4);
+  new DataView(pointer.buffer).setUint32(0, overflowPages[0], false);
+  return concatBytes([...prefix, payload.subarray(0, localSize), pointer]);
+}
+
+/**
+ * Split cells into pages without exceeding the page capacity
+ */
+function packCells<T extends { cell: Uint8Array }>(items: T[], capacity: number): T[][] {
+  const groups: T[][] = [[]];
+  let used = 0;
+  items.forEach(item => {
+    const size = item.cell.length + 2;
+    if (used + size > capacity && groups[groups.length - 1].length > 0) {
+      groups.push([]);
+      used = 0;
+    }
+    groups[groups.length - 1].push(item);
+    used += size;
+  });
+  return groups;
+}
+
+/**
+ * Build a table b-tree from rows sorted by rowid
+ * @param rootPage - Page the root must be written to (page 1 for the schema table)
+ * @returns Root page number
+ */
+function buildTableBTree(
+  allocator: PageAllocator,
+  rows: Array<{ rowid: number; record: Uint8Array }>,
+  rootPage?: number
+): number {
+  const headerOffset = rootPage === 1 ? 100 : 0;
+  const leafItems = rows.map(row => ({
+    rowid: row.rowid,
+    cell: createTableLeafCell(allocator, row.rowid, row.record),
+  }));
+
+  const leaves = packCells(leafItems, PAGE_SIZE - headerOffset - 8);
+  if (leaves.length === 1) {
+    const pageNumber = rootPage ?? allocator.allocate();
+    writeBTreePage(allocator.get(pageNumber), headerOffset, 0x0d, leaves[0].map(item => item.cell));
+    return pageNumber;
+  }
+
+  let level = leaves.map(items => {
+    const pageNumber = allocator.allocate();
+    writeBTreePage(allocator.get(pageNumber), 0, 0x0d, items.map(item => item.cell));
+    return { pageNumber, maxRowid: items[items.length - 1].rowid };
+  });
+
+  // Interior levels: one cell per child but the last, which is the right-most pointer
+  for (;;) {
+    const children = level.map(child => ({
+      ...child,
+      cell: concatBytes([
+        (() => {
+          const pointer = new Uint8Array(4);
+          new DataView(pointer.buffer).setUint32(0, child.pageNumber, false);
+          return pointer;
+        })(),
+        encodeVarint(child.maxRowid),
+      ]),
+    }));
+
+    const groups = packCells(children, PAGE_SIZE - headerOffset - 12);
+    const isRoot = groups.length === 1;
+
+    level = groups.map(group => {
+      const pageNumber = isRoot && rootPage ? rootPage : allocator.allocate();
+      const right = group[group.length - 1];
+      writeBTreePage(
+        allocator.get(pageNumber),
+        pageNumber === 1 ? 100 : 0,
+        0x05,
+        group.slice(0, -1).map(child => child.cell),
+        right.pageNumber
+      );
+      return { pageNumber, maxRowid: right.maxRowid };
+    });
+
+    if (isRoot) return level[0].pageNumber;
+  }
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Build the single-page b-tree of an automatic index over text columns
+ * @param entries - Indexed text values of each row, with its rowid
+ * @returns Root page number
+ */
+function buildTextIndex(allocator: PageAllocator, entries: Array<{ keys: string[]; rowid: number }>): number {
+  const cells = entries
+    .map(entry => ({ encodedKeys: entry.keys.map(key => textEncoder.encode(key)), entry }))
+    .sort((a, b) => {
+      for (let i = 0; i < a.encodedKeys.length; i++) {
+        const order = compareBytes(a.encodedKeys[i], b.encodedKeys[i]);
+        if (order !== 0) return order;
+      }
+      return a.entry.rowid - b.entry.rowid;
+    })
+    .map(({ entry }) => {
+      const payload = encodeRecord([...entry.keys, entry.rowid]);
+      if (payload.length > MAX_INDEX_PAYLOAD) throw new Error('Layer name too long for a GeoPackage');
+      return concatBytes([encodeVarint(payload.length), payload]);
+    });
+
+  const used = cells.reduce((sum, cell) => sum + cell.length + 2, 0);
+  if (used > PAGE_SIZE - 8) throw new Error('Too many layers for a single GeoPackage');
+
+  const pageNumber = allocator.allocate();
+  writeBTreePage(allocator.get(pageNumber), 0, 0x0a, cells);
+  return pageNumber;
+}
+
+/**
+ * Database header at the start of page 1
+ */
+function writeDatabaseHeader(page: Uint8Array, pageCount: number): void {
+  const view = new DataView(page.buffer);
+  page.set(textEncoder.encode('SQLite format 3\0'), 0);
+  view.setUint16(16, PAGE_SIZE, false);
+  page[18] = 1; // file format write version (rollback journal)
+  page[19] = 1; // read version
+  page[20] = 0; // reserved bytes per page
+  page[21] = 64; // max embedded payload fraction
+  page[22] = 32; // min embedded payload fraction
+  page[23] = 32; // leaf payload fraction
+  view.setUint32(24, 1, false); // file change counter
+  view.setUint32(28, pageCount, false);
+  view.setUint32(40, 1, false); // schema cookie
+  view.setUint32(44, 4, false); // schema format
+  view.setUint32(56, 1, false); // UTF-8
+  view.setUint32(60, 10300, false); // user_version: GeoPackage 1.3
+  view.setUint32(68, 0x47504b47, false); // application_id: 'GPKG'
+  view.setUint32(92, 1, false); // version-valid-for
+  view.setUint32(96, 3045000, false); // SQLite version number
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Unique table names: lower case ASCII, without the reserved gpkg_/sqlite_ prefixes
+ */
+function getTableNames(layerNames: string[]): string[] {
+  const used = new Set<string>();
+  return layerNames.map(name => {
+    let base = name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9_]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 48) || 'layer';
+    if (/^(\d|gpkg_|sqlite_)/.test(base)) base = `layer_${base}`;
+
+    let candidate = base;
+    for (let i = 2; used.has(candidate); i++) candidate = `${base}_${i}`;
+    used.add(candidate);
+    return candidate;
+  });
+}
+
+/**
+ * Attribute columns, renamed when they clash (case-insensitively) with another column
+ */
+function getColumnNames(fields: AttributeField[]): string[] {
+  const used = new Set(['fid', 'geom']);
+  return fields.map(field => {
+    let candidate = field.name || 'field';
+    for (let i = 2; used.has(candidate.toLowerCase()); i++) candidate = `${field.name || 'field'}_${i}`;
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
+
+const COLUMN_TYPES: Record<AttributeField['type'], string> = {
+  integer: 'INTEGER',
+  real: 'REAL',
+  boolean: 'BOOLEAN',
+  text: 'TEXT',
+};
+
+function toSqlValue(value: unknown, type: AttributeField['type']): SqlValue {
+  if (value === null || value === undefined) return null;
+  switch (type) {
+    case 'integer':
+    case 'real': {
+      const number = Number(value);
+      if (!Number.isFinite(number)) return null;
+      return type === 'integer' && Number.isSafeInteger(number) ? number : { real: number };
+    }
+    case 'boolean':
+      return value ? 1 : 0;
+    default:
+      return typeof value === 'string' ? value : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+/**
+ * Geometry type of a layer: the shared type of its features, or GEOMETRY when mixed
+ */
+function getGeometryTypeName(features: GeoJSON.Feature[]): string {
+  const types = new Set(features.flatMap(feature => (feature.geometry ? [feature.geometry.type] : [])));
+  return types.size === 1 ? [...types][0].toUpperCase() : 'GEOMETRY';
+}
+
+/**
+ * Build a GeoPackage with one feature table per layer
+ * @param layers - Layers to write
+ * @param fieldsByLayer - Attribute columns of each layer, in the same order
+ */
+export function createGeoPackage(layers: ExportLayer[], fieldsByLayer: AttributeField[][]): Uint8Array<ArrayBuffer> {
+  const allocator = new PageAllocator();
+  const tableNames = getTableNames(layers.map(layer => layer.name));
+  const lastChange = new Date().toISOString();
+
+  // Unique identifiers, as gpkg_contents requires
+  const usedIdentifiers = new Set<string>();
+  const identifiers = layers.map(layer => {
+    let candidate = layer.name;
+    for (let i = 2; usedIdentifiers.has(candidate); i++) candidate = `${layer.name} (${i})`;
+    usedIdentifiers.add(candidate);
+    return candidate;
+  });
+
+  const srsRoot = buildTableBTree(allocator, [
+    { rowid: -1, record: encodeRecord(['Undefined cartesian SRS', null, 'NONE', -1, 'undefined', 'undefined cartesian coordinate reference system']) },
+    { rowid: 0, record: encodeRecord(['Undefined geographic SRS', null, 'NONE', 0, 'undefined', 'undefined geographic coordinate reference system']) },
+    { rowid: WGS84_SRS_ID, record: encodeRecord(['WGS 84 geodetic', null, 'EPSG', WGS84_SRS_ID, WGS84_DEFINITION, 'longitude/latitude coordinates in decimal degrees on the WGS 84 spheroid']) },
+  ]);
+
+  const schemaRows: SqlValue[][] = [['table', 'gpkg_spatial_ref_sys', 'gpkg_spatial_ref_sys', srsRoot, SRS_TABLE_SQL]];
+  const contentsRows: Array<{ rowid: number; record: Uint8Array }> = [];
+  const geometryColumnsRows: Array<{ rowid: number; record: Uint8Array }> = [];
+  const featureTables: Array<{ name: string; sql: string; rootPage: number }> = [];
+
+  layers.forEach((layer, index) => {
+    const tableName = tableNames[index];
+    const fields = fieldsByLayer[index] ?? [];
+    const columnNames = getColumnNames(fields);
+    const geometryType = getGeometryTypeName(layer.features);
+
+    const sql = `CREATE TABLE ${quoteIdentifier(tableName)} (` +
+      ['"fid" INTEGER PRIMARY KEY', `"geom" ${geometryType}`]
+        .concat(fields.map((field, i) => `${quoteIdentifier(columnNames[i])} ${COLUMN_TYPES[field.type]}`))
+        .join(', ') +
+      ')';
+
+    const rootPage = buildTableBTree(
+      allocator,
+      layer.features.map((feature, featureIndex) => ({
+        rowid: featureIndex + 1,
+        record: encodeRecord([
+          null,
+          feature.geometry ? encodeGeometry(feature.geometry) : null,
+          ...fields.map(field => toSqlValue(feature.properties?.[field.name], field.type)),
+        ]),
+      }))
+    );
+    featureTables.push({ name: tableName, sql, rootPage });
+
+    const geometries = layer.features.flatMap(feature => (feature.geometry ? [feature.geometry] : []));
+    const bbox = geometries.length
+      ? getGeometryBoundingBox({ type: 'GeometryCollection', geometries })
+      : null;
+    const bounds: SqlValue[] = bbox && Number.isFinite(bbox[0])
+      ? bbox.map(value => ({ real: value }))
+      : [null, null, null, null];
+
+    contentsRows.push({
+      rowid: index + 1,
+      record: encodeRecord([tableName, 'features', identifiers[index], '', lastChange, ...bounds, WGS84_SRS_ID]),
+    });
+    geometryColumnsRows.push({
+      rowid: index + 1,
+      record: encodeRecord([tableName, 'geom', geometryType, WGS84_SRS_ID, 0, 0]),
+    });
+  });
+
+  const contentsRoot = buildTableBTree(allocator, contentsRows);
+  const contentsPrimaryKey = buildTextIndex(allocator, tableNames.map((name, i) => ({ keys: [name], rowid: i + 1 })));
+  const contentsIdentifier = buildTextIndex(allocator, identifiers.map((name, i) => ({ keys: [name], rowid: i + 1 })));
+  const geometryColumnsRoot = buildTableBTree(allocator, geometryColumnsRows);
+  const geometryColumnsPrimaryKey = buildTextIndex(allocator, tableNames.map((name, i) => ({ keys: [name, 'geom'], rowid: i + 1 })));
+  const geometryColumnsUnique = buildTextIndex(allocator, tableNames.map((name, i) => ({ keys: [name], rowid: i + 1 })));
+
+  // Automatic indexes follow the table that declares them
+  schemaRows.push(
+    ['table', 'gpkg_contents', 'gpkg_contents', contentsRoot, CONTENTS_TABLE_SQL],
+    ['index', 'sqlite_autoindex_gpkg_contents_1', 'gpkg_contents', contentsPrimaryKey, null],
+    ['index', 'sqlite_autoindex_gpkg_contents_2', 'gpkg_contents', contentsIdentifier, null],
+    ['table', 'gpkg_geometry_columns', 'gpkg_geometry_columns', geometryColumnsRoot, GEOMETRY_COLUMNS_TABLE_SQL],
+    ['index', 'sqlite_autoindex_gpkg_geometry_columns_1', 'gpkg_geometry_columns', geometryColumnsPrimaryKey, null],
+    ['index', 'sqlite_autoindex_gpkg_geometry_columns_2', 'gpkg_geometry_columns', geometryColumnsUnique, null],
+    ...featureTables.map((table): SqlValue[] => ['table', table.name, table.name, table.rootPage, table.sql])
+  );
+
+  buildTableBTree(
+    allocator,
+    schemaRows.map((row, index) => ({ rowid: index + 1, record: encodeRecord(row) })),
+    1
+  );
+  writeDatabaseHeader(allocator.get(1), allocator.pages.length);
+
+  return concatBytes(allocator.pages);
+}
@@ -3,7 +3,18 @@
  * Following SOLID principles and pure functions
  */
 
-import { MapViewState, MapConfig, MapFilters } from '@/types/map';
+import type { ExpressionSpecification } from 'mapbox-gl';
+import {
+  BasemapStyle,
+  MapViewState,
+  MapConfig,
+  MapFilters,
+  MapSession,
+  MapTile,
+  MeasureUnits,
+  TreeSpecies,
+} from '@/types/map';
+import type { UserPreferences } from '@/types/user';
 
 /**
  * Default configuration for France
@@ -27,6 +38,46 @@ export const MAP_STYLES = {
   DARK: 'mapbox://styles/mapbox/dark-v11',
 } as const;
 
+/**
+ * Style URL of each basemap
+ */
+export const BASEMAP_STYLE_URLS: Record<BasemapStyle, string> = {
+  streets: MAP_STYLES.STREETS,
+  satellite: MAP_STYLES.SATELLITE,
+  outdoors: MAP_STYLES.OUTDOOR,
+  light: MAP_STYLES.LIGHT,
+  dark: MAP_STYLES.DARK,
+};
+
+/**
+ * Basemaps offered by the style switcher, in display order
+ */
+export const BASEMAP_OPTIONS: Array<{ value: BasemapStyle; label: string }> = [
+  { value: 'streets', label: 'Streets' },
+  { value: 'satellite', label: 'Satellite' },
+  { value: 'outdoors', label: 'Outdoors' },
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+];
+
+/**
+ * Whether a value is a known basemap (e.g. read back from storage)
+ */
+export function isBasemapStyle(value: unknown): value is BasemapStyle {
+  return typeof value === 'string' && Object.hasOwn(BASEMAP_STYLE_URLS, value);
+}
+
+/**
+ * Thumbnail of a basemap from the Mapbox Static Images API
+ * Always centred on France so the browser can cache it
+ */
+export function getBasemapThumbnailUrl(style: BasemapStyle, accessToken: string, size = 64): string {
+  const styleId = BASEMAP_STYLE_URLS[style].replace('mapbox://styles/', '');
+  const { longitude, latitude } = FRANCE_DEFAULT_VIEW;
+  return `https://api.mapbox.com/styles/v1/${styleId}/static/${longitude},${latitude},4.5/${size}x${size}@2x` +
+    `?access_token=${accessToken}&attribution=false&logo=false`;
+}
+
 /**
  * Validate Mapbox token
  */
@@ -36,8 +87,13 @@ export function validateMapboxToken(token: string): string {
 
 /**
  * Create map configuration with default values
+ * @param overrides - Explicit configuration, applied last
+ * @param preferences - User preferences (map style, default view, units, language)
  */
-export function createMapConfig(overrides?: Partial<MapConfig>): MapConfig {
+export function createMapConfig(
+  overrides?: Partial<MapConfig>,
+  preferences?: Partial<UserPreferences>
+): MapConfig {
   const accessToken = process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN;
   
   if (!accessToken) {
@@ -56,14 +112,16 @@ export function createMapConfig(overrides?: Partial<MapConfig>): MapConfig {
 
   return {
     accessToken,
-    mapStyle: MAP_STYLES.STREETS,
-    initialViewState: FRANCE_DEFAULT_VIEW,
+    mapStyle: preferences?.mapStyle ? BASEMAP_STYLE_URLS[preferences.mapStyle] : MAP_STYLES.STREETS,
+    initialViewState: preferences?.defaultView ?? FRANCE_DEFAULT_VIEW,
     controls: {
       navigation: true,
       fullscreen: true,
       geolocate: true,
       scale: true,
     },
+    units: preferences?.units ?? 'metric',
+    language: preferences?.language,
     ...overrides,
   };
 }
@@ -123,6 +181,64 @@ export function formatCoordinates(lat: number, lng: number): string {
   return `${formatCoord(lat, true)}, ${formatCoord(lng, false)}`;
 }
 
+/**
+ * Degrees of a coordinate, either decimal or with minutes and seconds
+ */
+const DEGREES_PATTERN = String.raw`([-+]?\d+(?:\.\d+)?)\s*(?:°\s*(?:(\d+(?:\.\d+)?)\s*['′]\s*(?:(\d+(?:\.\d+)?)\s*(?:"|″|'')\s*)?)?)?`;
+
+/**
+ * One coordinate with an optional hemisphere before or after it (O is the French "Ouest")
+ */
+const COORDINATE_PATTERN = String.raw`(?:([NSEWO])\s*${DEGREES_PATTERN}|${DEGREES_PATTERN}\s*([NSEWO])?)`;
+
+const COORDINATE_PAIR_REGEX = new RegExp(`^${COORDINATE_PATTERN}\\s*[,;\\s]\\s*${COORDINATE_PATTERN}$`, 'i');
+
+/**
+ * Marks that tell coordinates from other numbers: decimal point, degree sign or hemisphere
+ */
+const COORDINATE_MARKER_REGEX = /[.°NSEWO]/i;
+
+/**
+ * Parse a pair of coordinates such as "48.8566, 2.3522" or 48°51'24"N 2°21'08"E
+ * Without hemispheres the latitude comes first, as shown by formatCoordinates
+ * Plain integers ("75 001") are not taken as coordinates, since they read as postal codes
+ * @returns The position, or null when the text is not a valid pair of coordinates
+ */
+export function parseCoordinates(text: string): { lat: number; lng: number } | null {
+  const match = text.trim().match(COORDINATE_PAIR_REGEX);
+  if (!match || !COORDINATE_MARKER_REGEX.test(text)) return null;
+
+  // Each coordinate has the groups of its prefixed form, then those of its suffixed form
+  const parse = (groups: Array<string | undefined>) => {
+    const [prefix, prefixedDegrees, prefixedMinutes, prefixedSeconds, ...suffixed] = groups;
+    const [degrees = '', minutes = '0', seconds = '0'] = prefix
+      ? [prefixedDegrees, prefixedMinutes, prefixedSeconds]
+      : suffixed;
+    const hemisphere = (prefix ?? suffixed[3])?.toUpperCase();
+    if (Number(minutes) >= 60 || Number(seconds) >= 60) return null;
+
+    const value = Math.abs(Number(degrees)) + Number(minutes) / 60 + Number(seconds) / 3600;
+    const negative = degrees.startsWith('-') || hemisphere === 'S' || hemisphere === 'W' || hemisphere === 'O';
+    return { value: negative ? -value : value, hemisphere };
+  };
+
+  const first = parse(match.slice(1, 9));
+  const second = parse(match.slice(9, 17));
+  if (!first || !second) return null;
+
+  const isLongitude = (hemisphere?: string) => hemisphere === 'E' || hemisphere === 'W' || hemisphere === 'O';
+  const [lat, lng] = isLongitude(first.hemisphere) || (second.hemisphere && !isLongitude(second.hemisphere))
+    ? [second, first]
+    : [first, second];
+
+  // Both hemispheres must not point to the same axis
+  if (lat.hemisphere && isLongitude(lat.hemisphere)) return null;
+  if (lng.hemisphere && !isLongitude(lng.hemisphere)) return null;
+  if (Math.abs(lat.value) > 90 || Math.abs(lng.value) > 180) return null;
+
+  return { lat: lat.value, lng: lng.value };
+}
+
 /**
  * Calculate distance between two points (Haversine formula)
  */
@@ -158,12 +274,55 @@ export function generateLayerColor(layerType: string, index: number): string {
     forest: ['#228B22', '#32CD32', '#90EE90', '#006400', '#7CFC00'],
     species: ['#8B4513', '#A0522D', '#D2691E', '#F4A460', '#DEB887'],
     parcel: ['#4169E1', '#6495ED', '#87CEEB', '#1E90FF', '#00BFFF'],
+    user: ['#DB2777', '#7C3AED', '#EA580C', '#0D9488', '#CA8A04'],
   };
   
   const colorArray = colors[layerType as keyof typeof colors] || colors.forest;
   return colorArray[index % colorArray.length];
 }
 
+/**
+ * Colour for forest features whose species is unknown
+ */
+export const DEFAULT_FOREST_COLOR = '#228B22';
+
+/**
+ * Get the colour of a species from the catalogue
+ * Species missing from the catalogue get a palette colour derived from their id,
+ * so the colour is stable across reloads and does not depend on layer order
+ */
+export function getSpeciesColor(speciesId: string | undefined, treeSpecies: TreeSpecies[]): string {
+  if (!speciesId) return DEFAULT_FOREST_COLOR;
+
+  const catalogueColor = treeSpecies.find(species => species.id === speciesId)?.color;
+  if (catalogueColor) return catalogueColor;
+
+  let hash = 0;
+  for (const char of speciesId) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return generateLayerColor('forest', hash);
+}
+
+/**
+ * Build a Mapbox `match` expression colouring features by their speciesId property
+ * Only GeoJSON forest features carry speciesId; vector and raster sources are styled otherwise
+ */
+export function createSpeciesColorExpression(
+  speciesIds: string[],
+  treeSpecies: TreeSpecies[]
+): string | ExpressionSpecification {
+  const uniqueIds = [...new Set(speciesIds)];
+  if (uniqueIds.length === 0) return DEFAULT_FOREST_COLOR;
+
+  return [
+    'match',
+    ['get', 'speciesId'],
+    ...uniqueIds.flatMap(id => [id, getSpeciesColor(id, treeSpecies)]),
+    DEFAULT_FOREST_COLOR,
+  ] as ExpressionSpecification;
+}
+
 /**
  * Create default filters
  */
@@ -202,10 +361,16 @@ export function validateMapViewState(viewState: Partial<MapViewState>): boolean
 /**
  * Serialize map state for storage
  */
-export function serializeMapState(viewState: MapViewState, filters: MapFilters): string {
+export function serializeMapState(
+  viewState: MapViewState,
+  filters: MapFilters,
+  session: Pick<MapSession, 'visibleLayers' | 'selectedUnit'> = {}
+): string {
   return JSON.stringify({
     viewState,
     filters,
+    visibleLayers: session.visibleLayers,
+    selectedUnit: session.selectedUnit ?? null,
     timestamp: Date.now(),
   });
 }
@@ -213,16 +378,15 @@ export function serializeMapState(viewState: MapViewState, filters: MapFilters):
 /**
  * Deserialize map state from storage
  */
-export function deserializeMapState(serialized: string): {
-  viewState: MapViewState;
-  filters: MapFilters;
-  timestamp: number;
-} | null {
+export function deserializeMapState(serialized: string): (MapSession & { timestamp: number }) | null {
   try {
     const parsed = JSON.parse(serialized);
     
     if (validateMapViewState(parsed.viewState)) {
-      return parsed;
+      return {
+        ...parsed,
+        filters: { ...createDefaultFilters(), ...parsed.filters },
+      };
     }
     
     return null;
@@ -231,6 +395,70 @@ export function deserializeMapState(serialized: string): {
   }
 }
 
+/**
+ * Version of the map state encoded in the URL, bumped on incompatible changes
+ */
+export const MAP_URL_STATE_VERSION = 1;
+
+/**
+ * Encode a map session into a compact, versioned query string
+ * Only non-default values are written:
+ * `v=1&m=lat,lng,zoom,bearing,pitch&r=..&d=..&c=..&sp=id1,id2&cad=1&l=layer1,layer2`
+ */
+export function encodeMapStateToQuery(session: MapSession): URLSearchParams {
+  const { viewState, filters, visibleLayers } = session;
+  const params = new URLSearchParams();
+
+  params.set('v', String(MAP_URL_STATE_VERSION));
+  params.set('m', [
+    viewState.latitude.toFixed(5),
+    viewState.longitude.toFixed(5),
+    viewState.zoom.toFixed(2),
+    viewState.bearing.toFixed(1),
+    viewState.pitch.toFixed(1),
+  ].map(value => String(Number(value))).join(','));
+
+  if (filters.region) params.set('r', filters.region);
+  if (filters.department) params.set('d', filters.department);
+  if (filters.commune) params.set('c', filters.commune);
+  if (filters.treeSpecies?.length) params.set('sp', filters.treeSpecies.join(','));
+  if (filters.showCadastre) params.set('cad', '1');
+  if (visibleLayers) params.set('l', visibleLayers.join(','));
+
+  return params;
+}
+
+/**
+ * Decode a map session from the query string
+ * Returns null when the URL carries no map state, an unknown version or an invalid view
+ */
+export function decodeMapStateFromQuery(params: URLSearchParams): MapSession | null {
+  if (params.get('v') !== String(MAP_URL_STATE_VERSION)) return null;
+
+  const [latitude, longitude, zoom, bearing = 0, pitch = 0] = (params.get('m') ?? '')
+    .split(',')
+    .map(Number);
+  const viewState: MapViewState = { latitude, longitude, zoom, bearing, pitch };
+
+  if (![latitude, longitude, zoom, bearing, pitch].every(Number.isFinite)) return null;
+  if (!validateMapViewState(viewState)) return null;
+
+  const list = (key: string) => params.get(key)?.split(',').filter(Boolean);
+
+  return {
+    viewState,
+    filters: {
+      ...createDefaultFilters(),
+      region: params.get('r') ?? undefined,
+      department: params.get('d') ?? undefined,
+      commune: params.get('c') ?? undefined,
+      treeSpecies: list('sp') ?? [],
+      showCadastre: params.get('cad') === '1',
+    },
+    visibleLayers: params.has('l') ? list('l') ?? [] : undefined,
+  };
+}
+
 /**
  * Optimize zoom level for data loading
  */
@@ -245,4 +473,502 @@ export function getOptimizedZoomLevel(currentZoom: number): number {
 export function shouldShowCadastreAtZoom(zoom: number): boolean {
   // Show parcels only when there is sufficient zoom
   return zoom >= 14;
-}
\ No newline at end of file
+}
+
+/**
+ * Tiling limits for viewport-based forest queries
+ * Beyond MAX_ZOOM BD Forêt® does not gain detail, so deeper zooms reuse the same tiles
+ */
+export const FOREST_TILING = {
+  MAX_ZOOM: 14,
+  MAX_TILES_PER_VIEWPORT: 16,
+} as const;
+
+/**
+ * Maximum latitude representable in Web Mercator
+ */
+const MAX_MERCATOR_LAT = 85.05112878;
+
+/**
+ * Convert a coordinate to the slippy-map tile that contains it
+ */
+export function lngLatToTile(lng: number, lat: number, z: number): MapTile {
+  const tileCount = Math.pow(2, z);
+  const clampedLat = Math.min(MAX_MERCATOR_LAT, Math.max(-MAX_MERCATOR_LAT, lat));
+  const latRad = toRadians(clampedLat);
+
+  const x = Math.floor(((lng + 180) / 360) * tileCount);
+  const y = Math.floor(
+    ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * tileCount
+  );
+
+  return {
+    z,
+    x: Math.min(tileCount - 1, Math.max(0, x)),
+    y: Math.min(tileCount - 1, Math.max(0, y)),
+  };
+}
+
+/**
+ * Get the bounding box [west, south, east, north] covered by a tile
+ */
+export function tileToBoundingBox({ z, x, y }: MapTile): [number, number, number, number] {
+  const tileCount = Math.pow(2, z);
+  const tileToLng = (tx: number) => (tx / tileCount) * 360 - 180;
+  const tileToLat = (ty: number) => {
+    const n = Math.PI - (2 * Math.PI * ty) / tileCount;
+    return (180 / Math.PI) * Math.atan(Math.sinh(n));
+  };
+
+  return [
+    tileToLng(x),     // west
+    tileToLat(y + 1), // south
+    tileToLng(x + 1), // east
+    tileToLat(y),     // north
+  ];
+}
+
+/**
+ * Split a bounding box into the grid of tiles that covers it
+ */
+export function getTilesForBoundingBox(
+  bbox: [number, number, number, number],
+  z: number
+): MapTile[] {
+  const [west, south, east, north] = bbox;
+  const topLeft = lngLatToTile(west, north, z);
+  const bottomRight = lngLatToTile(east, south, z);
+
+  const tiles: MapTile[] = [];
+  for (let x = topLeft.x; x <= bottomRight.x; x++) {
+    for (let y = topLeft.y; y <= bottomRight.y; y++) {
+      tiles.push({ z, x, y });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Get the tiles to request for the current viewport
+ * Drops to coarser tiles when the viewport would need too many of them
+ */
+export function getViewportTiles(
+  bbox: [number, number, number, number],
+  zoom: number
+): MapTile[] {
+  let z = Math.min(FOREST_TILING.MAX_ZOOM, Math.max(0, Math.floor(zoom)));
+  let tiles = getTilesForBoundingBox(bbox, z);
+
+  while (tiles.length > FOREST_TILING.MAX_TILES_PER_VIEWPORT && z > 0) {
+    z -= 1;
+    tiles = getTilesForBoundingBox(bbox, z);
+  }
+
+  return tiles;
+}
+
+/**
+ * Compute the bounding box [west, south, east, north] of a geometry
+ */
+export function getGeometryBoundingBox(geometry: GeoJSON.Geometry): [number, number, number, number] {
+  const bbox: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+
+  const visit = (coordinates: unknown): void => {
+    if (!Array.isArray(coordinates)) return;
+    if (typeof coordinates[0] === 'number') {
+      const [lng, lat] = coordinates as number[];
+      bbox[0] = Math.min(bbox[0], lng);
+      bbox[1] = Math.min(bbox[1], lat);
+      bbox[2] = Math.max(bbox[2], lng);
+      bbox[3] = Math.max(bbox[3], lat);
+      return;
+    }
+    coordinates.forEach(visit);
+  };
+
+  if (geometry.type === 'GeometryCollection') {
+    geometry.geometries.forEach(child => {
+      const childBox = getGeometryBoundingBox(child);
+      visit([[childBox[0], childBox[1]], [childBox[2], childBox[3]]]);
+    });
+  } else {
+    visit(geometry.coordinates);
+  }
+
+  return bbox;
+}
+
+/**
+ * Calculate the bounding box [west, south, east, north] of a feature collection
+ * Returns null when the collection has no geometries
+ */
+export function getFeatureCollectionBoundingBox(
+  collection: GeoJSON.FeatureCollection
+): [number, number, number, number] | null {
+  const geometries = (collection.features ?? [])
+    .map(feature => feature.geometry)
+    .filter((geometry): geometry is GeoJSON.Geometry => !!geometry);
+
+  if (geometries.length === 0) return null;
+
+  const bbox = getGeometryBoundingBox({ type: 'GeometryCollection', geometries });
+  return Number.isFinite(bbox[0]) ? bbox : null;
+}
+
+/**
+ * Check whether two bounding boxes overlap
+ */
+export function boundingBoxesIntersect(
+  a: [number, number, number, number],
+  b: [number, number, number, number]
+): boolean {
+  return a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+}
+
+/**
+ * Clip a linear ring to a bounding box (Sutherland–Hodgman)
+ * Returns null when nothing of the ring remains inside the box
+ */
+function clipRingToBoundingBox(
+  ring: GeoJSON.Position[],
+  [west, south, east, north]: [number, number, number, number]
+): GeoJSON.Position[] | null {
+  const edges: Array<{
+    inside: (p: GeoJSON.Position) => boolean;
+    intersect: (a: GeoJSON.Position, b: GeoJSON.Position) => GeoJSON.Position;
+  }> = [
+    {
+      inside: p => p[0] >= west,
+      intersect: (a, b) => [west, a[1] + ((b[1] - a[1]) * (west - a[0])) / (b[0] - a[0])],
+    },
+    {
+      inside: p => p[0] <= east,
+      intersect: (a, b) => [east, a[1] + ((b[1] - a[1]) * (east - a[0])) / (b[0] - a[0])],
+    },
+    {
+      inside: p => p[1] >= south,
+      intersect: (a, b) => [a[0] + ((b[0] - a[0]) * (south - a[1])) / (b[1] - a[1]), south],
+    },
+    {
+      inside: p => p[1] <= north,
+      intersect: (a, b) => [a[0] + ((b[0] - a[0]) * (north - a[1])) / (b[1] - a[1]), north],
+    },
+  ];
+
+  // Work on the open ring, the closing vertex is added back at the end
+  let output = ring.slice(0, -1);
+
+  for (const edge of edges) {
+    const input = output;
+    output = [];
+    input.forEach((current, i) => {
+      const previous = input[(i + input.length - 1) % input.length];
+      if (edge.inside(current)) {
+        if (!edge.inside(previous)) output.push(edge.intersect(previous, current));
+        output.push(current);
+      } else if (edge.inside(previous)) {
+        output.push(edge.intersect(previous, current));
+      }
+    });
+    if (output.length === 0) return null;
+  }
+
+  return output.length >= 3 ? [...output, output[0]] : null;
+}
+
+/**
+ * Clip a polygon or multipolygon to a bounding box
+ * Returns null when the geometry lies completely outside the box
+ */
+export function clipGeometryToBoundingBox(
+  geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon,
+  bbox: [number, number, number, number]
+): GeoJSON.Polygon | GeoJSON.MultiPolygon | null {
+  const clipPolygon = (rings: GeoJSON.Position[][]): GeoJSON.Position[][] | null => {
+    const [outer, ...holes] = rings;
+    const clippedOuter = clipRingToBoundingBox(outer, bbox);
+    if (!clippedOuter) return null;
+
+    const clippedHoles = holes
+      .map(hole => clipRingToBoundingBox(hole, bbox))
+      .filter((hole): hole is GeoJSON.Position[] => hole !== null);
+
+    return [clippedOuter, ...clippedHoles];
+  };
+
+  if (geometry.type === 'Polygon') {
+    const clipped = clipPolygon(geometry.coordinates);
+    return clipped ? { type: 'Polygon', coordinates: clipped } : null;
+  }
+
+  const polygons = geometry.coordinates
+    .map(clipPolygon)
+    .filter((polygon): polygon is GeoJSON.Position[][] => polygon !== null);
+
+  if (polygons.length === 0) return null;
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+/**
+ * Intersection of two bounding boxes, or null when they do not overlap
+ */
+export function intersectBoundingBoxes(
+  a: [number, number, number, number],
+  b: [number, number, number, number]
+): [number, number, number, number] | null {
+  if (!boundingBoxesIntersect(a, b)) return null;
+  return [
+    Math.max(a[0], b[0]),
+    Math.max(a[1], b[1]),
+    Math.min(a[2], b[2]),
+    Math.min(a[3], b[3]),
+  ];
+}
+
+/**
+ * Merge the polygons of a FeatureCollection into a single geometry
+ * Used to turn an administrative boundary response into a clipping area
+ */
+export function getAreaGeometry(
+  collection: GeoJSON.FeatureCollection
+): GeoJSON.Polygon | GeoJSON.MultiPolygon | null {
+  const polygons = collection.features.flatMap(feature => {
+    if (feature.geometry?.type === 'Polygon') return [feature.geometry.coordinates];
+    if (feature.geometry?.type === 'MultiPolygon') return feature.geometry.coordinates;
+    return [];
+  });
+
+  if (polygons.length === 0) return null;
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+/**
+ * Ray casting test of a point against a linear ring
+ */
+function isPointInRing([x, y]: GeoJSON.Position, ring: GeoJSON.Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Check whether a point lies inside a polygon or multipolygon (holes excluded)
+ */
+export function isPointInPolygon(
+  point: GeoJSON.Position,
+  polygon: GeoJSON.Polygon | GeoJSON.MultiPolygon
+): boolean {
+  const polygons = polygon.type === 'Polygon' ? [polygon.coordinates] : polygon.coordinates;
+  return polygons.some(([outer, ...holes]) =>
+    isPointInRing(point, outer) && !holes.some(hole => isPointInRing(point, hole))
+  );
+}
+
+/**
+ * Collect every vertex of a geometry
+ */
+function getGeometryPositions(geometry: GeoJSON.Geometry): GeoJSON.Position[] {
+  switch (geometry.type) {
+    case 'Point':
+      return [geometry.coordinates];
+    case 'MultiPoint':
+    case 'LineString':
+      return geometry.coordinates;
+    case 'MultiLineString':
+    case 'Polygon':
+      return geometry.coordinates.flat();
+    case 'MultiPolygon':
+      return geometry.coordinates.flat(2);
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(getGeometryPositions);
+  }
+}
+
+/**
+ * Check whether a geometry overlaps an area
+ * Vertex-based test: a geometry is kept when one of its vertices is inside the area
+ * or one of the area vertices is inside it, after a bounding box pre-check
+ */
+export function geometryIntersectsArea(
+  geometry: GeoJSON.Geometry,
+  area: GeoJSON.Polygon | GeoJSON.MultiPolygon
+): boolean {
+  if (!boundingBoxesIntersect(getGeometryBoundingBox(geometry), getGeometryBoundingBox(area))) {
+    return false;
+  }
+
+  if (getGeometryPositions(geometry).some(position => isPointInPolygon(position, area))) {
+    return true;
+  }
+
+  if (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon') return false;
+  return getGeometryPositions(area).some(position => isPointInPolygon(position, geometry));
+}
+
+/**
+ * Keep only the features that overlap an area
+ */
+export function filterFeaturesInArea<T extends GeoJSON.Feature>(
+  features: T[],
+  area: GeoJSON.Polygon | GeoJSON.MultiPolygon
+): T[] {
+  return features.filter(feature => feature.geometry && geometryIntersectsArea(feature.geometry, area));
+}
+
+/**
+ * Cadastre attributes restricted to users allowed to see owner data
+ */
+export const CADASTRE_OWNER_PROPERTIES = ['owner'];
+
+/**
+ * Copy of a collection without the given feature properties
+ */
+export function omitFeatureProperties(
+  collection: GeoJSON.FeatureCollection,
+  keys: string[]
+): GeoJSON.FeatureCollection {
+  return {
+    ...collection,
+    features: collection.features.map(feature => ({
+      ...feature,
+      properties: feature.properties
+        ? Object.fromEntries(Object.entries(feature.properties).filter(([key]) => !keys.includes(key)))
+        : feature.properties,
+    })),
+  };
+}
+
+/**
+ * Build the rectangle polygon defined by two opposite corners
+ */
+export function createRectanglePolygon(
+  corner: GeoJSON.Position,
+  oppositeCorner: GeoJSON.Position
+): GeoJSON.Polygon {
+  const [lng1, lat1] = corner;
+  const [lng2, lat2] = oppositeCorner;
+  return {
+    type: 'Polygon',
+    coordinates: [[
+      [lng1, lat1], [lng2, lat1], [lng2, lat2], [lng1, lat2], [lng1, lat1]
+    ]],
+  };
+}
+
+/**
+ * Approximate a geodesic circle with a polygon
+ * @param center - Centre [lng, lat]
+ * @param radiusKm - Radius in km
+ * @param steps - Number of vertices
+ */
+export function createCirclePolygon(
+  center: GeoJSON.Position,
+  radiusKm: number,
+  steps = 64
+): GeoJSON.Polygon {
+  const R = 6371; // Earth radius in km
+  const [lng, lat] = center;
+  const latRad = toRadians(lat);
+  const lngRad = toRadians(lng);
+  const angularDistance = radiusKm / R;
+
+  const ring: GeoJSON.Position[] = [];
+  for (let i = 0; i < steps; i++) {
+    const bearing = (2 * Math.PI * i) / steps;
+    const pointLat = Math.asin(
+      Math.sin(latRad) * Math.cos(angularDistance) +
+      Math.cos(latRad) * Math.sin(angularDistance) * Math.cos(bearing)
+    );
+    const pointLng = lngRad + Math.atan2(
+      Math.sin(bearing) * Math.sin(angularDistance) * Math.cos(latRad),
+      Math.cos(angularDistance) - Math.sin(latRad) * Math.sin(pointLat)
+    );
+    ring.push([(pointLng * 180) / Math.PI, (pointLat * 180) / Math.PI]);
+  }
+  ring.push(ring[0]);
+
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
+
+/**
+ * Geodesic area of a polygon or multipolygon in m² (holes excluded)
+ * Spherical approximation, accurate enough for parcels and administrative units
+ */
+export function calculatePolygonArea(geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon): number {
+  const R = 6371008.8; // Mean Earth radius in m
+
+  const ringArea = (ring: GeoJSON.Position[]): number => {
+    let total = 0;
+    for (let i = 0; i < ring.length - 1; i++) {
+      const [lng1, lat1] = ring[i];
+      const [lng2, lat2] = ring[i + 1];
+      total += toRadians(lng2 - lng1) * (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)));
+    }
+    return Math.abs((total * R * R) / 2);
+  };
+
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.reduce(
+    (sum, [outer, ...holes]) =>
+      sum + ringArea(outer) - holes.reduce((holeSum, hole) => holeSum + ringArea(hole), 0),
+    0
+  );
+}
+
+/**
+ * Geodesic length of each segment of a line in m
+ */
+export function calculateSegmentLengths(coordinates: GeoJSON.Position[]): number[] {
+  return coordinates.slice(1).map((position, i) =>
+    calculateDistance(
+      { lng: coordinates[i][0], lat: coordinates[i][1] },
+      { lng: position[0], lat: position[1] }
+    ) * 1000
+  );
+}
+
+const FEET_PER_METER = 3.28084;
+const METERS_PER_MILE = 1609.344;
+const SQUARE_METERS_PER_ACRE = 4046.8564224;
+
+/**
+ * Format a length in m with the unit that suits its size
+ */
+export function formatLength(meters: number, units: MeasureUnits = 'metric'): string {
+  if (units === 'imperial') {
+    return meters < METERS_PER_MILE
+      ? `${Math.round(meters * FEET_PER_METER).toLocaleString('en-US')} ft`
+      : `${(meters / METERS_PER_MILE).toFixed(2)} mi`;
+  }
+  return meters < 1000 ? `${meters.toFixed(1)} m` : `${(meters / 1000).toFixed(2)} km`;
+}
+
+/**
+ * Format an area in m²: m²/km², ares/hectares or acres
+ */
+export function formatArea(squareMeters: number, units: MeasureUnits = 'metric'): string {
+  switch (units) {
+    case 'hectares':
+      return squareMeters < 10000
+        ? `${(squareMeters / 100).toFixed(2)} a`
+        : `${(squareMeters / 10000).toFixed(2)} ha`;
+    case 'imperial':
+      return `${(squareMeters / SQUARE_METERS_PER_ACRE).toFixed(2)} ac`;
+    default:
+      return squareMeters < 1000000
+        ? `${Math.round(squareMeters).toLocaleString('en-US')} m²`
+        : `${(squareMeters / 1000000).toFixed(2)} km²`;
+  }
+}
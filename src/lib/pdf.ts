@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Minimal PDF writer
+ * Builds a single-page document holding one JPEG image that fills the page,
+ * enough to turn a rendered print layout into a PDF without extra dependencies
+ */
+
+/**
+ * Points per millimetre (1 pt = 1/72 inch)
+ */
+const POINTS_PER_MM = 72 / 25.4;
+
+/**
+ * PDF text string; non-ASCII text is written as UTF-16BE hexadecimal
+ */
+function toPdfString(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) {
+    return `(${text.replace(/[\\()]/g, match => `\\${match}`)})`;
+  }
+  const hex = Array.from(text, char => {
+    const code = char.codePointAt(0)!;
+    // Characters outside the BMP are written as surrogate pairs
+    const units = code > 0xffff
+      ? [0xd800 + ((code - 0x10000) >> 10), 0xdc00 + ((code - 0x10000) & 0x3ff)]
+      : [code];
+    return units.map(unit => unit.toString(16).padStart(4, '0')).join('');
+  }).join('');
+  return `<FEFF${hex}>`;
+}
+
+/**
+ * PDF date, e.g. D:20240131120000Z
+ */
+function toPdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+/**
+ * Build a one-page PDF with a JPEG image covering the whole page
+ * @param jpeg - JPEG file content
+ * @param imageSize - Size of the image in pixels
+ * @param pageSize - Size of the page in millimetres
+ * @param title - Document title shown by PDF viewers
+ */
+export function createImagePdf(
+  jpeg: Uint8Array,
+  imageSize: { width: number; height: number },
+  pageSize: { width: number; height: number },
+  title?: string
+): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const pageWidth = (pageSize.width * POINTS_PER_MM).toFixed(2);
+  const pageHeight = (pageSize.height * POINTS_PER_MM).toFixed(2);
+  const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q\n`;
+
+  // Objects in order; the image data is inserted between its dictionary and `endstream`
+  const objects: Array<string | [string, Uint8Array, string]> = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+      '/Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>',
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${imageSize.width} /Height ${imageSize.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+      jpeg,
+      '\nendstream',
+    ],
+    `<< /Length ${content.length} >>\nstream\n${content}endstream`,
+    `<< ${title ? `/Title ${toPdfString(title)} ` : ''}/CreationDate ${toPdfDate(new Date())} >>`,
+  ];
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const push = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // The binary comment tells transfer tools the file is not plain text
+  push('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(length);
+    push(`${index + 1} 0 obj\n`);
+    if (typeof object === 'string') {
+      push(object);
+    } else {
+      object.forEach(push);
+    }
+    push('\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => push(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  push(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const output = new Uint8Array(length);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+}
@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Control de acceso basado en roles
+ * Resuelve los permisos efectivos de un usuario a partir de sus roles y permisos
+ */
+
+import type { Permission, User, UserRole } from '@/types/auth';
+
+/**
+ * Permisos por defecto de cada rol
+ * Se usan cuando el backend no envía la lista explícita de permisos
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ['maps:view', 'cadastre:view', 'cadastre:owner:view', 'data:export', 'data:import'],
+  staff: ['maps:view', 'cadastre:view', 'cadastre:owner:view'],
+  analyst: ['maps:view', 'cadastre:view', 'data:export', 'data:import'],
+  viewer: ['maps:view', 'cadastre:view'],
+};
+
+// Rol asumido cuando el backend no envía roles
+const DEFAULT_ROLE: UserRole = 'viewer';
+
+/**
+ * Permisos efectivos de un usuario
+ */
+export function getUserPermissions(user: User | null | undefined): Set<Permission> {
+  if (!user) return new Set();
+  if (user.permissions) return new Set(user.permissions);
+
+  const roles = user.roles?.length ? user.roles : [DEFAULT_ROLE];
+  return new Set(roles.flatMap(role => ROLE_PERMISSIONS[role] ?? []));
+}
+
+/**
+ * Comprobar si un usuario tiene un permiso
+ */
+export function hasPermission(user: User | null | undefined, permission: Permission): boolean {
+  return getUserPermissions(user).has(permission);
+}
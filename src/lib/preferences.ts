@@ -0,0 +1,23 @@
+/**
+ * @fileoverview Preferencias del usuario con sus valores por defecto
+ */
+
+import type { User } from '@/types/auth';
+import type { UserPreferences } from '@/types/user';
+
+/**
+ * Preferencias usadas cuando el usuario aún no ha elegido ninguna
+ */
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  mapStyle: 'streets',
+  defaultView: null,
+  units: 'metric',
+  language: 'es',
+};
+
+/**
+ * Preferencias completas de un usuario, rellenando las que falten
+ */
+export function resolveUserPreferences(user: User | null | undefined): UserPreferences {
+  return { ...DEFAULT_USER_PREFERENCES, ...user?.preferences };
+}
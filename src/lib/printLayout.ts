@@ -0,0 +1,320 @@
+/**
+ * @fileoverview Print layout of the map composer
+ * Page geometry for each paper size and orientation, scale bar computation and the
+ * canvas drawing of the page: title, map, legend, scale bar, north arrow, attribution and date
+ */
+
+import type { LegendItem, PaperOrientation, PaperSize } from '@/types/map';
+
+/**
+ * Portrait paper sizes in millimetres
+ */
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  A3: { width: 297, height: 420 },
+};
+
+export const PRINT_DPI_OPTIONS = [96, 150, 300];
+
+/**
+ * Resolution of CSS pixels, the unit of the on-screen map
+ */
+export const SCREEN_DPI = 96;
+
+/**
+ * Credits of the basemap and the forest data printed on every map
+ */
+export const PRINT_ATTRIBUTION = '© Mapbox © OpenStreetMap · BD Forêt® © IGN';
+
+const MM_PER_INCH = 25.4;
+
+// Page regions in millimetres
+const MARGIN = 10;
+const TITLE_HEIGHT = 14;
+const FOOTER_HEIGHT = 30;
+const LEGEND_ROW_HEIGHT = 4.5;
+const LEGEND_COLUMN_WIDTH = 48;
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Pixel geometry of a printed page
+ */
+export interface PrintLayout {
+  /** Page size in millimetres */
+  paper: { width: number; height: number };
+  /** Page size in pixels */
+  width: number;
+  height: number;
+  /** Pixels per millimetre */
+  pxPerMm: number;
+  /** Map frame in pixels */
+  map: Rect;
+}
+
+/**
+ * Geometry of a page for a paper size, orientation and resolution
+ */
+export function getPrintLayout(paperSize: PaperSize, orientation: PaperOrientation, dpi: number): PrintLayout {
+  const { width, height } = PAPER_SIZES[paperSize];
+  const paper = orientation === 'portrait' ? { width, height } : { width: height, height: width };
+  const pxPerMm = dpi / MM_PER_INCH;
+  const px = (mm: number) => Math.round(mm * pxPerMm);
+
+  return {
+    paper,
+    width: px(paper.width),
+    height: px(paper.height),
+    pxPerMm,
+    map: {
+      x: px(MARGIN),
+      y: px(MARGIN + TITLE_HEIGHT),
+      width: px(paper.width - 2 * MARGIN),
+      height: px(paper.height - 2 * MARGIN - TITLE_HEIGHT - FOOTER_HEIGHT),
+    },
+  };
+}
+
+/**
+ * Ground metres covered by a CSS pixel of a Web Mercator map (512 px tiles)
+ */
+export function getMetersPerPixel(latitude: number, zoom: number): number {
+  return (40075016.686 * Math.cos((latitude * Math.PI) / 180)) / Math.pow(2, zoom + 9);
+}
+
+/**
+ * Largest 1, 2 or 5 × 10ⁿ value not above a number
+ */
+function getRoundValue(max: number): number {
+  const power = Math.pow(10, Math.floor(Math.log10(max)));
+  const [value] = [5, 2, 1].filter(step => step * power <= max);
+  return (value ?? 1) * power;
+}
+
+/**
+ * Scale bar of a round length fitting in a width
+ * @param metersPerPixel - Ground size of a pixel of the printed map
+ * @param maxWidth - Longest bar in pixels
+ * @param units - Metric (m/km) or imperial (ft/mi) units
+ * @returns Width of the bar in pixels and its label
+ */
+export function getScaleBar(
+  metersPerPixel: number,
+  maxWidth: number,
+  units: 'metric' | 'imperial' = 'metric'
+): { width: number; label: string } {
+  const maxMeters = metersPerPixel * maxWidth;
+
+  if (units === 'imperial') {
+    const maxFeet = maxMeters / 0.3048;
+    if (maxFeet < 5280) {
+      const feet = getRoundValue(maxFeet);
+      return { width: (feet * 0.3048) / metersPerPixel, label: `${feet} ft` };
+    }
+    const miles = getRoundValue(maxFeet / 5280);
+    return { width: (miles * 1609.344) / metersPerPixel, label: `${miles} mi` };
+  }
+
+  const meters = getRoundValue(maxMeters);
+  return {
+    width: meters / metersPerPixel,
+    label: meters >= 1000 ? `${meters / 1000} km` : `${meters} m`,
+  };
+}
+
+/**
+ * Content drawn on a printed page
+ */
+export interface PrintPageContent {
+  /** Rendered map, drawn to fill the map frame */
+  mapImage: CanvasImageSource;
+  title: string;
+  legend: LegendItem[];
+  /** Map bearing in degrees, to rotate the north arrow */
+  bearing: number;
+  /** Ground metres per pixel of the printed map */
+  metersPerPixel: number;
+  units?: 'metric' | 'imperial';
+  attribution: string;
+  date: string;
+}
+
+/**
+ * Text truncated with an ellipsis to fit a width
+ */
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && ctx.measureText(`${fitted}…`).width > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted}…`;
+}
+
+/**
+ * North arrow centred on a point, rotated with the map bearing
+ */
+function drawNorthArrow(ctx: CanvasRenderingContext2D, x: number, y: number, size: number, bearing: number): void {
+  ctx.save();
+  ctx.translate(x, y);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.strokeStyle = '#374151';
+  ctx.lineWidth = size * 0.04;
+  ctx.beginPath();
+  ctx.arc(0, 0, size / 2, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+
+  // North is rotated against the map bearing
+  ctx.rotate((-bearing * Math.PI) / 180);
+  const half = size * 0.32;
+  ctx.beginPath();
+  ctx.moveTo(0, -half);
+  ctx.lineTo(half * 0.45, half * 0.55);
+  ctx.lineTo(0, half * 0.25);
+  ctx.closePath();
+  ctx.fillStyle = '#111827';
+  ctx.fill();
+  ctx.beginPath();
+  ctx.moveTo(0, -half);
+  ctx.lineTo(-half * 0.45, half * 0.55);
+  ctx.lineTo(0, half * 0.25);
+  ctx.closePath();
+  ctx.fillStyle = '#9CA3AF';
+  ctx.fill();
+
+  ctx.fillStyle = '#111827';
+  ctx.font = `bold ${size * 0.22}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.fillText('N', 0, -half);
+  ctx.restore();
+}
+
+/**
+ * Legend in columns; entries that do not fit are summarized
+ */
+function drawLegend(ctx: CanvasRenderingContext2D, items: LegendItem[], area: Rect, mm: (value: number) => number): void {
+  ctx.fillStyle = '#111827';
+  ctx.font = `bold ${mm(3.2)}px sans-serif`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.fillText('Legend', area.x, area.y);
+
+  const top = area.y + mm(5);
+  const rows = Math.max(1, Math.floor((area.height - mm(5)) / mm(LEGEND_ROW_HEIGHT)));
+  const columns = Math.max(1, Math.floor(area.width / mm(LEGEND_COLUMN_WIDTH)));
+  const capacity = rows * columns;
+  const visible = items.length > capacity ? items.slice(0, capacity - 1) : items;
+
+  ctx.font = `${mm(2.8)}px sans-serif`;
+  ctx.textBaseline = 'middle';
+  visible.forEach((item, index) => {
+    const x = area.x + Math.floor(index / rows) * mm(LEGEND_COLUMN_WIDTH);
+    const y = top + (index % rows) * mm(LEGEND_ROW_HEIGHT);
+    ctx.fillStyle = item.color;
+    ctx.fillRect(x, y, mm(4), mm(3));
+    ctx.strokeStyle = '#6B7280';
+    ctx.lineWidth = mm(0.15);
+    ctx.strokeRect(x, y, mm(4), mm(3));
+    ctx.fillStyle = '#1F2937';
+    ctx.fillText(fitText(ctx, item.label, mm(LEGEND_COLUMN_WIDTH - 7)), x + mm(5.5), y + mm(1.5));
+  });
+
+  if (visible.length < items.length) {
+    const index = visible.length;
+    ctx.fillStyle = '#6B7280';
+    ctx.fillText(
+      `+${items.length - visible.length} more`,
+      area.x + Math.floor(index / rows) * mm(LEGEND_COLUMN_WIDTH),
+      top + (index % rows) * mm(LEGEND_ROW_HEIGHT) + mm(1.5)
+    );
+  }
+}
+
+/**
+ * Scale bar with its label and the representative fraction, right-aligned on a point
+ */
+function drawScaleBar(
+  ctx: CanvasRenderingContext2D,
+  right: number,
+  top: number,
+  content: PrintPageContent,
+  pxPerMm: number
+): void {
+  const mm = (value: number) => value * pxPerMm;
+  const { width, label } = getScaleBar(content.metersPerPixel, mm(50), content.units);
+  const x = right - width;
+  const barHeight = mm(1.8);
+
+  // Alternating black and white halves
+  ctx.fillStyle = '#111827';
+  ctx.fillRect(x, top, width / 2, barHeight);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(x + width / 2, top, width / 2, barHeight);
+  ctx.strokeStyle = '#111827';
+  ctx.lineWidth = mm(0.25);
+  ctx.strokeRect(x, top, width, barHeight);
+
+  ctx.fillStyle = '#111827';
+  ctx.font = `${mm(2.8)}px sans-serif`;
+  ctx.textBaseline = 'top';
+  ctx.textAlign = 'left';
+  ctx.fillText('0', x, top + barHeight + mm(1));
+  ctx.textAlign = 'right';
+  ctx.fillText(label, right, top + barHeight + mm(1));
+
+  // 1:n from the ground size of a printed millimetre
+  const denominator = Math.round((content.metersPerPixel * pxPerMm * 1000) / 100) * 100;
+  ctx.textBaseline = 'bottom';
+  ctx.fillText(`1:${denominator.toLocaleString('en-US').replace(/,/g, ' ')}`, right, top - mm(1));
+}
+
+/**
+ * Draw a complete page on a canvas sized to the layout
+ */
+export function drawPrintPage(ctx: CanvasRenderingContext2D, layout: PrintLayout, content: PrintPageContent): void {
+  const mm = (value: number) => value * layout.pxPerMm;
+  const { map } = layout;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, layout.width, layout.height);
+
+  // Title
+  ctx.fillStyle = '#111827';
+  ctx.font = `bold ${mm(6)}px sans-serif`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(fitText(ctx, content.title, map.width), map.x, mm(MARGIN + TITLE_HEIGHT / 2 - 1));
+
+  // Map with its frame
+  ctx.drawImage(content.mapImage, map.x, map.y, map.width, map.height);
+  ctx.strokeStyle = '#111827';
+  ctx.lineWidth = mm(0.3);
+  ctx.strokeRect(map.x, map.y, map.width, map.height);
+
+  drawNorthArrow(ctx, map.x + map.width - mm(9), map.y + mm(9), mm(12), content.bearing);
+
+  // Footer: legend on the left, scale bar on the right, credits below
+  const footerTop = map.y + map.height + mm(3);
+  const scaleAreaWidth = mm(58);
+  drawLegend(
+    ctx,
+    content.legend,
+    { x: map.x, y: footerTop, width: map.width - scaleAreaWidth, height: mm(FOOTER_HEIGHT - 9) },
+    mm
+  );
+  drawScaleBar(ctx, map.x + map.width, footerTop + mm(6), content, layout.pxPerMm);
+
+  ctx.fillStyle = '#6B7280';
+  ctx.font = `${mm(2.5)}px sans-serif`;
+  ctx.textBaseline = 'bottom';
+  ctx.textAlign = 'left';
+  ctx.fillText(content.attribution, map.x, layout.height - mm(MARGIN));
+  ctx.textAlign = 'right';
+  ctx.fillText(content.date, map.x + map.width, layout.height - mm(MARGIN));
+}
@@ -0,0 +1,536 @@
+/**
+ * @fileoverview Coordinate reference systems of imported data
+ * Reads the WKT of a Shapefile .prj or an EPSG code and converts coordinates to WGS 84.
+ * Covers geographic systems and the Lambert Conformal Conic, Transverse Mercator and Mercator
+ * projections: Lambert-93, the CC zones, Lambert II, UTM and Web Mercator among others.
+ * Datums are shifted with their TOWGS84 parameters when the WKT has them
+ */
+
+/**
+ * Convert a position of the source system to WGS 84 longitude/latitude
+ */
+export type CoordinateTransform = (position: GeoJSON.Position) => GeoJSON.Position;
+
+interface Ellipsoid {
+  /** Semi-major axis in metres */
+  a: number;
+  /** Inverse flattening (0 for a sphere) */
+  invF: number;
+}
+
+type ProjectionMethod = 'longlat' | 'lcc' | 'tmerc' | 'merc' | 'webmerc';
+
+/**
+ * Coordinate reference system, with angles in radians and distances in metres
+ */
+interface CrsDefinition {
+  method: ProjectionMethod;
+  ellipsoid: Ellipsoid;
+  /** Helmert parameters to WGS 84: dx, dy, dz (m), rx, ry, rz (arc-seconds), scale (ppm) */
+  toWgs84?: number[];
+  /** Longitude of the prime meridian east of Greenwich */
+  primeMeridian: number;
+  /** Size of a coordinate unit: metres for projections, radians for geographic systems */
+  unit: number;
+  lat0: number;
+  lon0: number;
+  lat1?: number;
+  lat2?: number;
+  k0: number;
+  x0: number;
+  y0: number;
+}
+
+const DEG = Math.PI / 180;
+
+const WGS84: Ellipsoid = { a: 6378137, invF: 298.257223563 };
+const GRS80: Ellipsoid = { a: 6378137, invF: 298.257222101 };
+const CLARKE_1880_IGN: Ellipsoid = { a: 6378249.2, invF: 293.4660212936269 };
+
+/** Shift of the old French datum, missing from the ESRI .prj files */
+const NTF_TO_WGS84 = [-168, -60, 320, 0, 0, 0, 0];
+
+const GEOGRAPHIC: CrsDefinition = {
+  method: 'longlat',
+  ellipsoid: WGS84,
+  primeMeridian: 0,
+  unit: DEG,
+  lat0: 0,
+  lon0: 0,
+  k0: 1,
+  x0: 0,
+  y0: 0,
+};
+
+/**
+ * Definition of the EPSG codes found in French and European datasets
+ */
+function getEpsgDefinition(code: number): CrsDefinition | null {
+  // Geographic WGS 84, ETRS89, RGF93 and NAD83 (same axes within a metre)
+  if ([4326, 4258, 4171, 4269].includes(code)) return GEOGRAPHIC;
+
+  if ([3857, 900913, 102100].includes(code)) {
+    return { ...GEOGRAPHIC, method: 'webmerc', unit: 1 };
+  }
+
+  // RGF93 / Lambert-93
+  if (code === 2154) {
+    return {
+      ...GEOGRAPHIC,
+      method: 'lcc',
+      ellipsoid: GRS80,
+      unit: 1,
+      lat0: 46.5 * DEG,
+      lon0: 3 * DEG,
+      lat1: 49 * DEG,
+      lat2: 44 * DEG,
+      x0: 700000,
+      y0: 6600000,
+    };
+  }
+
+  // RGF93 / CC42 to CC50
+  if (code >= 3942 && code <= 3950) {
+    const zone = code - 3900;
+    return {
+      ...GEOGRAPHIC,
+      method: 'lcc',
+      ellipsoid: GRS80,
+      unit: 1,
+      lat0: zone * DEG,
+      lon0: 3 * DEG,
+      lat1: (zone - 0.75) * DEG,
+      lat2: (zone + 0.75) * DEG,
+      x0: 1700000,
+      y0: (zone - 41) * 1000000 + 200000,
+    };
+  }
+
+  // NTF (Paris) / Lambert II étendu
+  if (code === 27572) {
+    return {
+      ...GEOGRAPHIC,
+      method: 'lcc',
+      ellipsoid: CLARKE_1880_IGN,
+      toWgs84: NTF_TO_WGS84,
+      primeMeridian: 2.33722917 * DEG,
+      unit: 1,
+      lat0: 46.8 * DEG,
+      lat1: 46.8 * DEG,
+      k0: 0.99987742,
+      x0: 600000,
+      y0: 2200000,
+    };
+  }
+
+  // WGS 84 / UTM (326xx north, 327xx south) and ETRS89 / UTM (258xx)
+  const utm = (zone: number, ellipsoid: Ellipsoid, south: boolean): CrsDefinition => ({
+    ...GEOGRAPHIC,
+    method: 'tmerc',
+    ellipsoid,
+    unit: 1,
+    lon0: (zone * 6 - 183) * DEG,
+    k0: 0.9996,
+    x0: 500000,
+    y0: south ? 10000000 : 0,
+  });
+  if (code >= 32601 && code <= 32660) return utm(code - 32600, WGS84, false);
+  if (code >= 32701 && code <= 32760) return utm(code - 32700, WGS84, true);
+  if (code >= 25828 && code <= 25838) return utm(code - 25800, GRS80, false);
+
+  return null;
+}
+
+/**
+ * EPSG code of a CRS name such as "EPSG:2154" or "urn:ogc:def:crs:EPSG::2154"
+ * @returns The code, 4326 for CRS84, or null when the name is not recognized
+ */
+export function getEpsgCode(crsName: string): number | null {
+  if (/CRS:?84$/i.test(crsName)) return 4326;
+  const match = crsName.match(/EPSG:+(?:[\d.]*:)?(\d+)$/i);
+  return match ? Number(match[1]) : null;
+}
+
+interface WktNode {
+  keyword: string;
+  args: Array<string | number | WktNode>;
+}
+
+/**
+ * Parse a WKT string into a tree of KEYWORD[arguments] nodes
+ */
+function parseWkt(wkt: string): WktNode {
+  let position = 0;
+
+  const skipSpaces = () => {
+    while (position < wkt.length && /\s/.test(wkt[position])) position++;
+  };
+
+  const parseNode = (): WktNode => {
+    skipSpaces();
+    const keyword = wkt.slice(position).match(/^[A-Za-z_][A-Za-z0-9_]*/)?.[0];
+    if (!keyword) throw new Error('Invalid projection definition');
+    position += keyword.length;
+    skipSpaces();
+
+    const node: WktNode = { keyword: keyword.toUpperCase(), args: [] };
+    if (wkt[position] !== '[' && wkt[position] !== '(') return node;
+    position++;
+
+    for (;;) {
+      skipSpaces();
+      const char = wkt[position];
+      if (char === '"') {
+        const end = wkt.indexOf('"', position + 1);
+        if (end === -1) throw new Error('Invalid projection definition');
+        node.args.push(wkt.slice(position + 1, end));
+        position = end + 1;
+      } else if (/[-+.\d]/.test(char ?? '')) {
+        const number = wkt.slice(position).match(/^[-+]?[\d.]+(?:[eE][-+]?\d+)?/)?.[0] ?? '';
+        node.args.push(Number(number));
+        position += number.length;
+      } else {
+        node.args.push(parseNode());
+      }
+
+      skipSpaces();
+      if (wkt[position] === ',') {
+        position++;
+      } else if (wkt[position] === ']' || wkt[position] === ')') {
+        position++;
+        return node;
+      } else {
+        throw new Error('Invalid projection definition');
+      }
+    }
+  };
+
+  return parseNode();
+}
+
+function getChild(node: WktNode | undefined, keyword: string): WktNode | undefined {
+  return node?.args.find((arg): arg is WktNode => typeof arg === 'object' && arg.keyword === keyword);
+}
+
+function getChildren(node: WktNode, keyword: string): WktNode[] {
+  return node.args.filter((arg): arg is WktNode => typeof arg === 'object' && arg.keyword === keyword);
+}
+
+function getNumber(node: WktNode | undefined, index: number): number | undefined {
+  const value = node?.args[index];
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Lowercase name without separators, to compare ESRI and OGC spellings
+ */
+function normalizeName(value: unknown): string {
+  return typeof value === 'string' ? value.toLowerCase().replace(/[^a-z0-9]/g, '') : '';
+}
+
+/**
+ * Definition of a WKT1 PROJCS or GEOGCS, as written in .prj files by ESRI software and GDAL
+ */
+function getWktDefinition(root: WktNode): CrsDefinition {
+  const geogcs = root.keyword === 'GEOGCS' ? root : getChild(root, 'GEOGCS');
+  if (!geogcs || (root.keyword !== 'GEOGCS' && root.keyword !== 'PROJCS')) {
+    throw new Error('Unsupported coordinate reference system');
+  }
+
+  const datum = getChild(geogcs, 'DATUM');
+  const spheroid = getChild(datum, 'SPHEROID');
+  const a = getNumber(spheroid, 1);
+  const ellipsoid = a ? { a, invF: getNumber(spheroid, 2) ?? 0 } : WGS84;
+
+  const towgs84 = getChild(datum, 'TOWGS84')?.args.filter((arg): arg is number => typeof arg === 'number');
+  const datumName = normalizeName(datum?.args[0]);
+  const toWgs84 = towgs84?.length
+    ? towgs84
+    : datumName.includes('ntf') || datumName.includes('nouvelletriangulation') ? NTF_TO_WGS84 : undefined;
+
+  // Prime meridians are written in degrees by both GDAL and ESRI
+  const primeMeridian = (getNumber(getChild(geogcs, 'PRIMEM'), 1) ?? 0) * DEG;
+  const angularUnit = getNumber(getChild(geogcs, 'UNIT'), 1) ?? DEG;
+
+  if (root.keyword === 'GEOGCS') {
+    return { ...GEOGRAPHIC, ellipsoid, toWgs84, primeMeridian, unit: angularUnit };
+  }
+
+  // Angular parameters are expressed in the unit of the geographic system
+  const parameters = new Map(
+    getChildren(root, 'PARAMETER').map(parameter => [normalizeName(parameter.args[0]), getNumber(parameter, 1) ?? 0])
+  );
+  const angle = (name: string) => (parameters.has(name) ? parameters.get(name)! * angularUnit : undefined);
+
+  const projectionName = normalizeName(getChild(root, 'PROJECTION')?.args[0]);
+  const crsName = normalizeName(root.args[0]);
+  const proj4 = getChild(root, 'EXTENSION')?.args[1];
+
+  let method: ProjectionMethod;
+  if (
+    projectionName.includes('auxiliarysphere') ||
+    projectionName.includes('pseudomercator') ||
+    crsName.includes('pseudomercator') ||
+    crsName.includes('webmercator') ||
+    (typeof proj4 === 'string' && /\+proj=merc .*\+b=6378137\b/.test(proj4))
+  ) {
+    method = 'webmerc';
+  } else if (projectionName.startsWith('lambertconformalconic')) {
+    method = 'lcc';
+  } else if (projectionName.startsWith('transversemercator') || projectionName === 'gausskruger') {
+    method = 'tmerc';
+  } else if (projectionName.startsWith('mercator')) {
+    method = 'merc';
+  } else {
+    throw new Error(`Unsupported projection: ${getChild(root, 'PROJECTION')?.args[0] ?? 'unknown'}`);
+  }
+
+  return {
+    method,
+    ellipsoid,
+    toWgs84,
+    primeMeridian,
+    unit: getNumber(getChild(root, 'UNIT'), 1) ?? 1,
+    lat0: angle('latitudeoforigin') ?? angle('latitudeofcenter') ?? 0,
+    lon0: angle('centralmeridian') ?? angle('longitudeofcenter') ?? angle('longitudeoforigin') ?? 0,
+    lat1: angle('standardparallel1'),
+    lat2: angle('standardparallel2'),
+    k0: parameters.get('scalefactor') ?? 1,
+    x0: parameters.get('falseeasting') ?? 0,
+    y0: parameters.get('falsenorthing') ?? 0,
+  };
+}
+
+function getEccentricity({ invF }: Ellipsoid): number {
+  if (!invF) return 0;
+  const f = 1 / invF;
+  return Math.sqrt(2 * f - f * f);
+}
+
+/**
+ * Isometric latitude helper t(φ) of Snyder
+ */
+function tsfn(phi: number, e: number): number {
+  const sin = e * Math.sin(phi);
+  return Math.tan(Math.PI / 4 - phi / 2) / Math.pow((1 - sin) / (1 + sin), e / 2);
+}
+
+function msfn(phi: number, e: number): number {
+  const sin = Math.sin(phi);
+  return Math.cos(phi) / Math.sqrt(1 - e * e * sin * sin);
+}
+
+/**
+ * Latitude from t(φ), by iteration
+ */
+function phiFromTs(ts: number, e: number): number {
+  let phi = Math.PI / 2 - 2 * Math.atan(ts);
+  for (let i = 0; i < 15; i++) {
+    const sin = e * Math.sin(phi);
+    const next = Math.PI / 2 - 2 * Math.atan(ts * Math.pow((1 - sin) / (1 + sin), e / 2));
+    if (Math.abs(next - phi) < 1e-12) return next;
+    phi = next;
+  }
+  return phi;
+}
+
+/**
+ * Meridian arc length from the equator
+ */
+function meridianArc(phi: number, a: number, e2: number): number {
+  const e4 = e2 * e2;
+  const e6 = e4 * e2;
+  return a * (
+    (1 - e2 / 4 - 3 * e4 / 64 - 5 * e6 / 256) * phi -
+    (3 * e2 / 8 + 3 * e4 / 32 + 45 * e6 / 1024) * Math.sin(2 * phi) +
+    (15 * e4 / 256 + 45 * e6 / 1024) * Math.sin(4 * phi) -
+    (35 * e6 / 3072) * Math.sin(6 * phi)
+  );
+}
+
+/**
+ * Inverse projection: projected metres to longitude/latitude in radians on the source ellipsoid
+ */
+function createInverseProjection(crs: CrsDefinition): (x: number, y: number) => [number, number] {
+  const { a } = crs.ellipsoid;
+  const e = getEccentricity(crs.ellipsoid);
+  const e2 = e * e;
+
+  switch (crs.method) {
+    case 'longlat':
+      return (x, y) => [x, y];
+
+    case 'webmerc':
+      return (x, y) => [
+        (x - crs.x0) / a + crs.lon0,
+        Math.atan(Math.sinh((y - crs.y0) / a)),
+      ];
+
+    case 'merc': {
+      const k0 = crs.lat1 !== undefined ? msfn(crs.lat1, e) : crs.k0;
+      return (x, y) => [
+        (x - crs.x0) / (a * k0) + crs.lon0,
+        phiFromTs(Math.exp(-(y - crs.y0) / (a * k0)), e),
+      ];
+    }
+
+    case 'lcc': {
+      const lat1 = crs.lat1 ?? crs.lat0;
+      const lat2 = crs.lat2 ?? lat1;
+      const m1 = msfn(lat1, e);
+      const t1 = tsfn(lat1, e);
+      const n = Math.abs(lat1 - lat2) > 1e-10
+        ? (Math.log(m1) - Math.log(msfn(lat2, e))) / (Math.log(t1) - Math.log(tsfn(lat2, e)))
+        : Math.sin(lat1);
+      const scale = a * crs.k0 * (m1 / (n * Math.pow(t1, n)));
+      const rho0 = scale * Math.pow(tsfn(crs.lat0, e), n);
+
+      return (x, y) => {
+        const dx = x - crs.x0;
+        const dy = rho0 - (y - crs.y0);
+        const sign = Math.sign(n);
+        const rho = sign * Math.hypot(dx, dy);
+        const theta = Math.atan2(sign * dx, sign * dy);
+        const lat = rho === 0 ? sign * Math.PI / 2 : phiFromTs(Math.pow(rho / scale, 1 / n), e);
+        return [theta / n + crs.lon0, lat];
+      };
+    }
+
+    case 'tmerc': {
+      const ep2 = e2 / (1 - e2);
+      const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+      const m0 = meridianArc(crs.lat0, a, e2);
+
+      return (x, y) => {
+        const m = m0 + (y - crs.y0) / crs.k0;
+        const mu = m / (a * (1 - e2 / 4 - 3 * e2 * e2 / 64 - 5 * e2 * e2 * e2 / 256));
+        const phi1 = mu +
+          (3 * e1 / 2 - 27 * e1 ** 3 / 32) * Math.sin(2 * mu) +
+          (21 * e1 ** 2 / 16 - 55 * e1 ** 4 / 32) * Math.sin(4 * mu) +
+          (151 * e1 ** 3 / 96) * Math.sin(6 * mu) +
+          (1097 * e1 ** 4 / 512) * Math.sin(8 * mu);
+
+        const sin1 = Math.sin(phi1);
+        const cos1 = Math.cos(phi1);
+        const tan1 = Math.tan(phi1);
+        const c1 = ep2 * cos1 * cos1;
+        const t1 = tan1 * tan1;
+        const n1 = a / Math.sqrt(1 - e2 * sin1 * sin1);
+        const r1 = a * (1 - e2) / Math.pow(1 - e2 * sin1 * sin1, 1.5);
+        const d = (x - crs.x0) / (n1 * crs.k0);
+
+        const lat = phi1 - (n1 * tan1 / r1) * (
+          d ** 2 / 2 -
+          (5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * ep2) * d ** 4 / 24 +
+          (61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * ep2 - 3 * c1 ** 2) * d ** 6 / 720
+        );
+        const lon = crs.lon0 + (
+          d -
+          (1 + 2 * t1 + c1) * d ** 3 / 6 +
+          (5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * ep2 + 24 * t1 ** 2) * d ** 5 / 120
+        ) / cos1;
+        return [lon, lat];
+      };
+    }
+  }
+}
+
+/**
+ * Datum shift to WGS 84 through geocentric coordinates (Helmert, position vector convention)
+ */
+function createDatumShift(ellipsoid: Ellipsoid, parameters: number[]): (lon: number, lat: number) => [number, number] {
+  const [dx = 0, dy = 0, dz = 0, rxSeconds = 0, rySeconds = 0, rzSeconds = 0, ppm = 0] = parameters;
+  const seconds = DEG / 3600;
+  const [rx, ry, rz] = [rxSeconds * seconds, rySeconds * seconds, rzSeconds * seconds];
+  const scale = 1 + ppm / 1e6;
+
+  const sourceE2 = getEccentricity(ellipsoid) ** 2;
+  const targetE2 = getEccentricity(WGS84) ** 2;
+
+  return (lon, lat) => {
+    const sinLat = Math.sin(lat);
+    const n = ellipsoid.a / Math.sqrt(1 - sourceE2 * sinLat * sinLat);
+    const x = n * Math.cos(lat) * Math.cos(lon);
+    const y = n * Math.cos(lat) * Math.sin(lon);
+    const z = n * (1 - sourceE2) * sinLat;
+
+    const x2 = dx + scale * (x - rz * y + ry * z);
+    const y2 = dy + scale * (rz * x + y - rx * z);
+    const z2 = dz + scale * (-ry * x + rx * y + z);
+
+    const p = Math.hypot(x2, y2);
+    let phi = Math.atan2(z2, p * (1 - targetE2));
+    for (let i = 0; i < 5; i++) {
+      const sin = Math.sin(phi);
+      const n2 = WGS84.a / Math.sqrt(1 - targetE2 * sin * sin);
+      phi = Math.atan2(z2 + targetE2 * n2 * sin, p);
+    }
+    return [Math.atan2(y2, x2), phi];
+  };
+}
+
+/**
+ * Transform of a definition, or null when coordinates are already WGS 84 degrees
+ */
+function createTransform(crs: CrsDefinition): CoordinateTransform | null {
+  const shift = crs.toWgs84?.some(value => value !== 0) ? createDatumShift(crs.ellipsoid, crs.toWgs84) : null;
+  if (crs.method === 'longlat' && !shift && !crs.primeMeridian && Math.abs(crs.unit - DEG) < 1e-12) {
+    return null;
+  }
+
+  const inverse = createInverseProjection(crs);
+
+  return ([x, y, ...rest]) => {
+    let [lon, lat] = inverse(x * crs.unit, y * crs.unit);
+    lon += crs.primeMeridian;
+    if (shift) [lon, lat] = shift(lon, lat);
+
+    // Back to the -180..180 range after adding the central and prime meridians
+    const degrees = ((lon / DEG + 540) % 360) - 180;
+    return [degrees, lat / DEG, ...rest];
+  };
+}
+
+/**
+ * Transform to WGS 84 of the WKT of a .prj file
+ * @returns null when the coordinates are already WGS 84 longitude/latitude
+ * @throws Error if the projection is not supported
+ */
+export function getTransformFromWkt(wkt: string): CoordinateTransform | null {
+  return createTransform(getWktDefinition(parseWkt(wkt.trim())));
+}
+
+/**
+ * Transform to WGS 84 of an EPSG code
+ * @returns null when the coordinates are already WGS 84 longitude/latitude
+ * @throws Error if the code is not supported
+ */
+export function getTransformFromEpsg(code: number): CoordinateTransform | null {
+  const definition = getEpsgDefinition(code);
+  if (!definition) throw new Error(`Unsupported coordinate reference system: EPSG:${code}`);
+  return createTransform(definition);
+}
+
+/**
+ * Apply a coordinate transform to every position of a geometry
+ */
+export function transformGeometry<T extends GeoJSON.Geometry>(geometry: T, transform: CoordinateTransform): T {
+  const positions = (items: GeoJSON.Position[]) => items.map(transform);
+
+  switch (geometry.type) {
+    case 'Point':
+      return { ...geometry, coordinates: transform(geometry.coordinates) };
+    case 'MultiPoint':
+    case 'LineString':
+      return { ...geometry, coordinates: positions(geometry.coordinates) };
+    case 'MultiLineString':
+    case 'Polygon':
+      return { ...geometry, coordinates: geometry.coordinates.map(positions) };
+    case 'MultiPolygon':
+      return { ...geometry, coordinates: geometry.coordinates.map(polygon => polygon.map(positions)) };
+    case 'GeometryCollection':
+      return { ...geometry, geometries: geometry.geometries.map(item => transformGeometry(item, transform)) };
+    default:
+      return geometry;
+  }
+}
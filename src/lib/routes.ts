@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Application routes and post-login redirect helpers
+ */
+
+/** Login page */
+export const LOGIN_ROUTE = '/auth';
+
+/** Request a password reset link */
+export const FORGOT_PASSWORD_ROUTE = '/auth/forgot';
+
+/** Landing page after login when no other page was requested */
+export const DEFAULT_AUTHENTICATED_ROUTE = '/dashboard';
+
+/** Maps page */
+export const MAPS_ROUTE = '/dashboard/maps';
+
+/** Query param that opens the data import of the maps page */
+export const MAPS_IMPORT_PARAM = 'import';
+
+/** Query param carrying the page requested before login */
+export const NEXT_PARAM = 'next';
+
+/**
+ * Login URL that returns to the given path afterwards
+ */
+export function buildLoginUrl(nextPath?: string): string {
+  if (!nextPath || nextPath === LOGIN_ROUTE) return LOGIN_ROUTE;
+  return `${LOGIN_ROUTE}?${new URLSearchParams({ [NEXT_PARAM]: nextPath })}`;
+}
+
+/**
+ * Page to open after login
+ * Only same-origin paths are accepted so the param cannot redirect to another site
+ */
+export function getSafeNextPath(next?: string | null): string {
+  if (!next || !next.startsWith('/') || next.startsWith('//') || next.startsWith('/\\')) {
+    return DEFAULT_AUTHENTICATED_ROUTE;
+  }
+  if (next === LOGIN_ROUTE || next.startsWith(`${LOGIN_ROUTE}?`) || next.startsWith(`${LOGIN_ROUTE}/`)) {
+    return DEFAULT_AUTHENTICATED_ROUTE;
+  }
+  return next;
+}
+
+/**
+ * Page to open after login, read from the current URL
+ */
+export function getNextPathFromLocation(): string {
+  if (typeof window === 'undefined') return DEFAULT_AUTHENTICATED_ROUTE;
+  return getSafeNextPath(new URLSearchParams(window.location.search).get(NEXT_PARAM));
+}
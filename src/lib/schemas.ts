@@ -53,6 +53,103 @@ export const registerSchema = z.object({
   path: ['confirmPassword'],
 });
 
+/**
+ * Schema for requesting a password reset link
+ */
+export const forgotPasswordSchema = z.object({
+  email: z
+    .string()
+    .min(1, 'The email is required')
+    .email('Must be a valid email')
+    .max(100, 'Email too long'),
+});
+
+/**
+ * Schema for choosing a new password from a reset link
+ * Same password rules as registration
+ */
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'The reset link is invalid'),
+
+  password: z
+    .string()
+    .min(6, 'Minimum 6 characters')
+    .max(50, 'Maximum 50 characters')
+    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Must contain at least: 1 lowercase, 1 uppercase, and 1 number'),
+
+  confirmPassword: z.string()
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
+});
+
+/**
+ * Schema for the token of an email verification link
+ */
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'The verification link is invalid'),
+});
+
+/**
+ * Schema for editing the profile
+ */
+export const profileSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'The name is required')
+    .max(100, 'Name too long')
+    .regex(/^[a-zA-ZÀ-ÿ\s]+$/, 'Only letters and spaces allowed'),
+});
+
+/**
+ * Schema for changing the password from the settings page
+ */
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'The current password is required'),
+
+  newPassword: z
+    .string()
+    .min(6, 'Minimum 6 characters')
+    .max(50, 'Maximum 50 characters')
+    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Must contain at least: 1 lowercase, 1 uppercase, and 1 number'),
+
+  confirmPassword: z.string()
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
+}).refine((data) => data.newPassword !== data.currentPassword, {
+  message: 'The new password must be different',
+  path: ['newPassword'],
+});
+
+/**
+ * Accepted avatar images
+ */
+export const AVATAR_MAX_SIZE_BYTES = 2 * 1024 * 1024;
+export const AVATAR_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+/**
+ * Schema for the avatar file
+ */
+export const avatarFileSchema = z
+  .custom<File>((value) => typeof File !== 'undefined' && value instanceof File, 'Select an image')
+  .refine((file) => AVATAR_MIME_TYPES.includes(file.type), 'Use a PNG, JPEG or WebP image')
+  .refine((file) => file.size <= AVATAR_MAX_SIZE_BYTES, 'The image must be 2 MB or smaller');
+
+/**
+ * Schema for the user preferences
+ * The default view is optional: without it the map opens on France
+ */
+export const preferencesSchema = z.object({
+  mapStyle: z.enum(['streets', 'satellite', 'outdoors', 'light', 'dark']),
+  units: z.enum(['metric', 'imperial']),
+  language: z.enum(['es', 'en', 'fr']),
+  useCustomView: z.boolean(),
+  latitude: z.number('Invalid latitude').min(-90, 'Invalid latitude').max(90, 'Invalid latitude'),
+  longitude: z.number('Invalid longitude').min(-180, 'Invalid longitude').max(180, 'Invalid longitude'),
+  zoom: z.number('Invalid zoom').min(3, 'Minimum zoom is 3').max(18, 'Maximum zoom is 18'),
+});
+
 /**
  * Schema for user validation
  */
@@ -67,4 +164,10 @@ export const userSchema = z.object({
 
 export type LoginFormData = z.infer<typeof loginSchema>;
 export type RegisterFormData = z.infer<typeof registerSchema>;
-export type UserFormData = z.infer<typeof userSchema>;
\ No newline at end of file
+export type UserFormData = z.infer<typeof userSchema>;
+export type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+export type VerifyEmailData = z.infer<typeof verifyEmailSchema>;
+export type ProfileFormData = z.infer<typeof profileSchema>;
+export type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
+export type PreferencesFormData = z.infer<typeof preferencesSchema>;
\ No newline at end of file
@@ -0,0 +1,654 @@
+/**
+ * @fileoverview ESRI Shapefile writer and reader
+ * Builds the .shp, .shx, .dbf, .prj and .cpg files of a layer in WGS 84.
+ * A shapefile holds one geometry type, so mixed layers are split into one file set per type;
+ * features without a geometry are kept as null shapes so every attribute row is written.
+ * Reading turns the .shp and .dbf records back into GeoJSON features, in the file coordinates
+ */
+
+import type { AttributeField, ExportLayer } from '@/types/map';
+import type { ZipEntry } from './zip';
+
+type ShapeKind = 'null' | 'point' | 'multipoint' | 'polyline' | 'polygon';
+
+const SHAPE_TYPES: Record<ShapeKind, number> = {
+  null: 0,
+  point: 1,
+  polyline: 3,
+  polygon: 5,
+  multipoint: 8,
+};
+
+// Suffix of the file set of each geometry type when a layer mixes them
+const SHAPE_SUFFIXES: Record<ShapeKind, string> = {
+  null: 'no_geometry',
+  point: 'points',
+  multipoint: 'multipoints',
+  polyline: 'lines',
+  polygon: 'polygons',
+};
+
+/**
+ * Files of a layer as a shapefile
+ */
+export interface ShapefileEntries {
+  entries: ZipEntry[];
+  /** Features whose geometry could not be written and were kept as null shapes */
+  skippedGeometryCount: number;
+}
+
+/**
+ * WGS 84 in the ESRI flavour of WKT expected in .prj files
+ */
+export const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],' +
+  'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+type BoundingBox = [number, number, number, number];
+
+interface ShapeRecord {
+  kind: ShapeKind;
+  /** Points of the shape */
+  points: GeoJSON.Position[];
+  /** Index of the first point of each part (lines and rings) */
+  parts: number[];
+  properties: GeoJSON.GeoJsonProperties;
+}
+
+/**
+ * Signed planar area of a closed ring (positive when counter-clockwise)
+ */
+function getRingSignedArea(ring: GeoJSON.Position[]): number {
+  let total = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    total += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return total / 2;
+}
+
+/**
+ * Shapefile rings: outer rings clockwise, holes counter-clockwise
+ */
+function orientRing(ring: GeoJSON.Position[], clockwise: boolean): GeoJSON.Position[] {
+  const isClockwise = getRingSignedArea(ring) < 0;
+  return isClockwise === clockwise ? ring : [...ring].reverse();
+}
+
+/**
+ * Record without a geometry, which keeps the attribute row of the feature
+ */
+function toNullRecord(properties: GeoJSON.GeoJsonProperties): ShapeRecord {
+  return { kind: 'null', points: [], parts: [], properties };
+}
+
+/**
+ * Merge the records of a geometry collection into one, or null if they mix geometry types
+ * Points are merged as a multipoint
+ */
+function mergeShapeRecords(records: ShapeRecord[], properties: GeoJSON.GeoJsonProperties): ShapeRecord | null {
+  const shapes = records.filter(record => record.kind !== 'null');
+  if (shapes.length === 0) return toNullRecord(properties);
+
+  const kinds = new Set(shapes.map(record => (record.kind === 'point' ? 'multipoint' : record.kind)));
+  if (kinds.size > 1) return null;
+
+  const [kind] = kinds;
+  const points: GeoJSON.Position[] = [];
+  const parts: number[] = [];
+  shapes.forEach(record => {
+    parts.push(...record.parts.map(part => part + points.length));
+    points.push(...record.points);
+  });
+  return { kind, points, parts, properties };
+}
+
+/**
+ * Turn a GeoJSON geometry into a shape record
+ * Missing and empty geometries give a null shape; null is returned when the geometry
+ * has no shapefile equivalent (collections mixing geometry types)
+ */
+function toShapeRecord(geometry: GeoJSON.Geometry | null, properties: GeoJSON.GeoJsonProperties): ShapeRecord | null {
+  const fromParts = (kind: ShapeKind, lines: GeoJSON.Position[][]): ShapeRecord => {
+    const parts: number[] = [];
+    const points: GeoJSON.Position[] = [];
+    lines.forEach(line => {
+      parts.push(points.length);
+      points.push(...line);
+    });
+    return { kind, points, parts, properties };
+  };
+
+  switch (geometry?.type) {
+    case 'Point':
+      return { kind: 'point', points: [geometry.coordinates], parts: [], properties };
+    case 'MultiPoint':
+      return geometry.coordinates.length
+        ? { kind: 'multipoint', points: geometry.coordinates, parts: [], properties }
+        : toNullRecord(properties);
+    case 'LineString':
+      return fromParts('polyline', [geometry.coordinates]);
+    case 'MultiLineString':
+      return fromParts('polyline', geometry.coordinates);
+    case 'Polygon':
+    case 'MultiPolygon': {
+      const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+      return fromParts(
+        'polygon',
+        polygons.flatMap(([outer, ...holes]) => [
+          orientRing(outer, true),
+          ...holes.map(hole => orientRing(hole, false)),
+        ])
+      );
+    }
+    case 'GeometryCollection': {
+      const records = geometry.geometries.map(member => toShapeRecord(member, properties));
+      return records.includes(null) ? null : mergeShapeRecords(records as ShapeRecord[], properties);
+    }
+    default:
+      return toNullRecord(properties);
+  }
+}
+
+function getPointsBoundingBox(points: GeoJSON.Position[]): BoundingBox {
+  // Files of null shapes only have an empty extent
+  if (points.length === 0) return [0, 0, 0, 0];
+  return points.reduce<BoundingBox>(
+    (bbox, [x, y]) => [Math.min(bbox[0], x), Math.min(bbox[1], y), Math.max(bbox[2], x), Math.max(bbox[3], y)],
+    [Infinity, Infinity, -Infinity, -Infinity]
+  );
+}
+
+/**
+ * Size in bytes of the content of a record (without its 8-byte header)
+ */
+function getRecordContentLength(record: ShapeRecord): number {
+  switch (record.kind) {
+    case 'null':
+      return 4;
+    case 'point':
+      return 4 + 16;
+    case 'multipoint':
+      return 4 + 32 + 4 + 16 * record.points.length;
+    default:
+      return 4 + 32 + 4 + 4 + 4 * record.parts.length + 16 * record.points.length;
+  }
+}
+
+/**
+ * 100-byte header shared by the .shp and .shx files
+ */
+function writeMainHeader(view: DataView, fileLength: number, shapeType: number, bbox: BoundingBox): void {
+  view.setInt32(0, 9994, false);
+  view.setInt32(24, fileLength / 2, false);
+  view.setInt32(28, 1000, true);
+  view.setInt32(32, shapeType, true);
+  bbox.forEach((value, index) => view.setFloat64(36 + index * 8, value, true));
+}
+
+/**
+ * Build the .shp and .shx files of records of a single geometry type, and null shapes
+ */
+function buildGeometryFiles(kind: ShapeKind, records: ShapeRecord[]): { shp: Uint8Array; shx: Uint8Array } {
+  const shapeType = SHAPE_TYPES[kind];
+  const contentLengths = records.map(getRecordContentLength);
+  const shpLength = 100 + contentLengths.reduce((sum, length) => sum + 8 + length, 0);
+  const shxLength = 100 + 8 * records.length;
+
+  const shp = new Uint8Array(shpLength);
+  const shx = new Uint8Array(shxLength);
+  const shpView = new DataView(shp.buffer);
+  const shxView = new DataView(shx.buffer);
+
+  const bbox = getPointsBoundingBox(records.flatMap(record => record.points));
+  writeMainHeader(shpView, shpLength, shapeType, bbox);
+  writeMainHeader(shxView, shxLength, shapeType, bbox);
+
+  let offset = 100;
+  records.forEach((record, index) => {
+    const contentLength = contentLengths[index];
+
+    shxView.setInt32(100 + index * 8, offset / 2, false);
+    shxView.setInt32(104 + index * 8, contentLength / 2, false);
+
+    shpView.setInt32(offset, index + 1, false);
+    shpView.setInt32(offset + 4, contentLength / 2, false);
+    shpView.setInt32(offset + 8, SHAPE_TYPES[record.kind], true);
+    let cursor = offset + 12;
+
+    const writePoints = () => {
+      record.points.forEach(([x, y]) => {
+        shpView.setFloat64(cursor, x, true);
+        shpView.setFloat64(cursor + 8, y, true);
+        cursor += 16;
+      });
+    };
+
+    if (record.kind === 'null') {
+      // A null shape is only its type
+    } else if (kind === 'point') {
+      writePoints();
+    } else {
+      getPointsBoundingBox(record.points).forEach(value => {
+        shpView.setFloat64(cursor, value, true);
+        cursor += 8;
+      });
+      if (kind === 'multipoint') {
+        shpView.setInt32(cursor, record.points.length, true);
+        cursor += 4;
+      } else {
+        shpView.setInt32(cursor, record.parts.length, true);
+        shpView.setInt32(cursor + 4, record.points.length, true);
+        cursor += 8;
+        record.parts.forEach(part => {
+          shpView.setInt32(cursor, part, true);
+          cursor += 4;
+        });
+      }
+      writePoints();
+    }
+
+    offset += 8 + contentLength;
+  });
+
+  return { shp, shx };
+}
+
+interface DbfField {
+  /** Attribute the column is read from */
+  source: string;
+  /** Column name, 10 ASCII characters at most */
+  name: string;
+  type: 'C' | 'N' | 'L';
+  length: number;
+  decimals: number;
+}
+
+/**
+ * dBase column names: ASCII, at most 10 characters and unique
+ */
+function getDbfFieldNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map(name => {
+    const base = name.replace(/[^A-Za-z0-9_]/g, '_').slice(0, 10) || 'field';
+    let candidate = base;
+    for (let i = 1; used.has(candidate.toUpperCase()); i++) {
+      const suffix = String(i);
+      candidate = base.slice(0, 10 - suffix.length) + suffix;
+    }
+    used.add(candidate.toUpperCase());
+    return candidate;
+  });
+}
+
+/**
+ * UTF-8 bytes of a text, cut to a byte length without splitting characters
+ */
+function encodeText(text: string, maxLength: number): Uint8Array {
+  const encoder = new TextEncoder();
+  let bytes = encoder.encode(text);
+  if (bytes.length <= maxLength) return bytes;
+
+  let end = text.length;
+  while (end > 0 && bytes.length > maxLength) {
+    end--;
+    bytes = encoder.encode(text.slice(0, end));
+  }
+  return bytes;
+}
+
+function formatDbfValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Right-aligned number that fits the column, dropping decimals when needed
+ */
+function formatDbfNumber(value: number, length: number, decimals: number): string {
+  let text = value.toFixed(decimals);
+  if (text.length > length) text = value.toFixed(Math.max(0, decimals - (text.length - length)));
+  if (text.length > length) text = value.toExponential(Math.max(0, length - 8));
+  return text.padStart(length, ' ');
+}
+
+/**
+ * Build the .dbf attribute table
+ */
+function buildDbf(records: ShapeRecord[], attributeFields: AttributeField[]): Uint8Array {
+  const names = getDbfFieldNames(attributeFields.map(field => field.name));
+  const fields: DbfField[] = attributeFields.map((field, index) => {
+    switch (field.type) {
+      case 'integer':
+        return { source: field.name, name: names[index], type: 'N', length: 18, decimals: 0 };
+      case 'real':
+        return { source: field.name, name: names[index], type: 'N', length: 24, decimals: 15 };
+      case 'boolean':
+        return { source: field.name, name: names[index], type: 'L', length: 1, decimals: 0 };
+      default: {
+        const longest = records.reduce((max, record) => {
+          const value = record.properties?.[field.name];
+          if (value === null || value === undefined) return max;
+          return Math.max(max, encodeText(formatDbfValue(value), 254).length);
+        }, 1);
+        return { source: field.name, name: names[index], type: 'C', length: longest, decimals: 0 };
+      }
+    }
+  });
+
+  // A table without columns is not readable everywhere
+  const useRecordNumber = fields.length === 0;
+  if (useRecordNumber) fields.push({ source: '', name: 'fid', type: 'N', length: 10, decimals: 0 });
+
+  const headerLength = 32 + 32 * fields.length + 1;
+  const recordLength = 1 + fields.reduce((sum, field) => sum + field.length, 0);
+  const dbf = new Uint8Array(headerLength + recordLength * records.length + 1);
+  const view = new DataView(dbf.buffer);
+  const today = new Date();
+
+  dbf[0] = 0x03;
+  dbf[1] = today.getFullYear() - 1900;
+  dbf[2] = today.getMonth() + 1;
+  dbf[3] = today.getDate();
+  view.setUint32(4, records.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+
+  const encoder = new TextEncoder();
+  fields.forEach((field, index) => {
+    const offset = 32 + index * 32;
+    dbf.set(encoder.encode(field.name), offset);
+    dbf[offset + 11] = field.type.charCodeAt(0);
+    dbf[offset + 16] = field.length;
+    dbf[offset + 17] = field.decimals;
+  });
+  dbf[headerLength - 1] = 0x0d;
+
+  records.forEach((record, recordIndex) => {
+    let offset = headerLength + recordIndex * recordLength;
+    dbf[offset] = 0x20; // not deleted
+    offset += 1;
+
+    fields.forEach(field => {
+      const value = useRecordNumber ? recordIndex + 1 : record.properties?.[field.source];
+      dbf.fill(0x20, offset, offset + field.length);
+
+      if (value !== null && value !== undefined) {
+        if (field.type === 'L') {
+          dbf[offset] = (value ? 'T' : 'F').charCodeAt(0);
+        } else if (field.type === 'N') {
+          const number = Number(value);
+          if (Number.isFinite(number)) {
+            dbf.set(encoder.encode(formatDbfNumber(number, field.length, field.decimals)), offset);
+          }
+        } else {
+          dbf.set(encodeText(formatDbfValue(value), field.length), offset);
+        }
+      } else if (field.type === 'L') {
+        dbf[offset] = '?'.charCodeAt(0);
+      }
+
+      offset += field.length;
+    });
+  });
+
+  dbf[dbf.length - 1] = 0x1a;
+  return dbf;
+}
+
+/**
+ * Files of a layer as a shapefile, ready to be zipped
+ * Null shapes go with the features of the layer's only geometry type, or in their
+ * own file set when the layer mixes types
+ * @param layer - Layer to write
+ * @param fields - Attribute columns
+ * @param baseName - File name without extension
+ * @returns The files and the number of geometries that could not be written
+ */
+export function createShapefileEntries(
+  layer: ExportLayer,
+  fields: AttributeField[],
+  baseName: string
+): ShapefileEntries {
+  let skippedGeometryCount = 0;
+  const records = layer.features.map(feature => {
+    const record = toShapeRecord(feature.geometry, feature.properties);
+    if (record) return record;
+    skippedGeometryCount++;
+    return toNullRecord(feature.properties);
+  });
+
+  const recordsByKind = new Map<ShapeKind, ShapeRecord[]>();
+  records.forEach(record => {
+    const kindRecords = recordsByKind.get(record.kind) ?? [];
+    kindRecords.push(record);
+    recordsByKind.set(record.kind, kindRecords);
+  });
+
+  // With a single geometry type the null shapes share its file set, in the feature order
+  const geometryKinds = [...recordsByKind.keys()].filter(kind => kind !== 'null');
+  if (geometryKinds.length === 1 && recordsByKind.has('null')) {
+    recordsByKind.clear();
+    recordsByKind.set(geometryKinds[0], records);
+  }
+
+  const isMixed = recordsByKind.size > 1;
+  const entries = [...recordsByKind.entries()].flatMap(([kind, kindRecords]) => {
+    const name = isMixed ? `${baseName}_${SHAPE_SUFFIXES[kind]}` : baseName;
+    const { shp, shx } = buildGeometryFiles(kind, kindRecords);
+    return [
+      { name: `${name}.shp`, data: shp },
+      { name: `${name}.shx`, data: shx },
+      { name: `${name}.dbf`, data: buildDbf(kindRecords, fields) },
+      { name: `${name}.prj`, data: WGS84_PRJ },
+      { name: `${name}.cpg`, data: 'UTF-8' },
+    ];
+  });
+
+  return { entries, skippedGeometryCount };
+}
+
+/**
+ * Whether a point lies inside a ring (ray casting)
+ */
+function isPointInRing([x, y]: GeoJSON.Position, ring: GeoJSON.Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Group shapefile rings into polygons: clockwise rings are outer rings,
+ * counter-clockwise ones are holes of the outer ring that contains them
+ */
+function toPolygonGeometry(rings: GeoJSON.Position[][]): GeoJSON.Polygon | GeoJSON.MultiPolygon | null {
+  const polygons: GeoJSON.Position[][][] = [];
+  const holes: GeoJSON.Position[][] = [];
+  rings.forEach(ring => (getRingSignedArea(ring) < 0 ? polygons.push([ring]) : holes.push(ring)));
+
+  // Files written with the wrong orientation: every ring is an outer ring
+  if (!polygons.length) return toPolygonGeometry(rings.map(ring => [...ring].reverse()));
+
+  holes.forEach(hole => {
+    const polygon = polygons.find(([outer]) => isPointInRing(hole[0], outer)) ?? polygons[polygons.length - 1];
+    polygon.push(hole);
+  });
+
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+/**
+ * GeoJSON geometry of a .shp record, or null for null shapes and unsupported types
+ * Z and M values are left out
+ */
+function readShapeGeometry(view: DataView, offset: number, length: number): GeoJSON.Geometry | null {
+  if (length < 4) return null;
+  const shapeType = view.getInt32(offset, true);
+  // Z (1x) and M (2x) variants share the layout of the 2D shape before their extra values
+  const baseType = shapeType % 10;
+
+  const readPoints = (start: number, count: number): GeoJSON.Position[] =>
+    Array.from({ length: count }, (_, i) => [
+      view.getFloat64(start + i * 16, true),
+      view.getFloat64(start + i * 16 + 8, true),
+    ]);
+
+  if (shapeType === 0 || shapeType > 28) return null;
+
+  if (baseType === SHAPE_TYPES.point) {
+    return { type: 'Point', coordinates: readPoints(offset + 4, 1)[0] };
+  }
+
+  if (baseType === SHAPE_TYPES.multipoint) {
+    const count = view.getInt32(offset + 36, true);
+    if (40 + count * 16 > length) throw new Error('Truncated shape record');
+    return { type: 'MultiPoint', coordinates: readPoints(offset + 40, count) };
+  }
+
+  if (baseType === SHAPE_TYPES.polyline || baseType === SHAPE_TYPES.polygon) {
+    const partCount = view.getInt32(offset + 36, true);
+    const pointCount = view.getInt32(offset + 40, true);
+    const pointsOffset = offset + 44 + partCount * 4;
+    if (partCount < 0 || pointCount < 0 || 44 + partCount * 4 + pointCount * 16 > length) {
+      throw new Error('Truncated shape record');
+    }
+
+    const points = readPoints(pointsOffset, pointCount);
+    const starts = Array.from({ length: partCount }, (_, i) => view.getInt32(offset + 44 + i * 4, true));
+    const parts = starts.map((start, i) => points.slice(start, i + 1 < partCount ? starts[i + 1] : pointCount));
+
+    if (baseType === SHAPE_TYPES.polygon) return toPolygonGeometry(parts);
+    return parts.length === 1
+      ? { type: 'LineString', coordinates: parts[0] }
+      : { type: 'MultiLineString', coordinates: parts };
+  }
+
+  return null;
+}
+
+/**
+ * Text decoder of a .dbf, from the content of its .cpg file
+ */
+function getDbfDecoder(codePage?: string): TextDecoder | null {
+  const label = codePage?.trim().toLowerCase();
+  if (!label) return null;
+  const normalized = /^125\d$/.test(label) ? `windows-${label}` : label === '65001' ? 'utf-8' : label;
+  try {
+    return new TextDecoder(normalized);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode a .dbf text value: the declared encoding, or else UTF-8 with a Windows-1252 fallback
+ */
+function decodeDbfText(bytes: Uint8Array, decoder: TextDecoder | null): string {
+  if (decoder) return decoder.decode(bytes);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+}
+
+/**
+ * Attribute records of a .dbf file; deleted records are returned as null
+ */
+function readDbf(dbf: Uint8Array, codePage?: string): Array<GeoJSON.GeoJsonProperties> {
+  const view = new DataView(dbf.buffer, dbf.byteOffset, dbf.byteLength);
+  const decoder = getDbfDecoder(codePage);
+  const recordCount = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+
+  const fields: Array<{ name: string; type: string; offset: number; length: number }> = [];
+  for (let offset = 32, fieldOffset = 1; offset + 32 <= headerLength && dbf[offset] !== 0x0d; offset += 32) {
+    const nameBytes = dbf.subarray(offset, offset + 11);
+    const nameEnd = nameBytes.indexOf(0);
+    const length = dbf[offset + 16];
+    fields.push({
+      name: decodeDbfText(nameBytes.subarray(0, nameEnd === -1 ? 11 : nameEnd), decoder),
+      type: String.fromCharCode(dbf[offset + 11]),
+      offset: fieldOffset,
+      length,
+    });
+    fieldOffset += length;
+  }
+
+  return Array.from({ length: recordCount }, (_, index) => {
+    const start = headerLength + index * recordLength;
+    if (start + recordLength > dbf.length || dbf[start] === 0x2a) return null;
+
+    return Object.fromEntries(fields.map(field => {
+      const bytes = dbf.subarray(start + field.offset, start + field.offset + field.length);
+      const text = decodeDbfText(bytes, decoder).trim();
+
+      switch (field.type) {
+        case 'N':
+        case 'F': {
+          const number = Number(text);
+          return [field.name, text && Number.isFinite(number) ? number : null];
+        }
+        case 'L':
+          return [field.name, /^[TtYy]$/.test(text) ? true : /^[FfNn]$/.test(text) ? false : null];
+        case 'D':
+          return [field.name, /^\d{8}$/.test(text) ? `${text.slice(0, 4)}-${text.slice(4, 6)}-${text.slice(6)}` : null];
+        default:
+          return [field.name, text || null];
+      }
+    }));
+  });
+}
+
+/**
+ * Read the features of a shapefile
+ * @param shp - Content of the .shp file
+ * @param dbf - Content of the .dbf file, if any
+ * @param codePage - Content of the .cpg file, if any
+ * @returns One feature per record, in the coordinates of the file; null shapes and
+ *   records that cannot be read have a null geometry
+ * @throws Error if the .shp file is not a shapefile
+ */
+export function readShapefile(
+  shp: Uint8Array,
+  dbf?: Uint8Array,
+  codePage?: string
+): Array<GeoJSON.Feature<GeoJSON.Geometry | null>> {
+  const view = new DataView(shp.buffer, shp.byteOffset, shp.byteLength);
+  if (shp.length < 100 || view.getInt32(0, false) !== 9994) {
+    throw new Error('The .shp file is not a valid shapefile');
+  }
+
+  const attributes = dbf ? readDbf(dbf, codePage) : [];
+  const features: Array<GeoJSON.Feature<GeoJSON.Geometry | null>> = [];
+
+  // File length in the header is in 16-bit words
+  const end = Math.min(shp.length, view.getInt32(24, false) * 2);
+  for (let offset = 100, index = 0; offset + 8 <= end; index++) {
+    const length = view.getInt32(offset + 4, false) * 2;
+    if (length < 0) break;
+    const properties = attributes[index];
+
+    // Records deleted in the .dbf are left out
+    if (properties !== null) {
+      let geometry: GeoJSON.Geometry | null = null;
+      try {
+        geometry = offset + 8 + length <= shp.length ? readShapeGeometry(view, offset + 8, length) : null;
+      } catch {
+        geometry = null;
+      }
+      features.push({ type: 'Feature', geometry, properties: properties ?? {} });
+    }
+
+    offset += 8 + length;
+  }
+
+  return features;
+}
@@ -0,0 +1,264 @@
+/**
+ * @fileoverview Almacenamiento de la sesión de autenticación
+ * Backends intercambiables (memoria, sessionStorage, localStorage) elegidos según "recordarme",
+ * con sincronización del logout y de la renovación del token entre pestañas
+ */
+
+import type { User } from '@/types/auth';
+
+/**
+ * Backends disponibles
+ * - local: persiste entre visitas ("recordarme")
+ * - session: solo mientras la pestaña esté abierta
+ * - memory: cuando el navegador no permite Web Storage (SSR, modo privado)
+ */
+export type TokenStorageBackend = 'memory' | 'session' | 'local';
+
+/**
+ * Interfaz mínima de un backend de almacenamiento
+ */
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Sesión guardada tras login o renovación del token
+ */
+export interface StoredSession {
+  accessToken: string;
+  refreshToken: string;
+  user: User;
+}
+
+/**
+ * Claves usadas en el almacenamiento
+ */
+export const AUTH_STORAGE_KEYS = {
+  accessToken: 'auth_token',
+  refreshToken: 'refresh_token',
+  user: 'auth_user',
+} as const;
+
+// Clave auxiliar para avisar del logout a otras pestañas sin BroadcastChannel
+const LOGOUT_EVENT_KEY = 'auth_logout_at';
+const BROADCAST_CHANNEL_NAME = 'auth';
+// Lock de Web Locks que serializa la renovación del token entre pestañas
+const REFRESH_LOCK_NAME = 'auth_refresh';
+
+/**
+ * Backend en memoria
+ */
+function createMemoryStorage(): KeyValueStorage {
+  const values = new Map<string, string>();
+  return {
+    getItem: key => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: key => {
+      values.delete(key);
+    },
+  };
+}
+
+/**
+ * Web Storage disponible, o null en el servidor o si el navegador lo bloquea
+ */
+function getWebStorage(type: 'local' | 'session'): KeyValueStorage | null {
+  try {
+    if (typeof window === 'undefined') return null;
+    const storage = type === 'local' ? window.localStorage : window.sessionStorage;
+    // Safari en modo privado expone el objeto pero falla al escribir
+    storage.setItem('__storage_test__', '1');
+    storage.removeItem('__storage_test__');
+    return storage;
+  } catch {
+    return null;
+  }
+}
+
+const memoryStorage = createMemoryStorage();
+
+function getBackendStorage(backend: TokenStorageBackend): KeyValueStorage {
+  if (backend === 'memory') return memoryStorage;
+  return getWebStorage(backend) ?? memoryStorage;
+}
+
+/**
+ * Backend que contiene la sesión actual
+ * Se detecta a partir de dónde hay un token guardado
+ */
+function detectBackend(): TokenStorageBackend {
+  if (getWebStorage('local')?.getItem(AUTH_STORAGE_KEYS.accessToken)) return 'local';
+  if (getWebStorage('session')?.getItem(AUTH_STORAGE_KEYS.accessToken)) return 'session';
+  return 'memory';
+}
+
+let activeBackend: TokenStorageBackend | null = null;
+
+function getActiveStorage(): KeyValueStorage {
+  activeBackend ??= detectBackend();
+  return getBackendStorage(activeBackend);
+}
+
+/**
+ * Leer un valor guardado como JSON (o como texto plano en sesiones antiguas)
+ */
+function readValue<T>(key: string): T | null {
+  const item = getActiveStorage().getItem(key);
+  if (!item) return null;
+  try {
+    return JSON.parse(item);
+  } catch {
+    return item as T;
+  }
+}
+
+function writeValue(key: string, value: unknown): void {
+  getActiveStorage().setItem(key, JSON.stringify(value));
+}
+
+export function getAccessToken(): string | null {
+  return readValue<string>(AUTH_STORAGE_KEYS.accessToken);
+}
+
+export function getRefreshToken(): string | null {
+  return readValue<string>(AUTH_STORAGE_KEYS.refreshToken);
+}
+
+export function getStoredUser(): User | null {
+  return readValue<User>(AUTH_STORAGE_KEYS.user);
+}
+
+/**
+ * Guardar la sesión
+ * @param session - Tokens y usuario
+ * @param rememberMe - Elige el backend (localStorage o sessionStorage);
+ *   si se omite (renovación del token) se mantiene el backend actual
+ */
+export function saveSession(session: StoredSession, rememberMe?: boolean): void {
+  if (rememberMe !== undefined) {
+    activeBackend = rememberMe ? 'local' : 'session';
+  }
+  // Se sobrescriben las claves sin borrarlas antes, para no parecer un logout a otras pestañas
+  writeValue(AUTH_STORAGE_KEYS.accessToken, session.accessToken);
+  writeValue(AUTH_STORAGE_KEYS.refreshToken, session.refreshToken);
+  writeValue(AUTH_STORAGE_KEYS.user, session.user);
+
+  // Sesión anterior guardada en otro backend
+  const currentStorage = getActiveStorage();
+  (['memory', 'session', 'local'] as const)
+    .map(getBackendStorage)
+    .filter(storage => storage !== currentStorage)
+    .forEach(clearStorage);
+}
+
+/**
+ * Actualizar el usuario guardado (p.ej. tras /auth/me)
+ */
+export function saveUser(user: User): void {
+  writeValue(AUTH_STORAGE_KEYS.user, user);
+}
+
+/**
+ * Borrar la sesión de todos los backends
+ */
+export function clearSession(): void {
+  (['memory', 'session', 'local'] as const).map(getBackendStorage).forEach(clearStorage);
+}
+
+function clearStorage(storage: KeyValueStorage): void {
+  Object.values(AUTH_STORAGE_KEYS).forEach(key => storage.removeItem(key));
+}
+
+/**
+ * Avisar a las demás pestañas de que se ha cerrado la sesión
+ */
+export function broadcastLogout(): void {
+  if (typeof window === 'undefined') return;
+
+  if ('BroadcastChannel' in window) {
+    const channel = new BroadcastChannel(BROADCAST_CHANNEL_NAME);
+    channel.postMessage({ type: 'logout' });
+    channel.close();
+    return;
+  }
+
+  // El evento storage solo llega a las otras pestañas
+  getWebStorage('local')?.setItem(LOGOUT_EVENT_KEY, String(Date.now()));
+}
+
+/**
+ * Escuchar los logouts hechos en otras pestañas
+ * @returns Función para dejar de escuchar
+ */
+export function onLogoutInOtherTab(listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => undefined;
+
+  // Solo cuenta el aviso explícito: login y renovación también reescriben o borran los tokens
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === LOGOUT_EVENT_KEY && event.newValue !== null) listener();
+  };
+  window.addEventListener('storage', handleStorage);
+
+  const channel = 'BroadcastChannel' in window ? new BroadcastChannel(BROADCAST_CHANNEL_NAME) : null;
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'logout') listener();
+  };
+  channel?.addEventListener('message', handleMessage);
+
+  return () => {
+    window.removeEventListener('storage', handleStorage);
+    channel?.removeEventListener('message', handleMessage);
+    channel?.close();
+  };
+}
+
+/**
+ * Escuchar las renovaciones del token hechas en otras pestañas
+ * Solo las sesiones de localStorage se comparten: las de sessionStorage son de cada pestaña
+ * @returns Función para dejar de escuchar
+ */
+export function onSessionRenewedInOtherTab(listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => undefined;
+
+  const handleStorage = (event: StorageEvent) => {
+    if (
+      event.storageArea === getWebStorage('local') &&
+      event.key === AUTH_STORAGE_KEYS.accessToken &&
+      event.newValue !== null &&
+      activeBackend === 'local'
+    ) {
+      listener();
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return () => window.removeEventListener('storage', handleStorage);
+}
+
+/**
+ * Ejecutar la renovación del token en exclusión mutua con las demás pestañas
+ * Sin Web Locks (navegadores antiguos) se ejecuta directamente
+ */
+export async function withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+  if (typeof navigator === 'undefined' || !navigator.locks) return task();
+  return navigator.locks.request(REFRESH_LOCK_NAME, () => task());
+}
+
+const tokenStorage = {
+  getAccessToken,
+  getRefreshToken,
+  getStoredUser,
+  saveSession,
+  saveUser,
+  clearSession,
+  broadcastLogout,
+  onLogoutInOtherTab,
+  onSessionRenewedInOtherTab,
+  withRefreshLock,
+};
+
+export default tokenStorage;
@@ -40,29 +40,50 @@ export function isValidEmail(email: string): boolean {
 }
 
 /**
- * Utility para generar avatar placeholder basado en iniciales  
+ * Iniciales de un usuario para su avatar
  * @param name - Nombre del usuario (opcional)
  * @param email - Email del usuario como fallback
- * @returns URL del avatar placeholder
  */
-export function getAvatarFallback(name?: string | null, email?: string): string {
-  let initials = 'U'; // Default fallback
-  
+export function getInitials(name?: string | null, email?: string): string {
   if (name && name.trim()) {
     // Si hay nombre, usar las iniciales del nombre
-    initials = name
+    return name
       .trim()
-      .split(' ')
+      .split(/\s+/)
       .map(word => word.charAt(0))
       .join('')
       .toUpperCase()
       .slice(0, 2);
-  } else if (email) {
+  }
+  if (email) {
     // Si no hay nombre pero hay email, usar las primeras 2 letras del email
-    initials = email.substring(0, 2).toUpperCase();
+    return email.substring(0, 2).toUpperCase();
   }
-    
-  return `https://ui-avatars.com/api/?name=${encodeURIComponent(initials)}&background=0ea5e9&color=fff&size=40`;
+  return 'U'; // Default fallback
+}
+
+/**
+ * Utility para generar avatar placeholder basado en iniciales
+ * Se genera localmente como SVG, sin depender de servicios externos
+ * @param name - Nombre del usuario (opcional)
+ * @param email - Email del usuario como fallback
+ * @returns Data URL del avatar placeholder
+ */
+export function getAvatarFallback(name?: string | null, email?: string): string {
+  const initials = getInitials(name, email)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+  const svg =
+    '<svg xmlns="http://www.w3.org/2000/svg" width="40" height="40" viewBox="0 0 40 40">' +
+    '<rect width="40" height="40" fill="#0ea5e9"/>' +
+    '<text x="50%" y="50%" dy=".35em" text-anchor="middle" fill="#fff" ' +
+    'font-family="Arial, sans-serif" font-size="16" font-weight="600">' +
+    initials +
+    '</text></svg>';
+
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
 }
 
 /**
@@ -118,4 +139,53 @@ export function secureStorageRemove(key: string): void {
   } catch (error) {
     console.warn('Error removing from localStorage:', error);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Utility para leer la fecha de expiración de un JWT
+ * No verifica la firma: solo sirve para planificar la renovación del token
+ * @param token - JWT
+ * @returns Expiración en milisegundos desde epoch, o null si el token no tiene `exp`
+ */
+export function getTokenExpiry(token: string): number | null {
+  try {
+    const [, payload] = token.split('.');
+    if (!payload) return null;
+
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const { exp } = JSON.parse(atob(padded));
+
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Utility para saber si un evento de teclado viene de un campo de texto
+ * Los atajos globales del mapa no deben dispararse mientras el usuario escribe
+ * @param target - Destino del evento
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Utility para descargar un fichero generado en el navegador
+ * @param blob - Contenido del fichero
+ * @param fileName - Nombre con el que se guarda
+ */
+export function downloadFile(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Liberar la URL cuando la descarga ya ha empezado
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -1,9 +1,10 @@
 /**
- * @fileoverview Simplified Axios configuration for HTTP requests
- * Basic setup without interceptors for cleaner technical test implementation
+ * @fileoverview Axios configuration for HTTP requests
+ * Interceptors attach the bearer token and refresh it once on 401, queueing concurrent requests
  */
 
-import axios from 'axios';
+import axios, { type AxiosError, type InternalAxiosRequestConfig } from 'axios';
+import tokenStorage from '@/lib/tokenStorage';
 
 // Backend base URL - adjust according to your configuration
 const BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
@@ -20,37 +21,162 @@ export const apiClient = axios.create({
 });
 
 /**
- * Helper function to add auth token to requests
- * Call this manually when needed instead of using interceptors
+ * Session callbacks provided by the AuthContext
  */
-export const addAuthHeader = (config: any, token?: string) => {
-  const authToken = token || (typeof window !== 'undefined' ? localStorage.getItem('auth_token') : null);
-  if (authToken) {
-    // Ensure headers object exists
-    if (!config.headers) {
-      config.headers = {};
-    }
-    config.headers.Authorization = `Bearer ${authToken}`;
+export interface AuthHandlers {
+  /** Renew the session and return the new access token */
+  refreshSession: () => Promise<string>;
+  /** Log out after the session could not be renewed */
+  onSessionExpired: () => void;
+}
+
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  /** Set once the request has been replayed after a refresh */
+  _retry?: boolean;
+}
+
+/**
+ * Statuses of /auth/refresh meaning the refresh token is no longer valid
+ */
+const SESSION_REJECTED_STATUSES = [400, 401];
+
+/**
+ * Endpoints whose 401 means bad credentials, not an expired token
+ */
+const AUTH_ENDPOINTS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/forgot-password',
+  '/auth/reset-password',
+  '/auth/verify-email',
+];
+
+let authHandlers: AuthHandlers | null = null;
+
+// Refresh in progress; concurrent 401s wait for it instead of refreshing again
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Register the session callbacks used by the interceptors
+ * @returns Function to unregister them
+ */
+export function registerAuthHandlers(handlers: AuthHandlers): () => void {
+  authHandlers = handlers;
+  return () => {
+    if (authHandlers === handlers) authHandlers = null;
+  };
+}
+
+function isAuthEndpoint(url?: string): boolean {
+  return !!url && AUTH_ENDPOINTS.some(endpoint => url.startsWith(endpoint));
+}
+
+/**
+ * Whether a refresh failure means the session can no longer be renewed
+ * Network and server errors do not: the next request tries to refresh again
+ * @param error - Error thrown by the refresh, or wrapping it as cause
+ */
+export function isSessionRejectedError(error: unknown): boolean {
+  const cause = error instanceof Error && error.cause !== undefined ? error.cause : error;
+  return axios.isAxiosError(cause) && SESSION_REJECTED_STATUSES.includes(cause.response?.status ?? 0);
+}
+
+/**
+ * Token a request was sent with, if any
+ */
+function getRequestToken(config: InternalAxiosRequestConfig): string | null {
+  const header = config.headers.Authorization;
+  return typeof header === 'string' ? header.replace(/^Bearer /, '') : null;
+}
+
+/**
+ * Refresh the session once for all the requests waiting on it
+ * The session is only closed when there is no refresh token or the backend rejects it
+ */
+function refreshAccessToken(handlers: AuthHandlers): Promise<string> {
+  if (!refreshPromise) {
+    const hasRefreshToken = !!tokenStorage.getRefreshToken();
+    refreshPromise = handlers
+      .refreshSession()
+      .catch((error) => {
+        if (!hasRefreshToken || isSessionRejectedError(error)) {
+          handlers.onSessionExpired();
+        }
+        throw error;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
   }
-  return config;
-};
+  return refreshPromise;
+}
 
 /**
- * Helper function for centralized error handling
- * Call this in your services instead of using response interceptors
+ * Refresh the session outside of a failed request (startup, expiry timer)
+ * Shares the in-flight refresh with the interceptors
  */
-export const handleApiError = (error: any) => {
+export function refreshAuthSession(): Promise<string> {
+  if (!authHandlers) {
+    return Promise.reject(new Error('Authentication handlers are not registered'));
+  }
+  return refreshAccessToken(authHandlers);
+}
+
+/**
+ * Centralized error handling for failed responses
+ * A 401 that survives the refresh ends the session
+ */
+export const handleApiError = (error: AxiosError) => {
   if (error.response?.status === 401) {
-    // Handle unauthorized - could redirect to login
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem('auth_token');
-      localStorage.removeItem('refresh_token');
-      localStorage.removeItem('auth_user');
-      // Optional: redirect to login
-      // window.location.href = '/auth';
+    if (authHandlers) {
+      authHandlers.onSessionExpired();
+    } else {
+      tokenStorage.clearSession();
     }
   }
   return Promise.reject(error);
 };
 
-export default apiClient;
\ No newline at end of file
+// Attach the bearer token to every request
+apiClient.interceptors.request.use((config) => {
+  const token = tokenStorage.getAccessToken();
+  if (token && !config.headers.Authorization) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// Refresh the token on 401 and replay the request
+apiClient.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    const originalRequest = error.config as RetryableRequestConfig | undefined;
+
+    if (!originalRequest || isAuthEndpoint(originalRequest.url)) {
+      return Promise.reject(error);
+    }
+
+    if (error.response?.status !== 401 || originalRequest._retry || !authHandlers) {
+      return handleApiError(error);
+    }
+
+    originalRequest._retry = true;
+
+    try {
+      // The token was renewed since the request was sent (here or in another tab)
+      const storedToken = tokenStorage.getAccessToken();
+      const token = storedToken && storedToken !== getRequestToken(originalRequest)
+        ? storedToken
+        : await refreshAccessToken(authHandlers);
+      originalRequest.headers.Authorization = `Bearer ${token}`;
+      return apiClient(originalRequest);
+    } catch {
+      // refreshAccessToken closes the session when it cannot be renewed;
+      // otherwise only this request fails
+      return Promise.reject(error);
+    }
+  }
+);
+
+export default apiClient;
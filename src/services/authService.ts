@@ -3,32 +3,60 @@
  * Implementing Repository Pattern with functional paradigm
  */
 
-import apiClient, { addAuthHeader } from './api';
+import axios from 'axios';
+import apiClient from './api';
 import type {
   LoginCredentials,
   RegisterCredentials,
   LoginResponse,
   RegisterResponse,
   RefreshResponse,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  VerifyEmailRequest,
+  AuthMessageResponse,
 } from '@/types/auth';
 
+/**
+ * Kind of request that failed
+ * - credentials: login, register, refresh and session checks
+ * - token: requests carrying a one-time token from an email link
+ */
+type AuthErrorContext = 'credentials' | 'token';
+
 /**
  * Handle authentication errors in a centralized way
  * @param error - Axios error
+ * @param context - Kind of request, to tell bad credentials from bad email links
  * @returns Formatted error
  */
-function handleAuthError(error: any): Error {
+function handleAuthError(error: any, context: AuthErrorContext = 'credentials'): Error {
   if (error.response) {
     // Error with server response
     const message = error.response.data?.message || error.response.data?.error;
 
     switch (error.response.status) {
       case 400:
+        if (context === 'token') {
+          return new Error(message || 'This link is invalid or has already been used');
+        }
         return new Error(message || 'Invalid input data');
       case 401:
+        if (context === 'token') {
+          return new Error('This link is invalid or has already been used');
+        }
         return new Error('Invalid credentials');
+      case 404:
+        if (context === 'token') {
+          return new Error('This link is invalid or has already been used');
+        }
+        return new Error(message || 'Not found');
       case 409:
         return new Error('Email is already registered');
+      case 410:
+        return new Error('This link has expired. Please request a new one.');
+      case 429:
+        return new Error('Too many attempts. Please wait a few minutes and try again.');
       default:
         return new Error(message || 'Server error');
     }
@@ -90,7 +118,10 @@ export async function refreshToken(refreshToken: string): Promise<RefreshRespons
 
     return response.data;
   } catch (error) {
-    throw handleAuthError(error);
+    const authError = handleAuthError(error);
+    // Kept so the interceptors can tell a rejected refresh token from a network failure
+    authError.cause = error;
+    throw authError;
   }
 }
 
@@ -100,8 +131,75 @@ export async function refreshToken(refreshToken: string): Promise<RefreshRespons
  */
 export async function verifyToken(): Promise<{ user: any }> {
   try {
-    const config = addAuthHeader({ method: 'GET', url: '/auth/me' });
-    const response = await apiClient(config);
+    const response = await apiClient.get('/auth/me');
+    return response.data;
+  } catch (error) {
+    const authError = handleAuthError(error);
+    // Kept so callers can tell a rejected token from a network or server failure
+    authError.cause = error;
+    throw authError;
+  }
+}
+
+/**
+ * Whether a verifyToken error means the backend rejected the token
+ * @param error - Error thrown by verifyToken
+ */
+export function isTokenRejectedError(error: unknown): boolean {
+  return error instanceof Error && axios.isAxiosError(error.cause) && error.cause.response?.status === 401;
+}
+
+/**
+ * Request a password reset link by email
+ * The backend answers the same whether or not the email is registered
+ * @param request - Email of the account
+ * @returns Promise with confirmation message
+ */
+export async function requestPasswordReset(request: ForgotPasswordRequest): Promise<AuthMessageResponse> {
+  try {
+    const response = await apiClient.post<AuthMessageResponse>('/auth/forgot-password', request);
+    return response.data;
+  } catch (error) {
+    throw handleAuthError(error);
+  }
+}
+
+/**
+ * Set a new password with the token of a reset link
+ * @param request - Reset token and new password
+ * @returns Promise with confirmation message
+ */
+export async function resetPassword(request: ResetPasswordRequest): Promise<AuthMessageResponse> {
+  try {
+    const response = await apiClient.post<AuthMessageResponse>('/auth/reset-password', request);
+    return response.data;
+  } catch (error) {
+    throw handleAuthError(error, 'token');
+  }
+}
+
+/**
+ * Confirm the email address with the token of a verification link
+ * @param request - Verification token
+ * @returns Promise with confirmation message
+ */
+export async function verifyEmail(request: VerifyEmailRequest): Promise<AuthMessageResponse> {
+  try {
+    const response = await apiClient.post<AuthMessageResponse>('/auth/verify-email', request);
+    return response.data;
+  } catch (error) {
+    throw handleAuthError(error, 'token');
+  }
+}
+
+/**
+ * Send a new verification link
+ * @param request - Email of the account
+ * @returns Promise with confirmation message
+ */
+export async function resendVerificationEmail(request: ForgotPasswordRequest): Promise<AuthMessageResponse> {
+  try {
+    const response = await apiClient.post<AuthMessageResponse>('/auth/verify-email/resend', request);
     return response.data;
   } catch (error) {
     throw handleAuthError(error);
@@ -113,7 +211,11 @@ const authService = {
   login,
   register,
   refreshToken,
-  verifyToken
+  verifyToken,
+  requestPasswordReset,
+  resetPassword,
+  verifyEmail,
+  resendVerificationEmail
 };
 
 export default authService;
\ No newline at end of file
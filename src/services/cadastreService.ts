@@ -0,0 +1,297 @@
+/**
+ * @fileoverview Client for the Etalab cadastre exports
+ * Loads feuilles and parcelles per commune and maps them to CadastreParcel
+ */
+
+import type { CadastreParcel, GeospatialQuery } from '@/types/map';
+import {
+  boundingBoxesIntersect,
+  clipGeometryToBoundingBox,
+  getGeometryBoundingBox,
+} from '@/lib/mapUtils';
+
+/**
+ * Local data used when the cadastre exports cannot be reached
+ */
+export type CadastreFixture = (query: GeospatialQuery) => CadastreParcel[];
+
+export interface CadastreClientOptions {
+  /** Base URL of the Etalab cadastre exports */
+  baseUrl: string;
+  /** Base URL of geo.api.gouv.fr, used to find communes inside a bbox */
+  geoApiUrl: string;
+  /** Fetch implementation (injectable for tests) */
+  fetchFn?: typeof fetch;
+  /** Offline fallback */
+  fixture?: CadastreFixture;
+  /** Number of communes whose exports are kept in memory */
+  cacheSize?: number;
+}
+
+/**
+ * Parcels found for a query and where they come from
+ */
+export interface CadastreParcelsResult {
+  parcels: CadastreParcel[];
+  /** Whether the parcels are the offline fixture rather than real data */
+  isFixture: boolean;
+  /** Communes whose exports could not be loaded; their parcels are missing */
+  failedCommunes: string[];
+}
+
+export interface CadastreClient {
+  /** Get the parcels inside the query bbox, clipped to it */
+  getParcels: (query: GeospatialQuery) => Promise<CadastreParcelsResult>;
+}
+
+/**
+ * Properties of a feature in the Etalab parcelles export
+ */
+interface EtalabParcelProperties {
+  id: string;
+  commune: string;
+  prefixe: string;
+  section: string;
+  numero: string;
+  contenance?: number;
+}
+
+/**
+ * Properties of a feature in the Etalab feuilles export
+ */
+interface EtalabSheetProperties {
+  id: string;
+  commune: string;
+  prefixe: string;
+  section: string;
+  feuille: number;
+}
+
+type CadastreExportKind = 'feuilles' | 'parcelles';
+
+/**
+ * Raised when the geo API or the exports cannot be reached at all
+ */
+class CadastreUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CadastreUnavailableError';
+  }
+}
+
+/**
+ * Spacing of the commune lookup grid in degrees (about 1 km)
+ */
+const COMMUNE_LOOKUP_SPACING = 0.01;
+
+/**
+ * Maximum lookup points per bbox; larger bboxes are refused rather than sampled
+ * more loosely, which would step over small communes
+ */
+const COMMUNE_LOOKUP_MAX_POINTS = 48;
+
+type EtalabCollection<P> = GeoJSON.FeatureCollection<GeoJSON.Polygon | GeoJSON.MultiPolygon, P>;
+
+/**
+ * Get the department code of a commune INSEE code
+ * Overseas departments use three digits (971…976)
+ */
+function getDepartmentCode(communeCode: string): string {
+  return communeCode.startsWith('97') ? communeCode.slice(0, 3) : communeCode.slice(0, 2);
+}
+
+/**
+ * Parse a JSON body that may be served gzipped without Content-Encoding
+ */
+async function readJson<T>(response: Response): Promise<T> {
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType.includes('json') || !response.body || typeof DecompressionStream === 'undefined') {
+    return response.json();
+  }
+
+  const stream = response.body.pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).json();
+}
+
+/**
+ * Values of the fulfilled results, in order
+ */
+function getFulfilledValues<T>(results: PromiseSettledResult<T>[]): T[] {
+  return results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+}
+
+/**
+ * Build a parcel reference such as AB0123
+ */
+function formatReference(section: string, numero: string): string {
+  return `${section}${numero.padStart(4, '0')}`;
+}
+
+/**
+ * Map an Etalab parcel feature to CadastreParcel
+ */
+function toCadastreParcel(
+  feature: GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon, EtalabParcelProperties>,
+  geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon
+): CadastreParcel {
+  const { id, commune, section, numero, contenance = 0 } = feature.properties;
+
+  return {
+    id,
+    reference: formatReference(section, numero),
+    communeCode: commune,
+    section,
+    number: numero,
+    contenance,
+    geometry,
+    area: contenance / 10000,
+    landUse: 'Non renseigné',
+  };
+}
+
+/**
+ * Create a cadastre client backed by the Etalab exports
+ * Falls back to the fixture when the exports or the geo API are unreachable
+ */
+export function createCadastreClient({
+  baseUrl,
+  geoApiUrl,
+  fetchFn = (...args) => fetch(...args),
+  fixture,
+  cacheSize = 8,
+}: CadastreClientOptions): CadastreClient {
+  // Downloads per commune and export, shared between queries (exports are several MB)
+  const exportCache = new Map<string, Promise<EtalabCollection<unknown>>>();
+
+  const fetchExport = async <P>(communeCode: string, kind: CadastreExportKind) => {
+    const url = `${baseUrl}/geojson/communes/${getDepartmentCode(communeCode)}/${communeCode}/cadastre-${communeCode}-${kind}.json.gz`;
+    const response = await fetchFn(url);
+    if (!response.ok) {
+      throw new Error(`Cadastre export not available (${response.status}): ${url}`);
+    }
+    return readJson<EtalabCollection<P>>(response);
+  };
+
+  const getCommuneExport = <P>(communeCode: string, kind: CadastreExportKind) => {
+    const key = `${communeCode}/${kind}`;
+    const cached = exportCache.get(key);
+    if (cached) return cached as Promise<EtalabCollection<P>>;
+
+    const request = fetchExport<P>(communeCode, kind);
+    // Failed downloads are not cached so they can be retried
+    request.catch(() => exportCache.delete(key));
+
+    exportCache.set(key, request);
+    // Each commune keeps its feuilles and parcelles
+    if (exportCache.size > cacheSize * 2) {
+      const oldest = exportCache.keys().next().value;
+      if (oldest !== undefined) exportCache.delete(oldest);
+    }
+    return request;
+  };
+
+  /**
+   * Find the communes covering the bbox by sampling it on a grid
+   * geo.api.gouv.fr only looks communes up by point, so the points are never
+   * further apart than COMMUNE_LOOKUP_SPACING, so as not to step over small communes
+   * Failed lookups are skipped; the lookup only fails when every point failed
+   */
+  const findCommuneCodes = async (bbox: [number, number, number, number]): Promise<string[]> => {
+    const [west, south, east, north] = bbox;
+    const getSteps = (min: number, max: number) => {
+      const count = Math.max(2, Math.ceil((max - min) / COMMUNE_LOOKUP_SPACING) + 1);
+      return Array.from({ length: count }, (_, i) => min + ((max - min) * i) / (count - 1));
+    };
+    const lngSteps = getSteps(west, east);
+    const latSteps = getSteps(south, north);
+    if (lngSteps.length * latSteps.length > COMMUNE_LOOKUP_MAX_POINTS) {
+      throw new Error('Area too large for the cadastre, zoom in to load the parcels');
+    }
+    const samples = lngSteps.flatMap(lng => latSteps.map(lat => [lng, lat]));
+
+    const results = await Promise.allSettled(samples.map(async ([lng, lat]) => {
+      const response = await fetchFn(`${geoApiUrl}/communes?lat=${lat}&lon=${lng}&fields=code&format=json`);
+      if (!response.ok) {
+        throw new Error(`Commune lookup failed (${response.status})`);
+      }
+      const communes: Array<{ code: string }> = await response.json();
+      return communes.map(commune => commune.code);
+    }));
+
+    const codes = getFulfilledValues(results);
+    if (codes.length === 0) {
+      throw new CadastreUnavailableError('Commune lookup unavailable');
+    }
+    return [...new Set(codes.flat())];
+  };
+
+  /**
+   * Get the parcels of one commune that fall inside the bbox
+   * The lighter feuilles export is checked first to skip communes outside the bbox
+   */
+  const getParcelsInCommune = async (
+    communeCode: string,
+    bbox: [number, number, number, number]
+  ): Promise<CadastreParcel[]> => {
+    const sheets = await getCommuneExport<EtalabSheetProperties>(communeCode, 'feuilles');
+    const sections = new Set(
+      sheets.features
+        .filter(sheet => boundingBoxesIntersect(getGeometryBoundingBox(sheet.geometry), bbox))
+        .map(sheet => `${sheet.properties.prefixe}${sheet.properties.section}`)
+    );
+    if (sections.size === 0) return [];
+
+    const parcels = await getCommuneExport<EtalabParcelProperties>(communeCode, 'parcelles');
+    const result: CadastreParcel[] = [];
+
+    parcels.features.forEach(feature => {
+      if (!sections.has(`${feature.properties.prefixe}${feature.properties.section}`)) return;
+      if (!boundingBoxesIntersect(getGeometryBoundingBox(feature.geometry), bbox)) return;
+
+      const clipped = clipGeometryToBoundingBox(feature.geometry, bbox);
+      if (clipped) {
+        result.push(toCadastreParcel(feature, clipped));
+      }
+    });
+
+    return result;
+  };
+
+  /**
+   * Load the parcels of every commune in the bbox
+   * Communes that fail are reported and the others kept; the fixture is only used
+   * when the geo API or the exports cannot be reached at all
+   */
+  const getParcels = async (query: GeospatialQuery): Promise<CadastreParcelsResult> => {
+    if (!query.bbox) return { parcels: [], isFixture: false, failedCommunes: [] };
+    const bbox = query.bbox;
+
+    try {
+      const communeCodes = query.filters?.commune
+        ? [query.filters.commune]
+        : await findCommuneCodes(bbox);
+
+      const results = await Promise.allSettled(
+        communeCodes.map(code => getParcelsInCommune(code, bbox))
+      );
+      const failedCommunes = communeCodes.filter((_, i) => results[i].status === 'rejected');
+      if (communeCodes.length > 0 && failedCommunes.length === communeCodes.length) {
+        throw new CadastreUnavailableError('Cadastre exports unavailable');
+      }
+
+      return {
+        parcels: getFulfilledValues(results).flat(),
+        isFixture: false,
+        failedCommunes,
+      };
+    } catch (error) {
+      if (!fixture || !(error instanceof CadastreUnavailableError)) throw error;
+      console.warn('Cadastre exports unavailable, using local fixture:', error);
+      return { parcels: fixture(query), isFixture: true, failedCommunes: [] };
+    }
+  };
+
+  return { getParcels };
+}
+
+export default createCadastreClient;
@@ -4,7 +4,7 @@
  * Refactored with pure functions following React paradigm
  */
 
-import { apiClient, addAuthHeader } from './api';
+import { apiClient } from './api';
 import type {
   FrenchRegion,
   FrenchDepartment,
@@ -15,7 +15,13 @@ import type {
   GeospatialQuery,
   ForestLayer,
   CadastreLayer,
+  MapTile,
+  ForestTileData,
+  AdministrativeLevel,
 } from '@/types/map';
+import { createRectanglePolygon, getGeometryBoundingBox, tileToBoundingBox } from '@/lib/mapUtils';
+import { toWKT } from '@/lib/featureExport';
+import { createCadastreClient } from './cadastreService';
 
 /**
  * Base URLs for French public APIs
@@ -29,6 +35,15 @@ const APIS = {
   CADASTRE_API: 'https://cadastre.data.gouv.fr/data/etalab-cadastre/latest',
 } as const;
 
+/**
+ * Cadastre client backed by the Etalab exports, with the mock parcels as offline fixture
+ */
+const cadastreClient = createCadastreClient({
+  baseUrl: APIS.CADASTRE_API,
+  geoApiUrl: APIS.GEO_API,
+  fixture: getMockCadastreData,
+});
+
 /**
  * Get all French regions
  */
@@ -97,14 +112,26 @@ export async function getCommunes(departmentCode: string): Promise<FrenchCommune
  * For zooming and showing boundaries
  */
 export async function getAdministrativeBoundary(
-  type: 'region' | 'departement' | 'commune',
+  type: AdministrativeLevel,
   code: string
 ): Promise<GeoJSON.FeatureCollection> {
   try {
     const response = await fetch(
       `${APIS.GEO_API}/${type}s/${code}?format=geojson&geometry=contour`
     );
-    return await response.json();
+    if (!response.ok) {
+      throw new Error(`Boundary request failed (${response.status})`);
+    }
+    const data: GeoJSON.FeatureCollection | GeoJSON.Feature = await response.json();
+
+    // Single units are returned as a Feature
+    if (data?.type === 'Feature') {
+      return { type: 'FeatureCollection', features: [data] };
+    }
+    if (!Array.isArray(data?.features)) {
+      throw new Error(`Unexpected boundary response for ${type} ${code}`);
+    }
+    return data;
   } catch (error) {
     console.error(`Error getting ${type} boundary:`, error);
     return getMockBoundary(type, code);
@@ -112,30 +139,104 @@ export async function getAdministrativeBoundary(
 }
 
 /**
- * Get forest data (BD Forêt®) for an area
+ * Maximum number of pages requested per forest tile
+ * Protects the client from unbounded pagination on dense areas
+ */
+const FOREST_MAX_PAGES_PER_TILE = 10;
+
+/**
+ * Default page size for forest requests
+ */
+const FOREST_PAGE_SIZE = 500;
+
+/**
+ * Longest AOI sent as WKT; larger areas are sent as their bbox to keep the URL short
+ */
+const FOREST_AOI_MAX_WKT_LENGTH = 4000;
+
+/**
+ * Decimals kept in the AOI coordinates (about 1 m)
+ */
+const FOREST_AOI_PRECISION = 5;
+
+/**
+ * Spatial filter of the forest endpoint: the AOI as WKT, or its bbox when the polygon is too long
+ */
+function toAoiFilter(aoi: GeoJSON.Polygon): string {
+  const round = (value: number) => Number(value.toFixed(FOREST_AOI_PRECISION));
+  const simplified: GeoJSON.Polygon = {
+    type: 'Polygon',
+    coordinates: aoi.coordinates.map(ring =>
+      ring
+        .map(([lng, lat]) => [round(lng), round(lat)])
+        // Vertices that collapse once rounded are dropped
+        .filter((position, i, positions) =>
+          i === 0 || position[0] !== positions[i - 1][0] || position[1] !== positions[i - 1][1])
+    ),
+  };
+
+  const wkt = toWKT(simplified);
+  if (wkt.length <= FOREST_AOI_MAX_WKT_LENGTH) return wkt;
+
+  const [west, south, east, north] = getGeometryBoundingBox(aoi);
+  return toWKT(createRectanglePolygon([west, south], [east, north]));
+}
+
+/**
+ * Build query params for the forest endpoint
+ */
+function buildForestParams(query: GeospatialQuery): Record<string, string | number> {
+  const params: Record<string, string | number> = {
+    zoom: query.zoom,
+    limit: query.limit ?? FOREST_PAGE_SIZE,
+    page: query.page ?? 1,
+  };
+
+  if (query.bbox) {
+    params.bbox = query.bbox.join(',');
+  }
+
+  const species = query.filters?.treeSpecies?.[0];
+  if (species) {
+    params.species = species;
+  }
+
+  if (query.filters?.aoi) {
+    params.aoi = toAoiFilter(query.filters.aoi);
+  }
+
+  return params;
+}
+
+/**
+ * Request a single page of forest data
+ * Errors are propagated so callers decide how to recover
  */
+async function fetchForestPage(
+  query: GeospatialQuery
+): Promise<{ data: GeoJSON.FeatureCollection; hasMore: boolean }> {
+  const response = await apiClient.get('/geo/forest', {
+    params: buildForestParams(query),
+  });
+  const data = response.data;
+  if (!data || !data.features) {
+    throw new Error('Invalid response from forest API');
+  }
+
+  return {
+    data: { type: 'FeatureCollection', features: data.features },
+    hasMore: !!data.pagination?.hasMore,
+  };
+}
 
 /**
  * Get forest data (BD Forêt®) from real API
- * @param query - GeospatialQuery with filters (must include species)
+ * @param query - GeospatialQuery with bbox, zoom, pagination and filters
  * @returns FeatureCollection of forest parcels
  */
 export async function getForestData(query: GeospatialQuery): Promise<GeoJSON.FeatureCollection> {
   try {
-    // Build real endpoint URL
-    const species = query.filters?.treeSpecies?.[0];
-    const params = species ? { species } : {};
-
-    const config = addAuthHeader({
-      method: 'GET',
-      url: '/geo/forest',
-      params
-    });
-    const response = await apiClient(config);
-    const data = response.data;
-    if (!data || !data.features) {
-      throw new Error('Invalid response from forest API');
-    }
+    const { data } = await fetchForestPage(query);
     return data;
   } catch (error) {
     console.error('Error getting forest data:', error);
@@ -144,16 +245,42 @@ export async function getForestData(query: GeospatialQuery): Promise<GeoJSON.Fea
   }
 }
 
+/**
+ * Get all forest data (BD Forêt®) inside a slippy-map tile
+ * Follows pagination until the backend reports no more results or the page cap is hit
+ * @param tile - Tile to load
+ * @param query - Base query (filters and page size)
+ * @returns FeatureCollection of forest parcels intersecting the tile, flagged when truncated
+ */
+export async function getForestTile(
+  tile: MapTile,
+  query: Omit<GeospatialQuery, 'bbox' | 'zoom' | 'page'> = {}
+): Promise<ForestTileData> {
+  const features: GeoJSON.Feature[] = [];
+  let page = 1;
+  let hasMore = true;
+
+  while (hasMore && page <= FOREST_MAX_PAGES_PER_TILE) {
+    const result = await fetchForestPage({
+      ...query,
+      bbox: tileToBoundingBox(tile),
+      zoom: tile.z,
+      page,
+    });
+    features.push(...result.data.features);
+    hasMore = result.hasMore;
+    page += 1;
+  }
+
+  return { type: 'FeatureCollection', features, truncated: hasMore };
+}
+
 /**
  * Get available tree species
  */
 export async function getTreeSpecies(): Promise<TreeSpecies[]> {
   try {
-    const config = addAuthHeader({
-      method: 'GET',
-      url: '/geo/species'
-    });
-    const response = await apiClient(config);
+    const response = await apiClient.get('/geo/species');
     const data = response.data;
     if (!Array.isArray(data)) {
       throw new Error('Invalid response from species endpoint');
@@ -177,8 +304,8 @@ export async function getTreeSpecies(): Promise<TreeSpecies[]> {
  */
 export async function getCadastreData(query: GeospatialQuery): Promise<CadastreParcel[]> {
   try {
-    // Simulation - in production it would be real cadastre API
-    return getMockCadastreData(query);
+    const { parcels } = await cadastreClient.getParcels(query);
+    return parcels;
   } catch (error) {
     console.error('Error getting cadastre:', error);
     return [];
@@ -186,47 +313,65 @@ export async function getCadastreData(query: GeospatialQuery): Promise<CadastreP
 }
 
 /**
- * Create forest layers from GeoJSON data
+ * Group forest features into one layer per species
+ * Features repeated across tiles are only kept once
  */
-export async function getForestLayers(query: GeospatialQuery): Promise<ForestLayer[]> {
-  try {
-    const forestData = await getForestData(query);
-    console.log('forestData ', forestData);
-    // Group features by species to create separate layers
-    const layersBySpecies = new Map<string, GeoJSON.Feature[]>();
-    forestData.features.forEach(feature => {
-      const speciesName = feature.properties?.species || 'unknown';
-      if (!layersBySpecies.has(speciesName)) {
-        layersBySpecies.set(speciesName, []);
+export function createForestLayers(features: GeoJSON.Feature[]): ForestLayer[] {
+  // Group features by species to create separate layers
+  const seenFeatureIds = new Set<string | number>();
+  const layersBySpecies = new Map<string, GeoJSON.Feature[]>();
+  features.forEach(feature => {
+    const featureId = feature.properties?.id ?? feature.id;
+    if (featureId !== undefined) {
+      if (seenFeatureIds.has(featureId)) return;
+      seenFeatureIds.add(featureId);
+    }
+
+    const speciesName = feature.properties?.species || 'unknown';
+    if (!layersBySpecies.has(speciesName)) {
+      layersBySpecies.set(speciesName, []);
+    }
+    layersBySpecies.get(speciesName)?.push(feature);
+  });
+
+  // Create one layer per species using commonName from first feature
+  const forestLayers: ForestLayer[] = [];
+  for (const [speciesName, speciesFeatures] of layersBySpecies.entries()) {
+    const firstFeature = speciesFeatures[0];
+    const commonName = firstFeature?.properties?.commonName || speciesName;
+
+    // Normalize speciesName to speciesId to match treeSpecies ids
+    const speciesId = normalizeSpeciesToId(speciesName);
+    const layerId = `forest-${speciesId}`;
+
+    forestLayers.push({
+      id: layerId,
+      name: commonName,
+      type: 'forest',
+      visible: true,
+      opacity: 0.7,
+      species: speciesId, // Use normalized ID instead of raw name
+      geoData: {
+        type: 'FeatureCollection',
+        // Expose the species id on each feature for data-driven styling
+        features: speciesFeatures.map(feature => ({
+          ...feature,
+          properties: { ...feature.properties, speciesId },
+        })),
       }
-      layersBySpecies.get(speciesName)?.push(feature);
     });
+  }
 
-    // Create one layer per species using commonName from first feature
-    const forestLayers: ForestLayer[] = [];
-    for (const [speciesName, features] of layersBySpecies.entries()) {
-      const firstFeature = features[0];
-      const commonName = firstFeature?.properties?.commonName || speciesName;
-
-      // Normalize speciesName to speciesId to match treeSpecies ids
-      const speciesId = normalizeSpeciesToId(speciesName);
-      const layerId = `forest-${speciesId}`;
+  return forestLayers;
+}
 
-      forestLayers.push({
-        id: layerId,
-        name: commonName,
-        type: 'forest',
-        visible: true,
-        opacity: 0.7,
-        species: speciesId, // Use normalized ID instead of raw name
-        geoData: {
-          type: 'FeatureCollection',
-          features: features,
-        }
-      });
-    }
-    console.log('forestLayers ', forestLayers)
-    return forestLayers;
+/**
+ * Create forest layers from GeoJSON data
+ */
+export async function getForestLayers(query: GeospatialQuery): Promise<ForestLayer[]> {
+  try {
+    const forestData = await getForestData(query);
+    return createForestLayers(forestData.features);
   } catch (error) {
     console.error('Error creating forest layers:', error);
     return [];
@@ -238,15 +383,19 @@ export async function getForestLayers(query: GeospatialQuery): Promise<ForestLay
  */
 export async function getCadastreLayers(query: GeospatialQuery): Promise<CadastreLayer[]> {
   try {
-    const cadastreData = await getCadastreData(query);
+    const { parcels, isFixture, failedCommunes } = await cadastreClient.getParcels(query);
 
     // Convert parcels to GeoJSON FeatureCollection
-    const features: GeoJSON.Feature[] = cadastreData.map(parcel => ({
+    const features: GeoJSON.Feature[] = parcels.map(parcel => ({
       type: 'Feature',
       properties: {
         id: parcel.id,
         type: 'cadastre',
         parcelNumber: parcel.reference,
+        communeCode: parcel.communeCode,
+        section: parcel.section,
+        number: parcel.number,
+        contenance: parcel.contenance,
         area: parcel.area,
         landUse: parcel.landUse,
         owner: parcel.owner,
@@ -258,11 +407,13 @@ export async function getCadastreLayers(query: GeospatialQuery): Promise<Cadastr
 
     return [{
       id: 'cadastre-parcels',
-      name: 'Cadastral parcels',
+      name: isFixture ? 'Cadastral parcels (sample data)' : 'Cadastral parcels',
       type: 'cadastre',
       visible: true,
       opacity: 0.4,
       commune: query.filters?.commune,
+      isFixture,
+      failedCommunes,
       geoData: {
         type: 'FeatureCollection',
         features: features,
@@ -511,6 +662,10 @@ function getMockCadastreData(query: GeospatialQuery): CadastreParcel[] {
     {
       id: 'parcel_1',
       reference: 'AB0123',
+      communeCode: query.filters?.commune || '00000',
+      section: 'AB',
+      number: '0123',
+      contenance: 25000,
       geometry: {
         type: 'Polygon',
         coordinates: [[
@@ -543,8 +698,10 @@ const geoService = {
   getCommunes,
   getAdministrativeBoundary,
   getForestData,
+  getForestTile,
   getTreeSpecies,
   getCadastreData,
+  createForestLayers,
   getForestLayers,
   getCadastreLayers,
 };
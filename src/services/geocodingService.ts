@@ -0,0 +1,327 @@
+/**
+ * @fileoverview Place search (geocoding)
+ * Finds communes (geo.api.gouv.fr), addresses (Base Adresse Nationale), cadastral parcels
+ * (API Carto) and raw coordinates behind a provider interface that can be swapped
+ */
+
+import type { AdministrativeUnits, GeocodingResult } from '@/types/map';
+import { formatCoordinates, getGeometryBoundingBox, parseCoordinates } from '@/lib/mapUtils';
+
+/**
+ * Base URLs of the public search APIs
+ */
+const APIS = {
+  GEO_API: 'https://geo.api.gouv.fr',
+  BAN_API: 'https://api-adresse.data.gouv.fr',
+  CADASTRE_API: 'https://apicarto.ign.fr/api/cadastre',
+} as const;
+
+/**
+ * Search parameters besides the text
+ */
+export interface GeocodingContext {
+  /** INSEE code of the selected commune, used for parcel references typed without it */
+  commune?: string;
+  /** Maximum results per source */
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+export interface GeocodingProvider {
+  /** Find the places matching a text */
+  search: (query: string, context?: GeocodingContext) => Promise<GeocodingResult[]>;
+  /** Get the administrative units containing a point, null outside France */
+  locate: (lng: number, lat: number, signal?: AbortSignal) => Promise<AdministrativeUnits | null>;
+}
+
+export interface GeocoderOptions {
+  geoApiUrl?: string;
+  banApiUrl?: string;
+  cadastreApiUrl?: string;
+  /** Fetch implementation (injectable for tests) */
+  fetchFn?: typeof fetch;
+}
+
+/**
+ * Commune as returned by geo.api.gouv.fr
+ */
+interface GeoApiCommune {
+  nom: string;
+  code: string;
+  codesPostaux?: string[];
+  codeDepartement: string;
+  codeRegion: string;
+  departement?: { code: string; nom: string };
+  centre: GeoJSON.Point;
+  bbox?: GeoJSON.Polygon;
+}
+
+/**
+ * Properties of a Base Adresse Nationale result
+ */
+interface BanProperties {
+  id: string;
+  label: string;
+  type: 'housenumber' | 'street' | 'locality' | 'municipality';
+  postcode?: string;
+  citycode: string;
+  context?: string;
+}
+
+/**
+ * Properties of an API Carto parcel
+ */
+interface CadastreParcelProperties {
+  idu: string;
+  code_insee: string;
+  nom_com: string;
+  section: string;
+  numero: string;
+}
+
+const DEFAULT_LIMIT = 5;
+
+const COMMUNE_FIELDS = 'nom,code,codesPostaux,codeDepartement,codeRegion,departement,centre,bbox';
+
+/**
+ * INSEE or postal code of a commune (Corsica uses 2A and 2B)
+ */
+const COMMUNE_CODE_REGEX = /^(\d{5}|2[AB]\d{3})$/i;
+
+/**
+ * Cadastral reference, optionally preceded by the INSEE code and the 3-digit prefix
+ * e.g. AB0123, AB 123, 75056 AB0123, 75056 000 AB 0123
+ */
+const PARCEL_REFERENCE_REGEX = /^(?:(\d{5}|2[AB]\d{3})\s*)?(?:(\d{3})\s+)?(0?[A-Z]|[A-Z]{2})\s*(\d{1,4})$/i;
+
+/**
+ * Parse a cadastral reference typed in the search box
+ */
+function parseParcelReference(query: string) {
+  const match = query.trim().match(PARCEL_REFERENCE_REGEX);
+  if (!match) return null;
+
+  const [, communeCode, prefix = '000', section, number] = match;
+  return {
+    communeCode: communeCode?.toUpperCase(),
+    prefix,
+    section: section.toUpperCase().padStart(2, '0'),
+    number: number.padStart(4, '0'),
+  };
+}
+
+/**
+ * Result placed on typed coordinates
+ */
+function toCoordinatesResult({ lat, lng }: { lat: number; lng: number }): GeocodingResult {
+  return {
+    id: `coordinates-${lng}-${lat}`,
+    type: 'coordinates',
+    label: formatCoordinates(lat, lng),
+    context: 'Coordinates',
+    center: [lng, lat],
+  };
+}
+
+function toCommuneResult(commune: GeoApiCommune): GeocodingResult {
+  const bbox = commune.bbox ? getGeometryBoundingBox(commune.bbox) : undefined;
+  const postalCodes = commune.codesPostaux ?? [];
+
+  return {
+    id: `commune-${commune.code}`,
+    type: 'commune',
+    label: commune.nom,
+    context: [
+      postalCodes.length > 1 ? `${postalCodes[0]}…` : postalCodes[0],
+      commune.departement ? `${commune.departement.nom} (${commune.codeDepartement})` : commune.codeDepartement,
+    ].filter(Boolean).join(' · '),
+    center: commune.centre.coordinates as [number, number],
+    bbox,
+    units: { region: commune.codeRegion, department: commune.codeDepartement, commune: commune.code },
+  };
+}
+
+function toAddressResult(feature: GeoJSON.Feature<GeoJSON.Point, BanProperties>): GeocodingResult {
+  return {
+    id: `address-${feature.properties.id}`,
+    type: 'address',
+    label: feature.properties.label,
+    context: feature.properties.context,
+    center: feature.geometry.coordinates as [number, number],
+  };
+}
+
+function toParcelResult(
+  feature: GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon, CadastreParcelProperties>
+): GeocodingResult {
+  const bbox = getGeometryBoundingBox(feature.geometry);
+  const { idu, code_insee, nom_com, section, numero } = feature.properties;
+
+  return {
+    id: `parcel-${idu}`,
+    type: 'parcel',
+    label: `Parcel ${section.replace(/^0/, '')} ${numero}`,
+    context: `${nom_com} (${code_insee})`,
+    center: [(bbox[0] + bbox[2]) / 2, (bbox[1] + bbox[3]) / 2],
+    bbox,
+  };
+}
+
+/**
+ * Results of every source that answered; fails only when all of them failed
+ */
+async function mergeResults(requests: Array<Promise<GeocodingResult[]>>): Promise<GeocodingResult[]> {
+  const settled = await Promise.allSettled(requests);
+  const fulfilled = settled.filter(
+    (result): result is PromiseFulfilledResult<GeocodingResult[]> => result.status === 'fulfilled'
+  );
+
+  if (fulfilled.length === 0 && settled.length > 0) {
+    const [first] = settled as PromiseRejectedResult[];
+    throw first.reason instanceof Error ? first.reason : new Error('Search is not available right now');
+  }
+
+  // A commune found both by INSEE and postal code is listed once
+  const results = new Map<string, GeocodingResult>();
+  fulfilled.flatMap(result => result.value).forEach(result => {
+    if (!results.has(result.id)) results.set(result.id, result);
+  });
+  return [...results.values()];
+}
+
+/**
+ * Create a provider backed by the French public APIs
+ */
+export function createGeocoder({
+  geoApiUrl = APIS.GEO_API,
+  banApiUrl = APIS.BAN_API,
+  cadastreApiUrl = APIS.CADASTRE_API,
+  fetchFn = (...args) => fetch(...args),
+}: GeocoderOptions = {}): GeocodingProvider {
+  const getJson = async <T>(url: string, signal?: AbortSignal): Promise<T> => {
+    const response = await fetchFn(url, { signal });
+    if (!response.ok) {
+      throw new Error(`Search request failed (${response.status})`);
+    }
+    return response.json();
+  };
+
+  const searchCommunes = async (params: Record<string, string>, signal?: AbortSignal) => {
+    const query = new URLSearchParams({ ...params, fields: COMMUNE_FIELDS, format: 'json' });
+    const communes = await getJson<GeoApiCommune[]>(`${geoApiUrl}/communes?${query}`, signal);
+    return communes.map(toCommuneResult);
+  };
+
+  const searchAddresses = async (text: string, limit: number, signal?: AbortSignal) => {
+    const query = new URLSearchParams({ q: text, limit: String(limit), autocomplete: '1' });
+    const collection = await getJson<GeoJSON.FeatureCollection<GeoJSON.Point, BanProperties>>(
+      `${banApiUrl}/search/?${query}`,
+      signal
+    );
+    // Communes are already found by name through the geo API
+    return collection.features
+      .filter(feature => feature.properties.type !== 'municipality')
+      .map(toAddressResult);
+  };
+
+  const searchParcels = async (
+    reference: NonNullable<ReturnType<typeof parseParcelReference>>,
+    communeCode: string,
+    signal?: AbortSignal
+  ) => {
+    const query = new URLSearchParams({
+      code_insee: communeCode,
+      section: reference.section,
+      numero: reference.number,
+      com_abs: reference.prefix,
+    });
+    const collection = await getJson<GeoJSON.FeatureCollection<GeoJSON.Polygon | GeoJSON.MultiPolygon, CadastreParcelProperties>>(
+      `${cadastreApiUrl}/parcelle?${query}`,
+      signal
+    );
+    return collection.features.filter(feature => feature.geometry).map(toParcelResult);
+  };
+
+  const search = async (text: string, { commune, limit = DEFAULT_LIMIT, signal }: GeocodingContext = {}) => {
+    const query = text.trim();
+    if (query.length < 2) return [];
+
+    const coordinates = parseCoordinates(query);
+    if (coordinates) return [toCoordinatesResult(coordinates)];
+
+    const reference = parseParcelReference(query);
+    if (reference) {
+      const communeCode = reference.communeCode ?? commune;
+      if (!communeCode) {
+        throw new Error('Select a commune or type its INSEE code before the parcel reference');
+      }
+      return searchParcels(reference, communeCode, signal);
+    }
+
+    // The same five digits may be an INSEE code or a postal code, also typed as "75 001"
+    const code = query.replace(/^(\d{2}|2[AB])\s+(\d{3})$/i, '$1$2');
+    if (COMMUNE_CODE_REGEX.test(code)) {
+      return mergeResults([
+        searchCommunes({ code: code.toUpperCase() }, signal),
+        ...(/^\d{5}$/.test(code) ? [searchCommunes({ codePostal: code }, signal)] : []),
+      ]);
+    }
+
+    return mergeResults([
+      searchCommunes({ nom: query, boost: 'population', limit: String(limit) }, signal),
+      ...(query.length >= 3 ? [searchAddresses(query, limit, signal)] : []),
+    ]);
+  };
+
+  const locate = async (lng: number, lat: number, signal?: AbortSignal) => {
+    const query = new URLSearchParams({
+      lat: String(lat),
+      lon: String(lng),
+      fields: 'code,codeDepartement,codeRegion',
+      format: 'json',
+    });
+    const [commune] = await getJson<GeoApiCommune[]>(`${geoApiUrl}/communes?${query}`, signal);
+    return commune
+      ? { region: commune.codeRegion, department: commune.codeDepartement, commune: commune.code }
+      : null;
+  };
+
+  return { search, locate };
+}
+
+/**
+ * Provider over a fixed list of places, for tests and offline development
+ * Matches labels and contexts without accents or case, and understands coordinates
+ */
+export function createLocalGeocoder(places: GeocodingResult[] = []): GeocodingProvider {
+  const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+  const search = async (text: string, { limit = DEFAULT_LIMIT }: GeocodingContext = {}) => {
+    const query = normalize(text.trim());
+    if (query.length < 2) return [];
+
+    const coordinates = parseCoordinates(query);
+    if (coordinates) return [toCoordinatesResult(coordinates)];
+
+    return places
+      .filter(place => normalize(`${place.label} ${place.context ?? ''}`).includes(query))
+      .slice(0, limit);
+  };
+
+  // Units of the first place whose extent contains the point
+  const locate = async (lng: number, lat: number) => {
+    const place = places.find(({ bbox, units }) =>
+      units && bbox && lng >= bbox[0] && lng <= bbox[2] && lat >= bbox[1] && lat <= bbox[3]
+    );
+    return place?.units ?? null;
+  };
+
+  return { search, locate };
+}
+
+/**
+ * Provider used by the application
+ */
+const geocodingService = createGeocoder();
+
+export default geocodingService;
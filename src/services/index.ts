@@ -10,9 +10,40 @@ export {
   getCommunes,
   getAdministrativeBoundary,
   getForestData,
+  getForestTile,
   getTreeSpecies,
   getCadastreData,
+  createForestLayers,
   getForestLayers,
   getCadastreLayers,
   default as geoService
-} from './geoService';
\ No newline at end of file
+} from './geoService';
+export {
+  createCadastreClient,
+  type CadastreClient,
+  type CadastreFixture,
+  type CadastreParcelsResult,
+} from './cadastreService';
+export { getUserStats, default as statsService } from './statsService';
+export {
+  getSavedMaps,
+  createSavedMap,
+  updateSavedMap,
+  deleteSavedMap,
+  type SavedMapInput,
+  default as savedMapsService
+} from './savedMapsService';
+export {
+  getUserLayers,
+  createUserLayer,
+  deleteUserLayer,
+  type UserLayerInput,
+  default as userLayersService
+} from './userLayersService';
+export {
+  createGeocoder,
+  createLocalGeocoder,
+  type GeocodingProvider,
+  type GeocodingContext,
+  default as geocodingService
+} from './geocodingService';
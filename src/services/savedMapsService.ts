@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Saved maps service
+ * CRUD on the /maps/saved resource with a localStorage fallback when offline
+ */
+
+import axios from 'axios';
+import apiClient from './api';
+import { secureStorageGet, secureStorageSet } from '@/lib/utils';
+import type { SavedMapState } from '@/types/map';
+
+/**
+ * Data sent when creating or updating a saved map
+ */
+export type SavedMapInput = Pick<
+  SavedMapState,
+  'name' | 'viewState' | 'filters' | 'visibleLayers' | 'selectedUnit'
+>;
+
+const LOCAL_ID_PREFIX = 'local-';
+
+/**
+ * localStorage key of the maps saved offline by a user
+ */
+function getLocalStorageKey(userId: string): string {
+  return `saved_maps_${userId}`;
+}
+
+function readLocalMaps(userId: string): SavedMapState[] {
+  return secureStorageGet<SavedMapState[]>(getLocalStorageKey(userId)) ?? [];
+}
+
+function writeLocalMaps(userId: string, maps: SavedMapState[]): void {
+  secureStorageSet(getLocalStorageKey(userId), maps);
+}
+
+/**
+ * Maps created offline only exist in this browser
+ */
+function isLocalMapId(id: string): boolean {
+  return id.startsWith(LOCAL_ID_PREFIX);
+}
+
+/**
+ * Whether a request failed because the backend could not be reached
+ */
+function isOfflineError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return axios.isAxiosError(error) && !error.response;
+}
+
+/**
+ * Normalize saved maps errors into user-facing messages
+ */
+function handleSavedMapsError(error: unknown): Error {
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      const message = error.response.data?.message || error.response.data?.error;
+      switch (error.response.status) {
+        case 401:
+          return new Error('Your session has expired');
+        case 404:
+          return new Error('Saved map not found');
+        default:
+          return new Error(message || 'Could not save the map');
+      }
+    }
+    return new Error('Connection error. Please check your internet connection.');
+  }
+  return new Error(error instanceof Error ? error.message : 'Unexpected error');
+}
+
+/**
+ * List the saved maps of a user, including the ones saved offline
+ */
+export async function getSavedMaps(userId: string): Promise<SavedMapState[]> {
+  const localMaps = readLocalMaps(userId);
+
+  try {
+    const response = await apiClient.get<SavedMapState[]>('/maps/saved');
+    return [...response.data, ...localMaps];
+  } catch (error) {
+    if (isOfflineError(error)) return localMaps;
+    throw handleSavedMapsError(error);
+  }
+}
+
+/**
+ * Save the current map under a name
+ * Stored in localStorage when the backend cannot be reached
+ */
+export async function createSavedMap(userId: string, input: SavedMapInput): Promise<SavedMapState> {
+  try {
+    const response = await apiClient.post<SavedMapState>('/maps/saved', input);
+    return response.data;
+  } catch (error) {
+    if (!isOfflineError(error)) throw handleSavedMapsError(error);
+
+    const now = new Date().toISOString();
+    const localMap: SavedMapState = {
+      ...input,
+      id: `${LOCAL_ID_PREFIX}${Date.now()}`,
+      userId,
+      createdAt: now,
+      updatedAt: now,
+      isLocal: true,
+    };
+    writeLocalMaps(userId, [...readLocalMaps(userId), localMap]);
+    return localMap;
+  }
+}
+
+/**
+ * Update a saved map (rename or overwrite its state)
+ */
+export async function updateSavedMap(
+  userId: string,
+  id: string,
+  changes: Partial<SavedMapInput>
+): Promise<SavedMapState> {
+  if (isLocalMapId(id)) {
+    const localMaps = readLocalMaps(userId);
+    const current = localMaps.find(map => map.id === id);
+    if (!current) throw new Error('Saved map not found');
+
+    const updated = { ...current, ...changes, updatedAt: new Date().toISOString() };
+    writeLocalMaps(userId, localMaps.map(map => (map.id === id ? updated : map)));
+    return updated;
+  }
+
+  try {
+    const response = await apiClient.patch<SavedMapState>(`/maps/saved/${id}`, changes);
+    return response.data;
+  } catch (error) {
+    throw handleSavedMapsError(error);
+  }
+}
+
+/**
+ * Delete a saved map
+ */
+export async function deleteSavedMap(userId: string, id: string): Promise<void> {
+  if (isLocalMapId(id)) {
+    writeLocalMaps(userId, readLocalMaps(userId).filter(map => map.id !== id));
+    return;
+  }
+
+  try {
+    await apiClient.delete(`/maps/saved/${id}`);
+  } catch (error) {
+    throw handleSavedMapsError(error);
+  }
+}
+
+const savedMapsService = {
+  getSavedMaps,
+  createSavedMap,
+  updateSavedMap,
+  deleteSavedMap,
+};
+
+export default savedMapsService;
@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Dashboard statistics service
+ * Per-user activity figures for the current and previous period
+ */
+
+import axios from 'axios';
+import apiClient from './api';
+import type { StatsPeriod, UserStatsResponse } from '@/types/stats';
+
+/**
+ * Normalize statistics errors into user-facing messages
+ */
+function handleStatsError(error: unknown): Error {
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      const message = error.response.data?.message || error.response.data?.error;
+      if (error.response.status === 401) {
+        return new Error('Your session has expired');
+      }
+      return new Error(message || 'Could not load statistics');
+    }
+    if (error.request) {
+      return new Error('Connection error. Please check your internet connection.');
+    }
+  }
+  return new Error(error instanceof Error ? error.message : 'Unexpected error');
+}
+
+/**
+ * Get the activity figures of the current user
+ * @param period - Length of the current period, the previous one has the same length
+ */
+export async function getUserStats(period: StatsPeriod = '30d'): Promise<UserStatsResponse> {
+  try {
+    const response = await apiClient.get<UserStatsResponse>('/stats', { params: { period } });
+    return response.data;
+  } catch (error) {
+    throw handleStatsError(error);
+  }
+}
+
+const statsService = {
+  getUserStats,
+};
+
+export default statsService;
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview User layers service
+ * Imported datasets stored on the /layers/user resource so they persist between sessions
+ */
+
+import axios from 'axios';
+import apiClient from './api';
+import type { UserLayer } from '@/types/map';
+
+/**
+ * Data sent when storing an imported layer
+ */
+export type UserLayerInput = Pick<UserLayer, 'name' | 'color' | 'format' | 'geoData'>;
+
+/**
+ * Layer as stored by the backend
+ */
+type StoredUserLayer = UserLayerInput & { id: string; createdAt?: string };
+
+/**
+ * Default opacity of the imported layers
+ */
+export const USER_LAYER_OPACITY = 0.6;
+
+/**
+ * Normalize user layers errors into user-facing messages
+ */
+function handleUserLayersError(error: unknown): Error {
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      const message = error.response.data?.message || error.response.data?.error;
+      switch (error.response.status) {
+        case 401:
+          return new Error('Your session has expired');
+        case 404:
+          return new Error('Layer not found');
+        case 413:
+          return new Error('The layer is too large to be saved');
+        default:
+          return new Error(message || 'Could not save the layer');
+      }
+    }
+    return new Error('Connection error. Please check your internet connection.');
+  }
+  return new Error(error instanceof Error ? error.message : 'Unexpected error');
+}
+
+function toUserLayer(layer: StoredUserLayer): UserLayer {
+  return {
+    ...layer,
+    type: 'user',
+    visible: true,
+    opacity: USER_LAYER_OPACITY,
+    persisted: true,
+  };
+}
+
+/**
+ * List the layers stored by the current user
+ */
+export async function getUserLayers(): Promise<UserLayer[]> {
+  try {
+    const response = await apiClient.get<StoredUserLayer[]>('/layers/user');
+    return response.data.map(toUserLayer);
+  } catch (error) {
+    throw handleUserLayersError(error);
+  }
+}
+
+/**
+ * Store an imported layer
+ */
+export async function createUserLayer(input: UserLayerInput): Promise<UserLayer> {
+  try {
+    const response = await apiClient.post<StoredUserLayer>('/layers/user', input);
+    return toUserLayer(response.data);
+  } catch (error) {
+    throw handleUserLayersError(error);
+  }
+}
+
+/**
+ * Delete a stored layer
+ */
+export async function deleteUserLayer(id: string): Promise<void> {
+  try {
+    await apiClient.delete(`/layers/user/${id}`);
+  } catch (error) {
+    throw handleUserLayersError(error);
+  }
+}
+
+const userLayersService = {
+  getUserLayers,
+  createUserLayer,
+  deleteUserLayer,
+};
+
+export default userLayersService;
@@ -0,0 +1,123 @@
+/**
+ * @fileoverview User account service
+ * Profile, password, avatar and preferences on the /users/me resource
+ */
+
+import axios from 'axios';
+import apiClient from './api';
+import type { User } from '@/types/auth';
+import type { ChangePasswordRequest, UpdateProfileRequest } from '@/types/user';
+
+/**
+ * Kind of request that failed
+ * - account: profile, preferences and avatar
+ * - password: password change, where a 403 means a wrong current password
+ */
+type UserErrorContext = 'account' | 'password';
+
+/**
+ * Normalize account errors into user-facing messages
+ * @param error - Axios error
+ * @param context - Kind of request, to tell a wrong password from a forbidden change
+ */
+function handleUserError(error: unknown, context: UserErrorContext = 'account'): Error {
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      const message = error.response.data?.message || error.response.data?.error;
+      switch (error.response.status) {
+        case 400:
+          return new Error(message || 'Invalid data');
+        case 401:
+          return new Error('Your session has expired');
+        case 403:
+          if (context === 'password') {
+            return new Error('The current password is incorrect');
+          }
+          return new Error(message || 'You are not allowed to make this change');
+        case 413:
+          return new Error('The image is too large');
+        case 415:
+          return new Error('Unsupported image format');
+        default:
+          return new Error(message || 'Could not update your account');
+      }
+    }
+    return new Error('Connection error. Please check your internet connection.');
+  }
+  return new Error(error instanceof Error ? error.message : 'Unexpected error');
+}
+
+/**
+ * Get the current user with its preferences
+ */
+export async function getCurrentUser(): Promise<User> {
+  try {
+    const response = await apiClient.get<User>('/users/me');
+    return response.data;
+  } catch (error) {
+    throw handleUserError(error);
+  }
+}
+
+/**
+ * Update the profile and/or preferences of the current user
+ */
+export async function updateCurrentUser(changes: UpdateProfileRequest): Promise<User> {
+  try {
+    const response = await apiClient.patch<User>('/users/me', changes);
+    return response.data;
+  } catch (error) {
+    throw handleUserError(error);
+  }
+}
+
+/**
+ * Change the password of the current user
+ */
+export async function changePassword(request: ChangePasswordRequest): Promise<void> {
+  try {
+    await apiClient.post('/users/me/password', request);
+  } catch (error) {
+    throw handleUserError(error, 'password');
+  }
+}
+
+/**
+ * Upload a new avatar image
+ * @returns The user with the new avatar URL
+ */
+export async function uploadAvatar(file: File): Promise<User> {
+  const formData = new FormData();
+  formData.append('avatar', file);
+
+  try {
+    const response = await apiClient.post<User>('/users/me/avatar', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  } catch (error) {
+    throw handleUserError(error);
+  }
+}
+
+/**
+ * Remove the avatar so the initials are shown instead
+ */
+export async function deleteAvatar(): Promise<User> {
+  try {
+    const response = await apiClient.delete<User>('/users/me/avatar');
+    return response.data;
+  } catch (error) {
+    throw handleUserError(error);
+  }
+}
+
+const userService = {
+  getCurrentUser,
+  updateCurrentUser,
+  changePassword,
+  uploadAvatar,
+  deleteAvatar,
+};
+
+export default userService;
@@ -3,12 +3,28 @@
  * Siguiendo el principio de Single Responsibility (SOLID)
  */
 
+import type { UserPreferences } from './user';
+
+// Roles asignados por el backend
+export type UserRole = 'admin' | 'staff' | 'analyst' | 'viewer';
+
+// Permisos que controlan qué datos y acciones ve el usuario
+export type Permission =
+  | 'maps:view'
+  | 'cadastre:view'
+  | 'cadastre:owner:view' // Datos del propietario de las parcelas
+  | 'data:export'
+  | 'data:import';
+
 // Tipos basados en la respuesta del backend
 export interface User {
   id: string;
   email: string;
   name?: string; // Opcional porque el backend no lo incluye en login
   avatar?: string;
+  roles?: UserRole[];
+  permissions?: Permission[]; // Si el backend los envía, prevalecen sobre los de los roles
+  preferences?: Partial<UserPreferences>;
   createdAt: string; // ISO string del backend
   updatedAt: string; // ISO string del backend
 }
@@ -47,6 +63,24 @@ export interface RefreshTokenRequest {
   refreshToken: string;
 }
 
+// Recuperación de contraseña y verificación de email
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string; // Token recibido en el enlace del email
+  password: string;
+}
+
+export interface VerifyEmailRequest {
+  token: string;
+}
+
+export interface AuthMessageResponse {
+  message: string;
+}
+
 export interface AuthState {
   user: User | null;
   accessToken: string | null;
@@ -61,4 +95,5 @@ export interface AuthContextType extends AuthState {
   register: (credentials: RegisterCredentials) => Promise<boolean>;
   logout: () => void;
   refreshAuth: () => Promise<void>;
+  updateUser: (user: User) => void;
 }
\ No newline at end of file
@@ -7,6 +7,11 @@ import type { LayerProps as MapboxLayerProps } from 'react-map-gl/mapbox';
 
 export type LayerProps = MapboxLayerProps;
 
+/**
+ * Estilos de mapa base disponibles
+ */
+export type BasemapStyle = 'streets' | 'satellite' | 'outdoors' | 'light' | 'dark';
+
 export interface MapViewState {
   /** Latitud del centro del mapa */
   latitude: number;
@@ -37,6 +42,10 @@ export interface MapConfig {
     geolocate: boolean;
     scale: boolean;
   };
+  /** Unidades de la escala */
+  units?: 'metric' | 'imperial';
+  /** Idioma de las etiquetas del mapa */
+  language?: string;
 }
 
 /**
@@ -72,6 +81,51 @@ export interface FrenchLieuxDit {
   geometry: GeoJSON.Geometry;
 }
 
+/**
+ * Niveles administrativos tal como los nombra geo.api.gouv.fr
+ */
+export type AdministrativeLevel = 'region' | 'departement' | 'commune';
+
+/**
+ * Unidad administrativa seleccionada en el mapa
+ */
+export interface AdministrativeSelection {
+  type: AdministrativeLevel;
+  code: string;
+}
+
+/**
+ * Códigos de la región, el departamento y la comuna que contienen un lugar
+ */
+export interface AdministrativeUnits {
+  region: string;
+  department: string;
+  commune: string;
+}
+
+/**
+ * Tipos de resultado de la búsqueda
+ */
+export type GeocodingResultType = 'commune' | 'address' | 'parcel' | 'coordinates';
+
+/**
+ * Resultado de la búsqueda de lugares
+ */
+export interface GeocodingResult {
+  id: string;
+  type: GeocodingResultType;
+  /** Texto principal (nombre, dirección, referencia catastral…) */
+  label: string;
+  /** Contexto mostrado bajo el texto (departamento, código postal…) */
+  context?: string;
+  /** Posición [lng, lat] */
+  center: [number, number];
+  /** Extensión [oeste, sur, este, norte] para encuadrar el resultado */
+  bbox?: [number, number, number, number];
+  /** Unidades administrativas, si el proveedor ya las conoce */
+  units?: AdministrativeUnits;
+}
+
 /**
  * Tipos para capas de datos forestales (BD Forêt)
  */
@@ -94,6 +148,153 @@ export interface CadastreLayer {
   opacity: number;
   geoData: GeoJSON.FeatureCollection;
   commune?: string;
+  /** Si las parcelas son datos de ejemplo porque el catastro no responde */
+  isFixture?: boolean;
+  /** Comunas cuyas parcelas no se pudieron cargar */
+  failedCommunes?: string[];
+}
+
+/**
+ * Estado de una capa en el gestor de capas
+ */
+export interface LayerStateEntry {
+  /** Opacidad (0-1) */
+  opacity: number;
+  /** Capa ocultada por el usuario */
+  muted: boolean;
+}
+
+/**
+ * Estado del gestor de capas: orden, opacidad, mute y solo
+ */
+export interface LayerManagerState {
+  /** Ids de las capas, de arriba a abajo */
+  order: string[];
+  /** Estado de cada capa por id */
+  layers: Record<string, LayerStateEntry>;
+  /** Capas en solo; si hay alguna, solo se muestran estas */
+  soloIds: string[];
+  /** Capas visibles de una sesión restaurada, aplicadas a las capas que se carguen después */
+  restoredVisibleIds: string[] | null;
+}
+
+/**
+ * Formatos de exportación de capas
+ */
+export type ExportFormat = 'geojson' | 'kml' | 'shapefile' | 'geopackage' | 'csv';
+
+/**
+ * Área a la que se recortan los datos exportados
+ */
+export type ExportClipArea = 'none' | 'aoi' | 'boundary';
+
+/**
+ * Capa preparada para exportar
+ */
+export interface ExportLayer {
+  /** Nombre de la capa (nombre de fichero, tabla o carpeta) */
+  name: string;
+  features: GeoJSON.Feature[];
+}
+
+/**
+ * Atributo de las entidades exportadas, con su tipo deducido de los valores
+ */
+export interface AttributeField {
+  name: string;
+  type: 'integer' | 'real' | 'boolean' | 'text';
+}
+
+/**
+ * Formatos de los ficheros que el usuario puede importar
+ */
+export type ImportFormat = 'geojson' | 'kml' | 'gpx' | 'shapefile';
+
+/**
+ * Capa con datos importados por el usuario
+ */
+export interface UserLayer {
+  id: string;
+  name: string;
+  type: 'user';
+  visible: boolean;
+  opacity: number;
+  /** Color de relleno y contorno */
+  color: string;
+  geoData: GeoJSON.FeatureCollection;
+  /** Formato del fichero de origen */
+  format: ImportFormat;
+  /** Guardada en el backend; si no, solo existe durante la sesión */
+  persisted: boolean;
+  createdAt?: string;
+}
+
+/**
+ * Entidad descartada al importar, con el motivo
+ */
+export interface FeatureImportError {
+  /** Posición de la entidad en el fichero (desde 1) */
+  index: number;
+  message: string;
+}
+
+/**
+ * Resultado de leer un conjunto de datos de un fichero importado
+ */
+export interface ImportedDataset {
+  /** Nombre del fichero de origen */
+  fileName: string;
+  /** Nombre de la capa (nombre del fichero o del shapefile dentro del zip) */
+  name: string;
+  format: ImportFormat;
+  /** Entidades válidas, en WGS 84 */
+  geoData: GeoJSON.FeatureCollection;
+  /** Entidades descartadas */
+  errors: FeatureImportError[];
+}
+
+/**
+ * Resumen de la importación de un fichero para el usuario
+ */
+export interface ImportReport {
+  fileName: string;
+  /** Capa creada; ausente si el fichero no se pudo leer */
+  layerName?: string;
+  /** Entidades importadas */
+  featureCount: number;
+  /** Entidades descartadas */
+  errors: FeatureImportError[];
+  /** Error del fichero completo (formato, proyección) o al guardar la capa */
+  error?: string;
+}
+
+/**
+ * Tamaños de papel del compositor de impresión
+ */
+export type PaperSize = 'A4' | 'A3';
+
+export type PaperOrientation = 'portrait' | 'landscape';
+
+export type PrintFormat = 'png' | 'pdf';
+
+/**
+ * Opciones del compositor de impresión
+ */
+export interface PrintOptions {
+  title: string;
+  paperSize: PaperSize;
+  orientation: PaperOrientation;
+  /** Resolución en puntos por pulgada */
+  dpi: number;
+  format: PrintFormat;
+}
+
+/**
+ * Entrada de la leyenda del mapa impreso
+ */
+export interface LegendItem {
+  label: string;
+  color: string;
 }
 
 export interface ForestDataSource {
@@ -118,8 +319,18 @@ export interface TreeSpecies {
  */
 export interface CadastreParcel {
   id: string;
+  /** Referencia catastral (sección + número, p.ej. AB0123) */
   reference: string;
-  geometry: GeoJSON.Polygon;
+  /** Código INSEE de la comuna */
+  communeCode: string;
+  /** Sección catastral */
+  section: string;
+  /** Número de parcela dentro de la sección */
+  number: string;
+  /** Superficie catastral en m² */
+  contenance: number;
+  geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon;
+  /** Superficie en hectáreas */
   area: number;
   owner?: string;
   landUse: string;
@@ -139,6 +350,8 @@ export interface MapFilters {
   treeSpecies?: string[];
   /** Mostrar parcelas catastrales */
   showCadastre: boolean;
+  /** Área de interés dibujada por el usuario */
+  aoi?: GeoJSON.Polygon;
   /** Rango de fechas para datos forestales */
   dateRange?: {
     from: Date;
@@ -146,20 +359,106 @@ export interface MapFilters {
   };
 }
 
+/**
+ * Herramientas de dibujo del área de interés
+ */
+export type DrawMode = 'polygon' | 'rectangle' | 'circle';
+
+/**
+ * Herramientas de medición: distancia (polilínea) o área y perímetro (polígono)
+ */
+export type MeasureMode = 'distance' | 'area';
+
+/**
+ * Unidades de las medidas: métricas (m, km, m², km²), agrarias (ha, a) o imperiales (ft, mi, ac)
+ */
+export type MeasureUnits = 'metric' | 'hectares' | 'imperial';
+
+/**
+ * Resultado de una medición
+ */
+export interface MeasureResult {
+  mode: MeasureMode;
+  /** Longitud de cada tramo en metros */
+  segments: number[];
+  /** Longitud total de la polilínea, o perímetro del polígono, en metros */
+  length: number;
+  /** Área del polígono en m² */
+  area?: number;
+}
+
+/**
+ * Estadísticas forestales de una especie dentro del área analizada
+ */
+export interface SpeciesStatistics {
+  /** ID normalizado de la especie */
+  speciesId: string;
+  /** Nombre a mostrar */
+  name: string;
+  /** Superficie forestal en hectáreas */
+  area: number;
+  /** Biomasa total en toneladas */
+  biomass: number;
+  /** Stock de carbono total en toneladas de carbono */
+  carbonStock: number;
+}
+
+/**
+ * Estadísticas forestales del área de interés o de la unidad administrativa
+ */
+export interface AreaStatistics {
+  /** Superficie forestal total en hectáreas */
+  totalArea: number;
+  /** Densidad media ponderada por superficie (0-1) */
+  meanDensity: number;
+  /** Biomasa total en toneladas */
+  totalBiomass: number;
+  /** Stock de carbono total en toneladas de carbono */
+  totalCarbonStock: number;
+  /** Número de parcelas forestales que intersectan el área */
+  featureCount: number;
+  /** Desglose por especie, ordenado por superficie descendente */
+  species: SpeciesStatistics[];
+}
+
+/**
+ * Sesión de mapa serializable: vista, filtros, capas y unidad administrativa
+ */
+export interface MapSession {
+  /** Estado de la vista del mapa */
+  viewState: MapViewState;
+  /** Filtros aplicados */
+  filters: MapFilters;
+  /** Capas visibles (undefined: todas) */
+  visibleLayers?: string[];
+  /** Unidad administrativa seleccionada */
+  selectedUnit?: AdministrativeSelection | null;
+}
+
 /**
  * Estado del mapa guardado por usuario
  */
 export interface SavedMapState {
+  /** ID del mapa guardado */
+  id: string;
   /** ID del usuario */
   userId: string;
+  /** Nombre dado por el usuario */
+  name: string;
   /** Estado de la vista del mapa */
   viewState: MapViewState;
   /** Filtros aplicados */
   filters: MapFilters;
   /** Capas visibles */
   visibleLayers: string[];
-  /** Última actualización */
-  updatedAt: Date;
+  /** Unidad administrativa seleccionada */
+  selectedUnit: AdministrativeSelection | null;
+  /** Fecha de creación (ISO string del backend) */
+  createdAt: string;
+  /** Última actualización (ISO string del backend) */
+  updatedAt: string;
+  /** Guardado solo en este navegador porque no había conexión */
+  isLocal?: boolean;
 }
 
 /**
@@ -229,6 +528,26 @@ export interface GeospatialQuery {
   page?: number;
 }
 
+/**
+ * Tile del esquema slippy-map (z/x/y) usado para paginar las consultas espaciales
+ */
+export interface MapTile {
+  /** Nivel de zoom del tile */
+  z: number;
+  /** Columna del tile */
+  x: number;
+  /** Fila del tile */
+  y: number;
+}
+
+/**
+ * Datos forestales de un tile
+ */
+export interface ForestTileData extends GeoJSON.FeatureCollection {
+  /** Si se alcanzó el máximo de páginas y faltan features del tile */
+  truncated: boolean;
+}
+
 /**
  * Props para el componente MapViewer
  */
@@ -241,6 +560,24 @@ export interface MapViewerProps {
   layers?: ForestLayer[];
   /** Capas de cadastre a mostrar */
   cadastreLayers?: CadastreLayer[];
+  /** Catálogo de especies para colorear las capas forestales */
+  treeSpecies?: TreeSpecies[];
+  /** Capas importadas por el usuario */
+  userLayers?: UserLayer[];
+  /** Orden de dibujo de las capas forestales, de cadastre e importadas, de arriba a abajo */
+  layerOrder?: string[];
+  /** Contorno de la unidad administrativa seleccionada */
+  boundary?: GeoJSON.FeatureCollection;
+  /** Callback cuando se dibuja, edita o borra el área de interés */
+  onAoiChange?: (aoi: GeoJSON.Polygon | undefined) => void;
+  /** Mapa base elegido; si se omite se usa config.mapStyle */
+  basemap?: BasemapStyle;
+  /** Callback del selector de mapa base; sin él no se muestra el selector */
+  onBasemapChange?: (style: BasemapStyle) => void;
+  /** Muestra el compositor de impresión (PNG/PDF) */
+  enablePrint?: boolean;
+  /** Título propuesto para el mapa impreso */
+  printTitle?: string;
   /** Altura del mapa */
   height?: string | number;
   /** Ancho del mapa */
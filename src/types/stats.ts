@@ -0,0 +1,44 @@
+/**
+ * @fileoverview Definición de tipos TypeScript para las métricas del dashboard
+ */
+
+/**
+ * Periodo de comparación de las métricas
+ */
+export type StatsPeriod = '7d' | '30d' | '90d';
+
+/**
+ * Cifras de actividad de un usuario en un periodo
+ */
+export interface UserStatsFigures {
+  /** Mapas guardados */
+  savedMaps: number;
+  /** Áreas de interés analizadas */
+  analysedAois: number;
+  /** Hectáreas inspeccionadas */
+  inspectedHectares: number;
+}
+
+/**
+ * Respuesta del endpoint /stats
+ */
+export interface UserStatsResponse {
+  period: StatsPeriod;
+  /** Cifras del periodo actual */
+  current: UserStatsFigures;
+  /** Cifras del periodo anterior de la misma duración */
+  previous: UserStatsFigures;
+  /** Fecha ISO de la última actividad, null si no hay ninguna */
+  lastActivityAt: string | null;
+}
+
+/**
+ * Variación de una métrica respecto al periodo anterior
+ */
+export interface StatDelta {
+  /** Diferencia absoluta */
+  value: number;
+  /** Diferencia relativa en %, null cuando el periodo anterior es 0 */
+  percent: number | null;
+  trend: 'positive' | 'negative' | 'neutral';
+}
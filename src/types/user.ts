@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Tipos TypeScript para el perfil y las preferencias del usuario
+ */
+
+import type { BasemapStyle, MapViewState } from './map';
+
+// Sistema de unidades para escalas y medidas
+export type UnitSystem = 'metric' | 'imperial';
+
+// Idiomas disponibles para la interfaz y las etiquetas del mapa
+export type AppLanguage = 'es' | 'en' | 'fr';
+
+export interface UserPreferences {
+  /** Estilo de mapa por defecto */
+  mapStyle: BasemapStyle;
+  /** Vista inicial del mapa; null para usar la vista de Francia */
+  defaultView: MapViewState | null;
+  /** Unidades de medida */
+  units: UnitSystem;
+  /** Idioma */
+  language: AppLanguage;
+}
+
+// Datos editables del perfil (PATCH /users/me)
+export interface UpdateProfileRequest {
+  name?: string;
+  preferences?: Partial<UserPreferences>;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}